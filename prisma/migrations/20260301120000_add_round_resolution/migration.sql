@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "RoundResolution" (
+    "id" TEXT NOT NULL,
+    "roundId" TEXT NOT NULL,
+    "finalPrice" DOUBLE PRECISION NOT NULL,
+    "winnerCount" INTEGER NOT NULL DEFAULT 0,
+    "totalPayout" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoundResolution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoundResolution_roundId_key" ON "RoundResolution"("roundId");
+
+-- AddForeignKey
+ALTER TABLE "RoundResolution" ADD CONSTRAINT "RoundResolution_roundId_fkey" FOREIGN KEY ("roundId") REFERENCES "Round"("id") ON DELETE CASCADE ON UPDATE CASCADE;
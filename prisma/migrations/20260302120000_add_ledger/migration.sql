@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'BET';
+ALTER TYPE "TransactionType" ADD VALUE 'REFUND';
+
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('USER_WALLET', 'ROUND_ESCROW', 'HOUSE', 'BONUS_POOL');
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "journalId" TEXT NOT NULL,
+    "accountType" "LedgerAccountType" NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "roundId" TEXT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_journalId_idx" ON "LedgerEntry"("journalId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_accountType_accountId_idx" ON "LedgerEntry"("accountType", "accountId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_roundId_idx" ON "LedgerEntry"("roundId");
+
+-- Backfill: open every existing wallet from the bonus pool so balances reconcile
+INSERT INTO "LedgerEntry" ("id", "journalId", "accountType", "accountId", "amount", "description")
+SELECT gen_random_uuid()::text, 'opening-' || "id", 'USER_WALLET', "id", "virtualBalance", 'Opening balance'
+FROM "User" WHERE "virtualBalance" <> 0;
+
+INSERT INTO "LedgerEntry" ("id", "journalId", "accountType", "accountId", "amount", "description")
+SELECT gen_random_uuid()::text, 'opening-' || "id", 'BONUS_POOL', 'bonus-pool', -"virtualBalance", 'Opening balance'
+FROM "User" WHERE "virtualBalance" <> 0;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "PriceHistory" (
+    "id" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "sources" TEXT[],
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PriceCandle" (
+    "id" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "interval" TEXT NOT NULL,
+    "openTime" TIMESTAMP(3) NOT NULL,
+    "open" DOUBLE PRECISION NOT NULL,
+    "high" DOUBLE PRECISION NOT NULL,
+    "low" DOUBLE PRECISION NOT NULL,
+    "close" DOUBLE PRECISION NOT NULL,
+    "sampleCount" INTEGER NOT NULL DEFAULT 1,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceCandle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PriceHistory_asset_timestamp_idx" ON "PriceHistory"("asset", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "PriceCandle_asset_interval_openTime_idx" ON "PriceCandle"("asset", "interval", "openTime");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceCandle_asset_interval_openTime_key" ON "PriceCandle"("asset", "interval", "openTime");
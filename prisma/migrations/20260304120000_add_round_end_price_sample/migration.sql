@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN     "endPriceAt" TIMESTAMP(3),
+ADD COLUMN     "endPriceSampleId" TEXT,
+ADD COLUMN     "endPriceSources" TEXT[];
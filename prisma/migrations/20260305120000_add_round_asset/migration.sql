@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "Asset" AS ENUM ('XLM', 'BTC', 'ETH', 'USDC_XLM');
+
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN     "asset" "Asset" NOT NULL DEFAULT 'XLM';
+
+-- CreateIndex
+CREATE INDEX "Round_asset_status_idx" ON "Round"("asset", "status");
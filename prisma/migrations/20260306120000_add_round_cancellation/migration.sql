@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ROUND_CANCELLED';
+
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
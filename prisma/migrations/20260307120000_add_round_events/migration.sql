@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "RoundActorType" AS ENUM ('SYSTEM', 'SCHEDULER', 'ADMIN', 'ORACLE');
+
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN     "lockedAt" TIMESTAMP(3),
+ADD COLUMN     "resolvedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "RoundEvent" (
+    "id" TEXT NOT NULL,
+    "roundId" TEXT NOT NULL,
+    "fromStatus" "RoundStatus",
+    "toStatus" "RoundStatus" NOT NULL,
+    "actorType" "RoundActorType" NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoundEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RoundEvent_roundId_createdAt_idx" ON "RoundEvent"("roundId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "RoundEvent" ADD CONSTRAINT "RoundEvent_roundId_fkey" FOREIGN KEY ("roundId") REFERENCES "Round"("id") ON DELETE CASCADE ON UPDATE CASCADE;
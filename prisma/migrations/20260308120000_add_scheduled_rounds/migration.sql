@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN     "bucketConfig" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Round_status_startTime_idx" ON "Round"("status", "startTime");
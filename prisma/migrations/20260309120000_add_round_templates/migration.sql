@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN     "lockTime" TIMESTAMP(3),
+ADD COLUMN     "maxStake" DOUBLE PRECISION,
+ADD COLUMN     "minStake" DOUBLE PRECISION,
+ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RoundTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "mode" "GameMode" NOT NULL,
+    "asset" "Asset" NOT NULL DEFAULT 'XLM',
+    "durationSeconds" INTEGER NOT NULL,
+    "lockBeforeEndSeconds" INTEGER NOT NULL DEFAULT 0,
+    "cadence" TEXT NOT NULL,
+    "bucketConfig" JSONB,
+    "minStake" DOUBLE PRECISION,
+    "maxStake" DOUBLE PRECISION,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoundTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoundTemplate_name_key" ON "RoundTemplate"("name");
+
+-- CreateIndex
+CREATE INDEX "Round_templateId_idx" ON "Round"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "Round" ADD CONSTRAINT "Round_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "RoundTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "RoundTemplate" ALTER COLUMN "lockBeforeEndSeconds" DROP NOT NULL,
+ALTER COLUMN "lockBeforeEndSeconds" DROP DEFAULT;
+
+-- Templates without an explicit lock offset follow the global lock period
+UPDATE "RoundTemplate" SET "lockBeforeEndSeconds" = NULL WHERE "lockBeforeEndSeconds" = 0;
+
+-- Rounds created before lock windows existed stay open until endTime
+UPDATE "Round" SET "lockTime" = "endTime" WHERE "lockTime" IS NULL AND "status" IN ('PENDING', 'ACTIVE');
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "RoundBucket" (
+    "id" TEXT NOT NULL,
+    "roundId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "min" DOUBLE PRECISION,
+    "max" DOUBLE PRECISION,
+    "pool" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "RoundBucket_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoundBucket_roundId_index_key" ON "RoundBucket"("roundId", "index");
+
+-- AddForeignKey
+ALTER TABLE "RoundBucket" ADD CONSTRAINT "RoundBucket_roundId_fkey" FOREIGN KEY ("roundId") REFERENCES "Round"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move existing LEGENDS buckets out of the priceRanges JSON
+INSERT INTO "RoundBucket" ("id", "roundId", "index", "min", "max", "pool")
+SELECT
+    gen_random_uuid()::text,
+    r."id",
+    (b.ordinality - 1)::integer,
+    (b.value->>'min')::double precision,
+    (b.value->>'max')::double precision,
+    COALESCE((b.value->>'pool')::double precision, 0)
+FROM "Round" r
+CROSS JOIN LATERAL jsonb_array_elements(r."priceRanges") WITH ORDINALITY AS b(value, ordinality)
+WHERE jsonb_typeof(r."priceRanges") = 'array';
+
+-- AlterTable
+ALTER TABLE "Round" DROP COLUMN "priceRanges";
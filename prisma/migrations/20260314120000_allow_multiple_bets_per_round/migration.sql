@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "Prediction_roundId_userId_key";
+
+-- CreateIndex
+CREATE INDEX "Prediction_roundId_userId_idx" ON "Prediction"("roundId", "userId");
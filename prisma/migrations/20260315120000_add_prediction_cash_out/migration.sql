@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'CASH_OUT';
+
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "forfeitedPool" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Prediction" ADD COLUMN "withdrawnAt" TIMESTAMP(3),
+ADD COLUMN "withdrawalFee" DOUBLE PRECISION;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'FEE';
+
+-- AlterTable
+ALTER TABLE "RoundResolution" ADD COLUMN "feeBps" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "houseFee" DOUBLE PRECISION NOT NULL DEFAULT 0;
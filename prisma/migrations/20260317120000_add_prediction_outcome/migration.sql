@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "PredictionOutcome" AS ENUM ('WIN', 'LOSS', 'REFUND');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ROUND_REFUNDED';
+
+-- AlterTable
+ALTER TABLE "Prediction" ADD COLUMN "outcome" "PredictionOutcome";
+
+-- Backfill settled bets from won/payout
+UPDATE "Prediction"
+SET "outcome" = CASE
+    WHEN "won" = true THEN 'WIN'::"PredictionOutcome"
+    WHEN "won" = false THEN 'LOSS'::"PredictionOutcome"
+    ELSE 'REFUND'::"PredictionOutcome"
+END
+WHERE "withdrawnAt" IS NULL AND ("won" IS NOT NULL OR "payout" IS NOT NULL);
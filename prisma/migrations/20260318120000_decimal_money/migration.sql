@@ -0,0 +1,39 @@
+-- Monetary columns move from double precision to exact decimals with
+-- stroop (7 decimal) precision; existing values are rounded to the stroop
+
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "virtualBalance" SET DATA TYPE DECIMAL(20,7);
+
+-- AlterTable
+ALTER TABLE "Round" ALTER COLUMN "poolUp" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "poolDown" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "forfeitedPool" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "minStake" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "maxStake" SET DATA TYPE DECIMAL(20,7);
+
+-- AlterTable
+ALTER TABLE "Prediction" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "payout" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "withdrawalFee" SET DATA TYPE DECIMAL(20,7);
+
+-- AlterTable
+ALTER TABLE "RoundResolution" ALTER COLUMN "totalPayout" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "houseFee" SET DATA TYPE DECIMAL(20,7);
+
+-- AlterTable
+ALTER TABLE "RoundTemplate" ALTER COLUMN "minStake" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "maxStake" SET DATA TYPE DECIMAL(20,7);
+
+-- AlterTable
+ALTER TABLE "RoundBucket" ALTER COLUMN "pool" SET DATA TYPE DECIMAL(20,7);
+
+-- AlterTable
+ALTER TABLE "UserStats" ALTER COLUMN "totalEarnings" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "upDownEarnings" SET DATA TYPE DECIMAL(20,7),
+ALTER COLUMN "legendsEarnings" SET DATA TYPE DECIMAL(20,7);
+
+-- AlterTable
+ALTER TABLE "Transaction" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(20,7);
+
+-- AlterTable
+ALTER TABLE "LedgerEntry" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(20,7);
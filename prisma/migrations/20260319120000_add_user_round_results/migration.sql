@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "UserRoundResult" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roundId" TEXT NOT NULL,
+    "mode" "GameMode" NOT NULL,
+    "asset" "Asset" NOT NULL,
+    "stake" DECIMAL(20,7) NOT NULL,
+    "payout" DECIMAL(20,7) NOT NULL,
+    "profit" DECIMAL(20,7) NOT NULL,
+    "won" BOOLEAN NOT NULL,
+    "settledAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserRoundResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserRoundResult_settledAt_idx" ON "UserRoundResult"("settledAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserRoundResult_userId_roundId_key" ON "UserRoundResult"("userId", "roundId");
+
+-- AddForeignKey
+ALTER TABLE "UserRoundResult" ADD CONSTRAINT "UserRoundResult_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRoundResult" ADD CONSTRAINT "UserRoundResult_roundId_fkey" FOREIGN KEY ("roundId") REFERENCES "Round"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Results of rounds settled before this migration are filled in by
+-- `npm run stats:rebuild`
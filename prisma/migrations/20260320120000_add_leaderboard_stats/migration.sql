@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "LeaderboardPeriod" AS ENUM ('ALL_TIME', 'DAILY', 'WEEKLY', 'MONTHLY', 'SEASON');
+
+-- CreateTable
+CREATE TABLE "LeaderboardStat" (
+    "id" TEXT NOT NULL,
+    "period" "LeaderboardPeriod" NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "mode" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "rounds" INTEGER NOT NULL,
+    "wins" INTEGER NOT NULL,
+    "stake" DECIMAL(20,7) NOT NULL,
+    "profit" DECIMAL(20,7) NOT NULL,
+    "roi" DOUBLE PRECISION NOT NULL,
+    "accuracy" DOUBLE PRECISION NOT NULL,
+    "currentStreak" INTEGER NOT NULL,
+    "longestStreak" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LeaderboardStat_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LeaderboardStat_period_periodStart_mode_asset_profit_idx" ON "LeaderboardStat"("period", "periodStart", "mode", "asset", "profit");
+
+-- CreateIndex
+CREATE INDEX "LeaderboardStat_period_periodStart_mode_asset_accuracy_idx" ON "LeaderboardStat"("period", "periodStart", "mode", "asset", "accuracy");
+
+-- CreateIndex
+CREATE INDEX "LeaderboardStat_period_periodStart_mode_asset_roi_idx" ON "LeaderboardStat"("period", "periodStart", "mode", "asset", "roi");
+
+-- CreateIndex
+CREATE INDEX "LeaderboardStat_period_periodStart_mode_asset_longestStreak_idx" ON "LeaderboardStat"("period", "periodStart", "mode", "asset", "longestStreak");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaderboardStat_period_periodStart_mode_asset_userId_key" ON "LeaderboardStat"("period", "periodStart", "mode", "asset", "userId");
+
+-- AddForeignKey
+ALTER TABLE "LeaderboardStat" ADD CONSTRAINT "LeaderboardStat_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Boards for rounds settled before this migration are filled in by
+-- `npm run stats:rebuild`
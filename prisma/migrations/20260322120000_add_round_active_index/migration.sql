@@ -0,0 +1,24 @@
+-- Before this index the scheduler could start a second ACTIVE round of an
+-- asset and mode. Keep the newest ACTIVE round of each asset and mode open and
+-- lock the older ones, so their bets are still settled by the normal
+-- resolution flow instead of blocking the index
+CREATE TEMP TABLE "DuplicateActiveRound" AS
+SELECT "id" FROM (
+    SELECT "id", ROW_NUMBER() OVER (
+        PARTITION BY "asset", "mode" ORDER BY "startTime" DESC, "createdAt" DESC
+    ) AS "rank"
+    FROM "Round" WHERE "status" = 'ACTIVE'
+) AS "ranked" WHERE "rank" > 1;
+
+UPDATE "Round" SET "status" = 'LOCKED', "lockedAt" = CURRENT_TIMESTAMP
+WHERE "id" IN (SELECT "id" FROM "DuplicateActiveRound");
+
+INSERT INTO "RoundEvent" ("id", "roundId", "fromStatus", "toStatus", "actorType", "reason")
+SELECT gen_random_uuid()::text, "id", 'ACTIVE', 'LOCKED', 'SYSTEM', 'Duplicate active round locked by migration'
+FROM "DuplicateActiveRound";
+
+DROP TABLE "DuplicateActiveRound";
+
+-- CreateIndex: one ACTIVE round per asset and mode, so concurrent starts and
+-- promotions cannot both go live (partial index, not expressible in schema.prisma)
+CREATE UNIQUE INDEX "Round_asset_mode_active_key" ON "Round"("asset", "mode") WHERE "status" = 'ACTIVE';
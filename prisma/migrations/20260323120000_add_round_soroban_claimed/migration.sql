@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "sorobanClaimedAt" TIMESTAMP(3);
+
+-- Rounds already resolved on-chain were claimed by that call
+UPDATE "Round" SET "sorobanClaimedAt" = "sorobanResolvedAt" WHERE "sorobanResolvedAt" IS NOT NULL;
@@ -1,29 +1,49 @@
 
 import { PrismaClient } from '@prisma/client';
+import ledgerService, { ledgerAccounts } from '../src/services/ledger.service';
 
 const prisma = new PrismaClient();
 
+const SEED_BALANCE = 2500.5;
+
 async function main() {
     console.log('🌱 Starting seed...');
 
-    // Create or update a test user
-    const user = await prisma.user.upsert({
-        where: { walletAddress: 'G_TEST_WALLET_ADDRESS_123456789' },
-        update: {},
-        create: {
-            walletAddress: 'G_TEST_WALLET_ADDRESS_123456789',
-            publicKey: 'G_TEST_PUBLIC_KEY',
-            wins: 5,
-            streak: 2,
-            virtualBalance: 2500.50,
-            messages: {
-                create: [
-                    { content: 'Hello World! This is a test message.' },
-                    { content: 'Xelma backend is looking great! 🚀' },
-                ],
-            },
-        },
-    });
+    // Create the test user once, funding its balance through the ledger so
+    // reconciliation finds it balanced
+    const walletAddress = 'G_TEST_WALLET_ADDRESS_123456789';
+    const user =
+        (await prisma.user.findUnique({ where: { walletAddress } })) ??
+        (await prisma.$transaction(async (tx) => {
+            const created = await tx.user.create({
+                data: {
+                    walletAddress,
+                    publicKey: 'G_TEST_PUBLIC_KEY',
+                    wins: 5,
+                    streak: 2,
+                    virtualBalance: 0,
+                    messages: {
+                        create: [
+                            { content: 'Hello World! This is a test message.' },
+                            { content: 'Xelma backend is looking great! 🚀' },
+                        ],
+                    },
+                },
+            });
+
+            await ledgerService.transfer(
+                {
+                    from: ledgerAccounts.bonusPool(),
+                    to: ledgerAccounts.wallet(created.id),
+                    amount: SEED_BALANCE,
+                    type: 'DEPOSIT',
+                    description: 'Seed balance',
+                },
+                tx,
+            );
+
+            return tx.user.findUniqueOrThrow({ where: { id: created.id } });
+        }));
 
     console.log(`✅ User seeded: ${user.walletAddress}`);
     console.log(`stats: wins=${user.wins}, streak=${user.streak}, balance=${user.virtualBalance}`);
@@ -27,6 +27,16 @@ export const swaggerSpec = swaggerJSDoc({
           description: 'Paste a JWT like: Bearer <token>',
         },
       },
+      parameters: {
+        IdempotencyKey: {
+          in: 'header',
+          name: 'Idempotency-Key',
+          required: false,
+          schema: { type: 'string', maxLength: 255 },
+          description:
+            'Makes retries safe: a repeated request with the same key and body replays the original response (with Idempotent-Replayed: true) for 24 hours instead of running again. Reusing a key with a different body returns 422; retrying while the original is still running returns 409.',
+        },
+      },
       schemas: {
         ErrorResponse: {
           type: 'object',
@@ -107,12 +117,56 @@ export const swaggerSpec = swaggerJSDoc({
           required: ['leaderboard', 'totalUsers', 'lastUpdated'],
           additionalProperties: true,
         },
+        BoardEntry: {
+          type: 'object',
+          properties: {
+            rank: { type: 'integer' },
+            userId: { type: 'string' },
+            walletAddress: { type: 'string', description: 'Masked wallet public key' },
+            rounds: { type: 'integer', description: 'Settled rounds in the period' },
+            wins: { type: 'integer' },
+            accuracy: { type: 'number', description: 'Rounds won, in percent' },
+            totalStake: { type: 'number' },
+            earnings: { type: 'number', description: 'Payouts less stakes' },
+            roi: { type: 'number', description: 'Earnings per unit staked' },
+            currentStreak: { type: 'integer' },
+            longestStreak: { type: 'integer' },
+          },
+          required: ['rank', 'userId', 'walletAddress', 'rounds', 'wins', 'accuracy', 'totalStake', 'earnings', 'roi', 'currentStreak', 'longestStreak'],
+          additionalProperties: false,
+        },
+        BoardResponse: {
+          type: 'object',
+          properties: {
+            board: {
+              type: 'object',
+              properties: {
+                period: { type: 'string', enum: ['ALL_TIME', 'DAILY', 'WEEKLY', 'MONTHLY', 'SEASON'] },
+                periodStart: { type: 'string', format: 'date-time' },
+                periodEnd: { type: 'string', format: 'date-time', nullable: true },
+                mode: { type: 'string', enum: ['UP_DOWN', 'LEGENDS'], nullable: true },
+                asset: { type: 'string', enum: ['XLM', 'BTC', 'ETH', 'USDC_XLM'], nullable: true },
+                metric: { type: 'string', enum: ['earnings', 'accuracy', 'roi', 'streak'] },
+                minBets: { type: 'integer' },
+              },
+              required: ['period', 'periodStart', 'periodEnd', 'mode', 'asset', 'metric', 'minBets'],
+              additionalProperties: false,
+            },
+            leaderboard: { type: 'array', items: { $ref: '#/components/schemas/BoardEntry' } },
+            userPosition: { $ref: '#/components/schemas/BoardEntry' },
+            totalUsers: { type: 'number' },
+            lastUpdated: { type: 'string', format: 'date-time' },
+          },
+          required: ['board', 'leaderboard', 'totalUsers', 'lastUpdated'],
+          additionalProperties: false,
+        },
       },
     },
     tags: [
       { name: 'auth', description: 'Wallet authentication and JWT issuance' },
       { name: 'leaderboard', description: 'Leaderboard and rankings' },
       { name: 'rounds', description: 'Round management and resolution' },
+      { name: 'round-templates', description: 'Recurring round series run by the scheduler' },
       { name: 'predictions', description: 'Prediction placement and queries' },
       { name: 'education', description: 'Educational content' },
       { name: 'user', description: 'User profile & balance (planned)' },
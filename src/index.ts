@@ -5,23 +5,33 @@ import { createServer, Server as HttpServer } from 'http';
 import authRoutes from './routes/auth.routes';
 import userRoutes from "./routes/user.routes";
 import roundsRoutes from './routes/rounds.routes';
+import roundsLegacyRoutes from './routes/rounds-legacy.routes';
+import roundTemplatesRoutes from './routes/round-templates.routes';
 import predictionsRoutes from './routes/predictions.routes';
 import educationRoutes from './routes/education.routes';
 import leaderboardRoutes from './routes/leaderboard.routes';
 import notificationsRoutes from "./routes/notifications.routes";
 import priceOracle from './services/oracle';
+import priceHistoryService from './services/price-history.service';
 import websocketService from './services/websocket.service';
 import schedulerService from './services/scheduler.service';
 import roundSchedulerService from './services/round-scheduler.service';
+import roundService from './services/round.service';
+import leaderElectionService from './services/leader-election.service';
 import logger from './utils/logger';
 import chatRoutes from "./routes/chat.routes";
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './docs/openapi';
 import { initializeSocket } from './socket';
 import { prisma } from './lib/prisma';
+import { CandleInterval, CANDLE_INTERVALS, PriceHistoryResponse } from './types/price.types';
+import { ASSET_QUOTES, DEFAULT_ASSET, SUPPORTED_ASSETS, parseAsset } from './utils/asset.util';
 
 dotenv.config();
 
+// Upper bound on candles returned by /api/price/history
+const MAX_CANDLES = 1000;
+
 /**
  * Create and configure the Express app without starting any background
  * jobs or binding to a network port. Safe to import in tests.
@@ -43,7 +53,10 @@ export function createApp(): Express {
   // API Routes
   app.use("/api/auth", authRoutes);
   app.use("/api/user", userRoutes);
-  app.use("/api/rounds", roundsRoutes);
+  app.use("/api/v1/rounds", roundsRoutes);
+  app.use("/api/v1/round-templates", roundTemplatesRoutes);
+  // Deprecated: forwards to /api/v1/rounds with Deprecation headers
+  app.use("/api/rounds", roundsLegacyRoutes);
   app.use("/api/predictions", predictionsRoutes);
   app.use("/api/education", educationRoutes);
   app.use("/api/leaderboard", leaderboardRoutes);
@@ -75,14 +88,128 @@ export function createApp(): Express {
 
   // Price Oracle endpoint
   app.get("/api/price", (req: Request, res: Response) => {
-    const price = priceOracle.getPrice();
+    const asset = req.query.asset ? parseAsset(req.query.asset) : DEFAULT_ASSET;
+
+    if (!asset) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: `asset must be one of ${SUPPORTED_ASSETS.join(", ")}`,
+      });
+    }
+
+    const price = priceOracle.getPrice(asset);
+    const quote = ASSET_QUOTES[asset];
+
+    // No fresh aggregated price: report unavailable rather than a stale value
+    if (price === null) {
+      return res.status(503).json({
+        asset,
+        quote,
+        price: null,
+        price_usd: null,
+        status: "unavailable",
+        timestamp: new Date().toISOString(),
+      });
+    }
+
     res.json({
-      asset: "XLM",
-      price_usd: price,
+      asset,
+      quote,
+      price,
+      price_usd: quote === "USD" ? price : null,
+      status: "ok",
       timestamp: new Date().toISOString(),
     });
   });
 
+  // Historical OHLC candles
+  app.get("/api/price/history", async (req: Request, res: Response) => {
+    try {
+      const asset = req.query.asset ? parseAsset(req.query.asset) : DEFAULT_ASSET;
+      const interval = ((req.query.interval as string) || "1m") as CandleInterval;
+
+      if (!asset) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: `asset must be one of ${SUPPORTED_ASSETS.join(", ")}`,
+        });
+      }
+
+      if (!(interval in CANDLE_INTERVALS)) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: `interval must be one of ${Object.keys(CANDLE_INTERVALS).join(", ")}`,
+        });
+      }
+
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      // Default window: the last 100 candles
+      const from = req.query.from
+        ? new Date(req.query.from as string)
+        : new Date(to.getTime() - CANDLE_INTERVALS[interval] * 100);
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: "from and to must be valid ISO dates with from <= to",
+        });
+      }
+
+      if ((to.getTime() - from.getTime()) / CANDLE_INTERVALS[interval] > MAX_CANDLES) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: `Requested range exceeds ${MAX_CANDLES} candles`,
+        });
+      }
+
+      const candles = await priceHistoryService.getCandles(asset, interval, from, to);
+
+      const response: PriceHistoryResponse = {
+        asset,
+        interval,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        candles,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error("Failed to get price history:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to get price history",
+      });
+    }
+  });
+
+  // Per-source oracle health
+  app.get("/api/price/sources", (req: Request, res: Response) => {
+    const asset = req.query.asset ? parseAsset(req.query.asset) : DEFAULT_ASSET;
+    const status = asset ? priceOracle.getStatus(asset) : null;
+
+    if (!status) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: `asset must be one of ${priceOracle.getAssets().join(", ")}`,
+      });
+    }
+
+    res.json(status);
+  });
+
+  // Which instance runs the schedulers
+  app.get("/api/scheduler/status", async (req: Request, res: Response) => {
+    try {
+      res.json(await leaderElectionService.getStatus());
+    } catch (error) {
+      logger.error("Failed to get scheduler status:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to get scheduler status",
+      });
+    }
+  });
+
   // 404 handler
   app.use((req: Request, res: Response) => {
     res.status(404).json({
@@ -123,24 +250,54 @@ export function startServer(app: Express): ServerHandle {
   // Start Oracle Polling
   priceOracle.startPolling();
 
-  // Initialize Schedulers
-  schedulerService.start();
-  roundSchedulerService.start();
+  // Persist every oracle price for charts and resolution audits; only the
+  // leader records, so each sample is stored once across instances
+  let stopRecordingPrices: (() => void) | null = null;
+  const stopPriceRecording = () => {
+    stopRecordingPrices?.();
+    stopRecordingPrices = null;
+  };
+
+  // Only the instance holding the scheduler lease runs the cron jobs
+  leaderElectionService.start({
+    onElected: async () => {
+      stopRecordingPrices = priceOracle.onPrice((asset, price, sources, timestamp) =>
+        priceHistoryService.recordSample(asset, price, sources, timestamp),
+      );
+      schedulerService.start();
+      roundSchedulerService.start();
+
+      // Lock rounds started before a restart or by a previous leader
+      await roundService.armLockTimers();
+    },
+    onDemoted: () => {
+      stopPriceRecording();
+      schedulerService.stop();
+      roundSchedulerService.stop();
+      // The new leader arms its own timers for every active round
+      roundService.clearLockTimers();
+    },
+  });
 
   // Emit price updates via WebSocket
   const priceInterval = setInterval(() => {
-    const price = priceOracle.getPrice();
-    if (price !== null) {
-      websocketService.emitPriceUpdate("XLM", price);
+    for (const asset of priceOracle.getAssets()) {
+      const price = priceOracle.getPrice(asset);
+      if (price !== null) {
+        websocketService.emitPriceUpdate(asset, price);
+      }
     }
   }, 5000);
 
   const cleanup = async () => {
     logger.info("Shutting down gracefully...");
     clearInterval(priceInterval);
+    stopPriceRecording();
     priceOracle.stopPolling();
+    await leaderElectionService.stop();
     schedulerService.stop();
     roundSchedulerService.stop();
+    roundService.clearLockTimers();
     httpServer.close();
     await prisma.$disconnect();
     logger.info("Shutdown complete");
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import logger from "../utils/logger";
+
+/**
+ * Marks every response from a deprecated API surface (RFC 8594 / RFC 9745):
+ * - `Deprecation: true`
+ * - `Link: <successor>; rel="successor-version"`
+ * - `Sunset: <date>` when LEGACY_API_SUNSET is set (any Date-parsable value)
+ */
+export const deprecated = (successor: string): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    res.setHeader("Deprecation", "true");
+    res.setHeader("Link", `<${successor}>; rel="successor-version"`);
+
+    const sunset = process.env.LEGACY_API_SUNSET;
+    if (sunset && !isNaN(Date.parse(sunset))) {
+      res.setHeader("Sunset", new Date(sunset).toUTCString());
+    }
+
+    logger.warn(
+      `Deprecated endpoint called: ${req.method} ${req.originalUrl} (use ${successor})`,
+    );
+
+    next();
+  };
+};
@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from "express";
+import idempotencyService, { CLAIM_HEARTBEAT_MS } from "../services/idempotency.service";
+import logger from "../utils/logger";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Honours an `Idempotency-Key` header on money-moving endpoints. Must run
+ * after authentication, since keys are scoped to the user.
+ *
+ * - First use: the request runs and its response is stored for replay
+ *   (5xx responses are not stored, so the retry runs the request again)
+ * - Retry with the same body: the stored response, with
+ *   `Idempotent-Replayed: true`
+ * - Retry with a different body: 422
+ * - Retry while the original is still running: 409 (the original renews its
+ *   claim while it runs, however long it takes)
+ *
+ * Requests without the header are unaffected.
+ */
+export const idempotent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  const key = req.header("Idempotency-Key");
+  const userId = req.user?.userId;
+
+  if (key === undefined || !userId) {
+    next();
+    return;
+  }
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      error: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    });
+    return;
+  }
+
+  let claim;
+  try {
+    claim = await idempotencyService.claim({
+      userId,
+      key,
+      method: req.method,
+      // The routed path, not originalUrl: the legacy shims move ids from the
+      // body into a rewritten URL
+      path: req.baseUrl + req.path,
+      body: req.body,
+    });
+  } catch (error) {
+    logger.error("Failed to claim idempotency key:", error);
+    res.status(500).json({ error: "Failed to process Idempotency-Key" });
+    return;
+  }
+
+  switch (claim.state) {
+    case "replay":
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(claim.status).json(claim.body);
+      return;
+    case "mismatch":
+      res.status(422).json({
+        error: "Idempotency-Key was already used for a different request",
+      });
+      return;
+    case "in_progress":
+      res.status(409).json({
+        error: "A request with this Idempotency-Key is still being processed",
+      });
+      return;
+  }
+
+  const claimId = claim.id;
+  const json = res.json.bind(res);
+
+  // Keep the claim from looking abandoned while the request runs, e.g. on a
+  // slow contract call
+  const heartbeat = setInterval(() => {
+    idempotencyService.renew(claimId).catch((error) => {
+      logger.error(`Failed to renew idempotency key ${key}:`, error);
+    });
+  }, CLAIM_HEARTBEAT_MS);
+  heartbeat.unref();
+  res.on("close", () => clearInterval(heartbeat));
+
+  // Store the outcome before answering, so a retry arriving right after the
+  // response replays it instead of finding the key still in progress
+  res.json = ((body: unknown) => {
+    res.json = json;
+    clearInterval(heartbeat);
+
+    const settle =
+      res.statusCode >= 500
+        ? idempotencyService.release(claimId)
+        : idempotencyService.complete(claimId, res.statusCode, body);
+
+    settle
+      .catch((error) => {
+        logger.error(`Failed to store the response for idempotency key ${key}:`, error);
+      })
+      .finally(() => json(body));
+
+    return res;
+  }) as Response["json"];
+
+  next();
+};
@@ -20,9 +20,13 @@ import {
   challengeRateLimiter,
   connectRateLimiter,
 } from "../middleware/rateLimiter.middleware";
+import ledgerService, { ledgerAccounts } from "../services/ledger.service";
 
 const router = Router();
 
+// Virtual balance every new wallet starts with, before the welcome bonus
+const STARTING_BALANCE = 1000;
+
 /**
  * @swagger
  * /api/auth/challenge:
@@ -318,24 +322,41 @@ router.post(
         newStreak = 1;
         streakBonusApplied = true;
 
-        user = await prisma.user.create({
-          data: {
-            walletAddress,
-            publicKey: walletAddress,
-            lastLoginAt: now,
-            virtualBalance: 1000 + bonusAmount, // Start with 1000 + bonus
-            streak: newStreak,
-          },
-        });
+        user = await prisma.$transaction(async (tx) => {
+          const created = await tx.user.create({
+            data: {
+              walletAddress,
+              publicKey: walletAddress,
+              lastLoginAt: now,
+              virtualBalance: 0,
+              streak: newStreak,
+            },
+          });
 
-        // Create transaction for signup bonus
-        await prisma.transaction.create({
-          data: {
-            userId: user.id,
-            amount: bonusAmount,
-            type: "BONUS", // Using string literal if Enum not available yet, or TransactionType.BONUS
-            description: "Welcome Bonus",
-          },
+          // Start with 1000 + bonus, both funded from the bonus pool
+          await ledgerService.transfer(
+            {
+              from: ledgerAccounts.bonusPool(),
+              to: ledgerAccounts.wallet(created.id),
+              amount: STARTING_BALANCE,
+              type: "DEPOSIT",
+              description: "Starting Balance",
+            },
+            tx,
+          );
+
+          await ledgerService.transfer(
+            {
+              from: ledgerAccounts.bonusPool(),
+              to: ledgerAccounts.wallet(created.id),
+              amount: bonusAmount,
+              type: "BONUS",
+              description: "Welcome Bonus",
+            },
+            tx,
+          );
+
+          return tx.user.findUniqueOrThrow({ where: { id: created.id } });
         });
       } else {
         // Check for daily login bonus
@@ -372,31 +393,35 @@ router.post(
 
           bonusAmount = 100 * multiplier;
           streakBonusApplied = true;
-
-          // Create transaction
-          await prisma.transaction.create({
-            data: {
-              userId: user.id,
-              amount: bonusAmount,
-              type: "BONUS",
-              description: `Daily Login Bonus (Day ${newStreak})`,
-            },
-          });
         } else {
           // Same day login, keep existing streak
           newStreak = user.streak;
         }
 
-        // Update user
-        user = await prisma.user.update({
-          where: { walletAddress },
-          data: {
-            lastLoginAt: now,
-            streak: newStreak,
-            virtualBalance: streakBonusApplied
-              ? { increment: bonusAmount }
-              : undefined,
-          },
+        const userId = user.id;
+
+        // Update user and credit the bonus atomically
+        user = await prisma.$transaction(async (tx) => {
+          if (streakBonusApplied) {
+            await ledgerService.transfer(
+              {
+                from: ledgerAccounts.bonusPool(),
+                to: ledgerAccounts.wallet(userId),
+                amount: bonusAmount,
+                type: "BONUS",
+                description: `Daily Login Bonus (Day ${newStreak})`,
+              },
+              tx,
+            );
+          }
+
+          return tx.user.update({
+            where: { walletAddress },
+            data: {
+              lastLoginAt: now,
+              streak: newStreak,
+            },
+          });
         });
       }
 
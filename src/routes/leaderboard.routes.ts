@@ -1,5 +1,13 @@
 import { Router, Request, Response } from 'express';
-import { getLeaderboard } from '../services/leaderboard.service';
+import {
+  getBoard,
+  getDefaultMinBets,
+  getLeaderboard,
+  LEADERBOARD_METRICS,
+} from '../services/leaderboard.service';
+import { parseAsset, SUPPORTED_ASSETS } from '../utils/asset.util';
+import { LEADERBOARD_PERIODS, parsePeriod } from '../utils/leaderboard-period.util';
+import { LeaderboardMetric } from '../types/leaderboard.types';
 import { optionalAuthentication, AuthRequest } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -12,10 +20,37 @@ const router = Router();
  *     summary: Get the global leaderboard
  *     description: |
  *       Returns the global leaderboard. Bearer authentication is **optional**; if provided, the API may include the requesting user's position.\n
- *       Query params support pagination.
+ *       Query params support pagination.\n
+ *       Without any of `period`, `mode`, `asset`, `metric`, `minBets` or `at` this is the all-time board ranked by earnings with per-mode stats.
+ *       With any of them it is the chosen board, read from totals kept up to date as rounds resolve; `board` describes it.
+ *       Periods are UTC days, weeks starting Monday, months and seasons (`LEADERBOARD_SEASON_DAYS` long from `LEADERBOARD_SEASON_START`).
  *     tags: [leaderboard]
  *     parameters:
  *       - in: query
+ *         name: period
+ *         schema: { type: string, enum: [all-time, daily, weekly, monthly, season], default: all-time }
+ *         description: Time window of the board
+ *       - in: query
+ *         name: at
+ *         schema: { type: string, format: date-time }
+ *         description: Show the period containing this time instead of the current one
+ *       - in: query
+ *         name: mode
+ *         schema: { type: integer, enum: [0, 1] }
+ *         description: Only rounds of this mode (0 UP_DOWN, 1 LEGENDS)
+ *       - in: query
+ *         name: asset
+ *         schema: { type: string, enum: [XLM, BTC, ETH, USDC_XLM] }
+ *         description: Only rounds on this asset
+ *       - in: query
+ *         name: metric
+ *         schema: { type: string, enum: [earnings, accuracy, roi, streak], default: earnings }
+ *         description: Rank by net earnings, win rate, earnings per unit staked or longest win streak
+ *       - in: query
+ *         name: minBets
+ *         schema: { type: integer, minimum: 1 }
+ *         description: Leave off users with fewer settled rounds in the period (defaults to LEADERBOARD_MIN_BETS for accuracy, otherwise 1)
+ *       - in: query
  *         name: limit
  *         schema: { type: integer, minimum: 1, maximum: 500, default: 100 }
  *         description: Max number of entries to return (max 500)
@@ -25,11 +60,55 @@ const router = Router();
  *         description: Pagination offset
  *     responses:
  *       200:
- *         description: Leaderboard payload
+ *         description: The all-time leaderboard (LeaderboardResponse), or the board chosen by query params (BoardResponse)
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/LeaderboardResponse'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/LeaderboardResponse'
+ *                 - $ref: '#/components/schemas/BoardResponse'
+ *             examples:
+ *               board:
+ *                 value:
+ *                   board:
+ *                     period: WEEKLY
+ *                     periodStart: "2026-03-16T00:00:00.000Z"
+ *                     periodEnd: "2026-03-23T00:00:00.000Z"
+ *                     mode: UP_DOWN
+ *                     asset: null
+ *                     metric: roi
+ *                     minBets: 1
+ *                   leaderboard:
+ *                     - rank: 1
+ *                       userId: "user-id"
+ *                       walletAddress: "GABCD1...WXYZ"
+ *                       rounds: 4
+ *                       wins: 3
+ *                       accuracy: 75
+ *                       totalStake: 40
+ *                       earnings: 22.5
+ *                       roi: 0.5625
+ *                       currentStreak: 2
+ *                       longestStreak: 2
+ *                   totalUsers: 12
+ *                   lastUpdated: "2026-03-19T12:00:00.000Z"
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             examples:
+ *               invalidPeriod:
+ *                 value: { error: "Invalid period. Must be one of all-time, daily, weekly, monthly, season" }
+ *               invalidMode:
+ *                 value: { error: "Invalid mode. Must be 0 (UP_DOWN) or 1 (LEGENDS)" }
+ *               invalidAsset:
+ *                 value: { error: "Invalid asset. Must be one of XLM, BTC, ETH, USDC_XLM" }
+ *               invalidMetric:
+ *                 value: { error: "Invalid metric. Must be one of earnings, accuracy, roi, streak" }
+ *               invalidMinBets:
+ *                 value: { error: "Invalid minBets. Must be a positive integer" }
+ *               invalidAt:
+ *                 value: { error: "Invalid at. Must be an ISO 8601 date-time" }
  *       500:
  *         description: Internal server error
  *         content:
@@ -41,6 +120,7 @@ const router = Router();
  *       - lang: cURL
  *         source: |
  *           curl -X GET "$API_BASE_URL/api/leaderboard?limit=100&offset=0"
+ *           curl -X GET "$API_BASE_URL/api/leaderboard?period=weekly&mode=0&metric=roi"
  */
 
 router.get('/', optionalAuthentication, async (req: AuthRequest, res: Response) => {
@@ -48,10 +128,59 @@ router.get('/', optionalAuthentication, async (req: AuthRequest, res: Response)
     const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
     const offset = parseInt(req.query.offset as string) || 0;
     const userId = req.user?.userId;
+    const { period, at, mode, asset, metric, minBets } = req.query;
+
+    if ([period, at, mode, asset, metric, minBets].every((value) => value === undefined)) {
+      const leaderboard = await getLeaderboard(limit, offset, userId);
+      return res.json(leaderboard);
+    }
+
+    const boardPeriod = period === undefined ? 'ALL_TIME' : parsePeriod(period);
+    const boardAsset = asset === undefined ? null : parseAsset(asset);
+    const boardAt = at === undefined ? new Date() : new Date(String(at));
+    const minRounds = minBets === undefined ? undefined : Number(minBets);
+
+    if (!boardPeriod) {
+      const periods = LEADERBOARD_PERIODS.map((name) => name.toLowerCase().replace('_', '-'));
+      return res.status(400).json({ error: `Invalid period. Must be one of ${periods.join(', ')}` });
+    }
+
+    if (isNaN(boardAt.getTime())) {
+      return res.status(400).json({ error: 'Invalid at. Must be an ISO 8601 date-time' });
+    }
+
+    if (mode !== undefined && mode !== '0' && mode !== '1') {
+      return res.status(400).json({ error: 'Invalid mode. Must be 0 (UP_DOWN) or 1 (LEGENDS)' });
+    }
+
+    if (boardAsset === null && asset !== undefined) {
+      return res.status(400).json({ error: `Invalid asset. Must be one of ${SUPPORTED_ASSETS.join(', ')}` });
+    }
+
+    if (metric !== undefined && !LEADERBOARD_METRICS.includes(metric as LeaderboardMetric)) {
+      return res.status(400).json({ error: `Invalid metric. Must be one of ${LEADERBOARD_METRICS.join(', ')}` });
+    }
+
+    if (minRounds !== undefined && (!Number.isInteger(minRounds) || minRounds < 1)) {
+      return res.status(400).json({ error: 'Invalid minBets. Must be a positive integer' });
+    }
 
-    const leaderboard = await getLeaderboard(limit, offset, userId);
+    const boardMetric = (metric as LeaderboardMetric | undefined) ?? 'earnings';
+    const board = await getBoard(
+      {
+        period: boardPeriod,
+        at: boardAt,
+        mode: mode === undefined ? null : mode === '0' ? 'UP_DOWN' : 'LEGENDS',
+        asset: boardAsset,
+        metric: boardMetric,
+        minBets: minRounds ?? getDefaultMinBets(boardMetric),
+      },
+      limit,
+      offset,
+      userId,
+    );
 
-    res.json(leaderboard);
+    res.json(board);
   } catch (error) {
     console.error('Error fetching leaderboard:', error);
     res.status(500).json({
@@ -1,7 +1,9 @@
 import { Router, Request, Response } from 'express';
-import predictionService from '../services/prediction.service';
+import predictionService, { PREDICTION_ERROR_STATUS } from '../services/prediction.service';
 import { authenticateUser } from '../middleware/auth.middleware';
+import { idempotent } from '../middleware/idempotency.middleware';
 import logger from '../utils/logger';
+import { toAmount } from '../utils/money.util';
 
 const router = Router();
 
@@ -10,10 +12,12 @@ const router = Router();
  * /api/predictions/submit:
  *   post:
  *     summary: Submit a prediction for a round
- *     description: Authenticated users only.
+ *     description: Authenticated users only. A user may bet on a round several times to top up or hedge a position, up to MAX_BETS_PER_USER_PER_ROUND bets and MAX_STAKE_PER_USER_PER_ROUND in total. XLM Up/Down rounds are mirrored on-chain and take a single bet per user.
  *     tags: [predictions]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -24,7 +28,7 @@ const router = Router();
  *               roundId: { type: string }
  *               amount: { type: number, minimum: 0 }
  *               side: { type: string, description: UP/DOWN (for UP_DOWN mode)" }
- *               priceRange: { type: string, description: Price range selection (for LEGENDS mode)" }
+ *               rangeIndex: { type: integer, minimum: 0, description: Index into the round's priceRanges (for LEGENDS mode) }
  *             required: [roundId, amount]
  *           example:
  *             roundId: "round-id"
@@ -54,7 +58,25 @@ const router = Router();
  *               invalidAmount:
  *                 value: { error: "Invalid amount" }
  *               missingSideOrRange:
- *                 value: { error: "Either side (UP/DOWN) or priceRange must be provided" }
+ *                 value: { error: "Either side (UP/DOWN) or rangeIndex must be provided" }
+ *               invalidRange:
+ *                 value: { error: "rangeIndex must be an integer between 0 and 4 for LEGENDS mode" }
+ *               roundNotActive:
+ *                 value: { error: "Round is not active" }
+ *               roundLocked:
+ *                 value: { error: "Betting is closed for this round" }
+ *               stakeLimitExceeded:
+ *                 value: { error: "Total stake on a round cannot exceed 500 (already staked 450)" }
+ *       404:
+ *         description: Round not found
+ *         content:
+ *           application/json:
+ *             example: { error: "Round not found" }
+ *       409:
+ *         description: The user has reached the bet limit on this round (MAX_BETS_PER_USER_PER_ROUND), or already bet on an XLM Up/Down round, which the contract takes one bet per user for
+ *         content:
+ *           application/json:
+ *             example: { error: "At most 10 bets per user are allowed on a round" }
  *       401:
  *         description: Unauthorized
  *         content:
@@ -71,11 +93,12 @@ const router = Router();
  *           curl -X POST "$API_BASE_URL/api/predictions/submit" \\
  *             -H "Content-Type: application/json" \\
  *             -H "Authorization: Bearer $TOKEN" \\
+ *             -H "Idempotency-Key: 5f0c8a1e-6b7d-4c2a-9e3f-2d1b0a9c8e7f" \\
  *             -d '{"roundId":"round-id","amount":10,"side":"UP"}'
  */
-router.post('/submit', authenticateUser, async (req: Request, res: Response) => {
+router.post('/submit', authenticateUser, idempotent, async (req: Request, res: Response) => {
     try {
-        const { roundId, amount, side, priceRange } = req.body;
+        const { roundId, amount, side, rangeIndex } = req.body;
         const userId = req.user!.userId;
 
         // Validation
@@ -87,9 +110,9 @@ router.post('/submit', authenticateUser, async (req: Request, res: Response) =>
             return res.status(400).json({ error: 'Invalid amount' });
         }
 
-        // Either side or priceRange must be provided
-        if (!side && !priceRange) {
-            return res.status(400).json({ error: 'Either side (UP/DOWN) or priceRange must be provided' });
+        // Either side or rangeIndex must be provided
+        if (!side && rangeIndex === undefined) {
+            return res.status(400).json({ error: 'Either side (UP/DOWN) or rangeIndex must be provided' });
         }
 
         const prediction = await predictionService.submitPrediction(
@@ -97,7 +120,7 @@ router.post('/submit', authenticateUser, async (req: Request, res: Response) =>
             roundId,
             amount,
             side,
-            priceRange
+            rangeIndex
         );
 
         res.json({
@@ -105,7 +128,7 @@ router.post('/submit', authenticateUser, async (req: Request, res: Response) =>
             prediction: {
                 id: prediction.id,
                 roundId: prediction.roundId,
-                amount: prediction.amount,
+                amount: toAmount(prediction.amount),
                 side: prediction.side,
                 priceRange: prediction.priceRange,
                 createdAt: prediction.createdAt,
@@ -113,7 +136,90 @@ router.post('/submit', authenticateUser, async (req: Request, res: Response) =>
         });
     } catch (error: any) {
         logger.error('Failed to submit prediction:', error);
-        res.status(500).json({ error: error.message || 'Failed to submit prediction' });
+        res.status(PREDICTION_ERROR_STATUS[error.code] ?? 500).json({ error: error.message || 'Failed to submit prediction' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/predictions/quote:
+ *   post:
+ *     summary: Preview what a bet would pay
+ *     description: Projected payout of a stake if it were placed now and its outcome won, counting the stake itself in its pool and taking the mode's house fee. The stake is validated like a real bet but nothing is placed, and later bets change the actual payout.
+ *     tags: [predictions]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               roundId: { type: string }
+ *               amount: { type: number, minimum: 0 }
+ *               side: { type: string, enum: [UP, DOWN], description: UP_DOWN rounds only }
+ *               rangeIndex: { type: integer, minimum: 0, description: LEGENDS rounds only. Index into the round's priceRanges }
+ *             required: [roundId, amount]
+ *           example:
+ *             roundId: "round-id"
+ *             amount: 10
+ *             side: "DOWN"
+ *     responses:
+ *       200:
+ *         description: Projected payout
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               quote:
+ *                 roundId: "round-id"
+ *                 amount: 10
+ *                 side: "DOWN"
+ *                 rangeIndex: null
+ *                 feeBps: 0
+ *                 outcomePool: 60
+ *                 multiplier: 2.6667
+ *                 payout: 26.67
+ *                 profit: 16.67
+ *       400:
+ *         description: Validation error, or the round is not accepting predictions
+ *         content:
+ *           application/json:
+ *             examples:
+ *               missingRoundId:
+ *                 value: { error: "Round ID is required" }
+ *               invalidAmount:
+ *                 value: { error: "Amount must be a positive number" }
+ *               roundLocked:
+ *                 value: { error: "Betting is closed for this round" }
+ *       404:
+ *         description: Round not found
+ *         content:
+ *           application/json:
+ *             example: { error: "Round not found" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X POST "$API_BASE_URL/api/predictions/quote" \\
+ *             -H "Content-Type: application/json" \\
+ *             -d '{"roundId":"round-id","amount":10,"side":"DOWN"}'
+ */
+router.post('/quote', async (req: Request, res: Response) => {
+    try {
+        const { roundId, amount, side, rangeIndex } = req.body;
+
+        if (!roundId) {
+            return res.status(400).json({ error: 'Round ID is required' });
+        }
+
+        const quote = await predictionService.quote(roundId, amount, side, rangeIndex);
+
+        res.json({
+            success: true,
+            quote,
+        });
+    } catch (error: any) {
+        logger.error('Failed to quote prediction:', error);
+        res.status(PREDICTION_ERROR_STATUS[error.code] ?? 500).json({ error: error.message || 'Failed to quote prediction' });
     }
 });
 
@@ -209,4 +315,79 @@ router.get('/round/:roundId', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * @swagger
+ * /api/predictions/{id}/cash-out:
+ *   post:
+ *     summary: Cash out a prediction before the round locks
+ *     description: Authenticated users only, for their own predictions. Returns the stake minus a CASH_OUT_FEE_PERCENT penalty (default 10%) to the user's balance and removes the stake from the round's pools; the penalty is paid to the round's winners. Only possible while the round is ACTIVE and before its lock time.
+ *     tags: [predictions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Prediction ID
+ *     responses:
+ *       200:
+ *         description: Prediction cashed out
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               cashOut:
+ *                 id: "prediction-id"
+ *                 roundId: "round-id"
+ *                 amount: 10
+ *                 fee: 1
+ *                 refund: 9
+ *                 withdrawnAt: "2026-01-29T00:01:00.000Z"
+ *       400:
+ *         description: Betting has closed on the round
+ *         content:
+ *           application/json:
+ *             examples:
+ *               roundNotActive:
+ *                 value: { error: "Round is not active" }
+ *               roundLocked:
+ *                 value: { error: "Betting is closed for this round" }
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Prediction not found (or not the user's)
+ *         content:
+ *           application/json:
+ *             example: { error: "Prediction not found" }
+ *       409:
+ *         description: Already cashed out, or placed on-chain (XLM Up/Down rounds)
+ *         content:
+ *           application/json:
+ *             examples:
+ *               alreadyWithdrawn:
+ *                 value: { error: "Prediction has already been cashed out" }
+ *               onChain:
+ *                 value: { error: "Bets on XLM Up/Down rounds are placed on-chain and cannot be cashed out" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X POST "$API_BASE_URL/api/predictions/prediction-id/cash-out" \\
+ *             -H "Authorization: Bearer $TOKEN"
+ */
+router.post('/:id/cash-out', authenticateUser, idempotent, async (req: Request, res: Response) => {
+    try {
+        const cashOut = await predictionService.cashOut(req.user!.userId, req.params.id);
+
+        res.json({
+            success: true,
+            cashOut,
+        });
+    } catch (error: any) {
+        logger.error('Failed to cash out prediction:', error);
+        res.status(PREDICTION_ERROR_STATUS[error.code] ?? 500).json({ error: error.message || 'Failed to cash out prediction' });
+    }
+});
+
 export default router;
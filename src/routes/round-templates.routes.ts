@@ -0,0 +1,357 @@
+import { Router, Request, Response } from 'express';
+import { RoundTemplate } from '@prisma/client';
+import roundTemplateService from '../services/round-template.service';
+import roundSchedulerService from '../services/round-scheduler.service';
+import { requireAdmin } from '../middleware/auth.middleware';
+import logger from '../utils/logger';
+import { SUPPORTED_ASSETS, parseAsset } from '../utils/asset.util';
+import { withAmounts } from '../utils/money.util';
+import { RoundTemplateInput } from '../types/round.types';
+
+/**
+ * Admin management of round templates, mounted at /api/v1/round-templates.
+ * Every change is applied to the running round scheduler immediately.
+ */
+const router = Router();
+
+const TEMPLATE_ERROR_STATUS: Record<string, number> = {
+    INVALID_TEMPLATE: 400,
+    INVALID_BUCKET_CONFIG: 400,
+    TEMPLATE_NOT_FOUND: 404,
+    TEMPLATE_NAME_TAKEN: 409,
+};
+
+const toTemplateResponse = (template: RoundTemplate) => withAmounts(template, ['minStake', 'maxStake'] as const);
+
+/**
+ * Translates a request body into template fields. Only the fields present
+ * are returned, so PATCH can pass the result straight through; the service
+ * validates the values themselves.
+ */
+function parseTemplateBody(body: any): { changes?: Partial<RoundTemplateInput>; error?: string } {
+    const changes: Partial<RoundTemplateInput> = {};
+
+    if (body.name !== undefined) changes.name = body.name;
+
+    if (body.mode !== undefined) {
+        if (body.mode !== 0 && body.mode !== 1) {
+            return { error: 'Invalid mode. Must be 0 (UP_DOWN) or 1 (LEGENDS)' };
+        }
+        changes.mode = body.mode === 0 ? 'UP_DOWN' : 'LEGENDS';
+    }
+
+    if (body.asset !== undefined) {
+        const asset = parseAsset(body.asset);
+        if (!asset) {
+            return { error: `Invalid asset. Must be one of ${SUPPORTED_ASSETS.join(', ')}` };
+        }
+        changes.asset = asset;
+    }
+
+    if (body.enabled !== undefined) {
+        if (typeof body.enabled !== 'boolean') {
+            return { error: 'enabled must be a boolean' };
+        }
+        changes.enabled = body.enabled;
+    }
+
+    if (body.durationSeconds !== undefined) changes.durationSeconds = body.durationSeconds;
+    if (body.lockBeforeEndSeconds !== undefined) changes.lockBeforeEndSeconds = body.lockBeforeEndSeconds;
+    if (body.cadence !== undefined) changes.cadence = body.cadence;
+    if (body.buckets !== undefined) changes.bucketConfig = body.buckets;
+    if (body.minStake !== undefined) changes.minStake = body.minStake;
+    if (body.maxStake !== undefined) changes.maxStake = body.maxStake;
+
+    return { changes };
+}
+
+function sendTemplateError(res: Response, error: any, fallback: string) {
+    const status = TEMPLATE_ERROR_STATUS[error.code];
+    if (status) {
+        return res.status(status).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || fallback });
+}
+
+/**
+ * @swagger
+ * /api/v1/round-templates:
+ *   get:
+ *     summary: List round templates
+ *     description: Admin-only. Every stored round series, enabled or not, oldest first.
+ *     tags: [round-templates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Round templates
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               templates:
+ *                 - id: "template-id"
+ *                   name: "xlm-up-down-1m"
+ *                   mode: "UP_DOWN"
+ *                   asset: "XLM"
+ *                   durationSeconds: 60
+ *                   lockBeforeEndSeconds: null
+ *                   cadence: "0 0-59/4 * * * *"
+ *                   bucketConfig: null
+ *                   minStake: null
+ *                   maxStake: null
+ *                   enabled: true
+ *       401:
+ *         description: Unauthorized (missing/invalid token)
+ *       403:
+ *         description: Forbidden (admin role required)
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X GET "$API_BASE_URL/api/v1/round-templates" \\
+ *             -H "Authorization: Bearer $TOKEN"
+ */
+router.get('/', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const templates = await roundTemplateService.listTemplates();
+        res.json({ success: true, templates: templates.map(toTemplateResponse) });
+    } catch (error: any) {
+        logger.error('Failed to list round templates:', error);
+        res.status(500).json({ error: error.message || 'Failed to list round templates' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/round-templates/{id}:
+ *   get:
+ *     summary: Get a round template
+ *     tags: [round-templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: Round template
+ *       403:
+ *         description: Forbidden (admin role required)
+ *       404:
+ *         description: Template not found
+ *         content:
+ *           application/json:
+ *             example: { error: "Round template not found" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X GET "$API_BASE_URL/api/v1/round-templates/<template-id>" \\
+ *             -H "Authorization: Bearer $TOKEN"
+ */
+router.get('/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const template = await roundTemplateService.getTemplate(req.params.id);
+
+        if (!template) {
+            return res.status(404).json({ error: 'Round template not found' });
+        }
+
+        res.json({ success: true, template: toTemplateResponse(template) });
+    } catch (error: any) {
+        logger.error('Failed to get round template:', error);
+        res.status(500).json({ error: error.message || 'Failed to get round template' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/round-templates:
+ *   post:
+ *     summary: Create a round template
+ *     description: Admin-only. The round scheduler starts running the series immediately when it is enabled. At most one round per asset and mode is active at a time, so templates sharing an asset and mode skip a start while the other's round is running.
+ *     tags: [round-templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, mode, durationSeconds, cadence]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Unique name of the series
+ *               mode:
+ *                 type: integer
+ *                 description: 0 (UP_DOWN) or 1 (LEGENDS)
+ *                 enum: [0, 1]
+ *               asset:
+ *                 type: string
+ *                 enum: [XLM, BTC, ETH, USDC_XLM]
+ *                 default: XLM
+ *               durationSeconds:
+ *                 type: integer
+ *                 minimum: 30
+ *               lockBeforeEndSeconds:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Betting closes this many seconds before the round ends. Null (the default) uses the BETTING_LOCK_PERCENT lock period
+ *               cadence:
+ *                 type: string
+ *                 description: Cron expression (optional leading seconds field) for when rounds start
+ *               buckets:
+ *                 type: object
+ *                 description: LEGENDS only. Overrides the LEGENDS_BUCKET_* defaults (strategy, count, widthPct, volatilityMultiplier, volatilityLookbackMinutes)
+ *               minStake:
+ *                 type: number
+ *               maxStake:
+ *                 type: number
+ *               enabled:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Template created
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             examples:
+ *               invalidCadence:
+ *                 value: { error: "cadence must be a valid cron expression" }
+ *               invalidLock:
+ *                 value: { error: "lockBeforeEndSeconds must be null or a non-negative integer shorter than durationSeconds" }
+ *       403:
+ *         description: Forbidden (admin role required)
+ *       409:
+ *         description: Name already in use
+ *         content:
+ *           application/json:
+ *             example: { error: "A round template named \"btc-legends-5m\" already exists" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X POST "$API_BASE_URL/api/v1/round-templates" \\
+ *             -H "Content-Type: application/json" \\
+ *             -H "Authorization: Bearer $TOKEN" \\
+ *             -d '{"name":"btc-legends-5m","mode":1,"asset":"BTC","durationSeconds":300,"lockBeforeEndSeconds":60,"cadence":"0 0-59/10 * * * *","minStake":1,"maxStake":500}'
+ */
+router.post('/', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { changes, error } = parseTemplateBody(req.body);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        const template = await roundTemplateService.createTemplate({
+            asset: 'XLM',
+            lockBeforeEndSeconds: null,
+            enabled: true,
+            ...changes,
+        } as RoundTemplateInput);
+
+        await roundSchedulerService.reloadTemplates();
+
+        res.status(201).json({ success: true, template: toTemplateResponse(template) });
+    } catch (error: any) {
+        logger.error('Failed to create round template:', error);
+        sendTemplateError(res, error, 'Failed to create round template');
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/round-templates/{id}:
+ *   patch:
+ *     summary: Update a round template
+ *     description: Admin-only. Takes any subset of the create fields. The running series is rescheduled immediately; rounds already started keep their settings.
+ *     tags: [round-templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: Template updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Forbidden (admin role required)
+ *       404:
+ *         description: Template not found
+ *       409:
+ *         description: Name already in use
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X PATCH "$API_BASE_URL/api/v1/round-templates/<template-id>" \\
+ *             -H "Content-Type: application/json" \\
+ *             -H "Authorization: Bearer $TOKEN" \\
+ *             -d '{"enabled":false}'
+ */
+router.patch('/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { changes, error } = parseTemplateBody(req.body);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        const template = await roundTemplateService.updateTemplate(req.params.id, changes!);
+
+        await roundSchedulerService.reloadTemplates();
+
+        res.json({ success: true, template: toTemplateResponse(template) });
+    } catch (error: any) {
+        logger.error('Failed to update round template:', error);
+        sendTemplateError(res, error, 'Failed to update round template');
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/round-templates/{id}:
+ *   delete:
+ *     summary: Delete a round template
+ *     description: Admin-only. Stops the series; rounds it already created are kept.
+ *     tags: [round-templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: Template deleted
+ *       403:
+ *         description: Forbidden (admin role required)
+ *       404:
+ *         description: Template not found
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X DELETE "$API_BASE_URL/api/v1/round-templates/<template-id>" \\
+ *             -H "Authorization: Bearer $TOKEN"
+ */
+router.delete('/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        await roundTemplateService.deleteTemplate(req.params.id);
+
+        await roundSchedulerService.reloadTemplates();
+
+        res.json({ success: true });
+    } catch (error: any) {
+        logger.error('Failed to delete round template:', error);
+        sendTemplateError(res, error, 'Failed to delete round template');
+    }
+});
+
+export default router;
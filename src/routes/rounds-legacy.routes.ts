@@ -0,0 +1,76 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import roundsRoutes from './rounds.routes';
+import { deprecated } from '../middleware/deprecation.middleware';
+import {
+    BetSide,
+    LegacyPredictRequestBody,
+    LegacyResolveRequestBody,
+    LegacyStartRoundRequestBody,
+} from '../types/round.types';
+
+// Seconds per Stellar ledger, used to translate durationLedgers
+const LEDGER_SECONDS = 5;
+
+/**
+ * Compatibility shim for the deprecated /api/rounds paths. Every response
+ * carries deprecation headers pointing at /api/v1/rounds. Requests in the
+ * old body-addressed shapes are rewritten onto the v1 routes, so both
+ * surfaces share the same auth, validation and services:
+ *
+ *   POST /start   { durationLedgers, ... } -> POST /start { duration, ... }
+ *   POST /predict { roundId, side, ... }   -> POST /:roundId/predictions
+ *   POST /resolve { roundId, finalPrice }  -> POST /:roundId/resolve
+ *
+ * Everything else falls through to the v1 router unchanged.
+ */
+const router = Router();
+
+router.use(deprecated('/api/v1/rounds'));
+
+router.post('/start', (req: Request, _res: Response, next: NextFunction) => {
+    const body: Partial<LegacyStartRoundRequestBody> & { duration?: number } = req.body;
+
+    if (body.durationLedgers !== undefined && body.duration === undefined) {
+        req.body = {
+            ...body,
+            startPrice: typeof body.startPrice === 'string' ? parseFloat(body.startPrice) : body.startPrice,
+            duration: Number(body.durationLedgers) * LEDGER_SECONDS,
+        };
+    }
+
+    next();
+});
+
+router.post('/predict', (req: Request, res: Response, next: NextFunction) => {
+    const { roundId, side, rangeIndex, amount }: LegacyPredictRequestBody = req.body;
+
+    if (!roundId) {
+        return res.status(400).json({ error: 'Round ID is required' });
+    }
+
+    req.body = {
+        amount,
+        side: side === BetSide.UP ? 'UP' : side === BetSide.DOWN ? 'DOWN' : side,
+        rangeIndex,
+    };
+    req.url = `/${encodeURIComponent(roundId)}/predictions`;
+    next();
+});
+
+router.post('/resolve', (req: Request, res: Response, next: NextFunction) => {
+    const { roundId, finalPrice }: LegacyResolveRequestBody = req.body;
+
+    if (!roundId) {
+        return res.status(400).json({ error: 'Round ID is required' });
+    }
+
+    req.body = {
+        finalPrice: typeof finalPrice === 'string' ? parseFloat(finalPrice) : finalPrice,
+    };
+    req.url = `/${encodeURIComponent(roundId)}/resolve`;
+    next();
+});
+
+router.use(roundsRoutes);
+
+export default router;
@@ -1,17 +1,29 @@
 import { Router, Request, Response } from 'express';
 import roundService from '../services/round.service';
+import predictionService, { PREDICTION_ERROR_STATUS } from '../services/prediction.service';
 import resolutionService from '../services/resolution.service';
-import { requireAdmin, requireOracle } from '../middleware/auth.middleware';
+import oddsService from '../services/odds.service';
+import roundStateService, { userActor } from '../services/round-state.service';
+import { authenticateUser, requireAdmin, requireOracle } from '../middleware/auth.middleware';
+import { idempotent } from '../middleware/idempotency.middleware';
 import logger from '../utils/logger';
+import { toAmount } from '../utils/money.util';
+import { DEFAULT_ASSET, SUPPORTED_ASSETS, parseAsset } from '../utils/asset.util';
 
+/**
+ * The rounds API, mounted at /api/v1/rounds. The deprecated /api/rounds
+ * paths are served by rounds-legacy.routes.ts on top of this router.
+ */
 const router = Router();
 
+const MAX_CANCEL_REASON_LENGTH = 500;
+
 /**
  * @swagger
- * /api/rounds/start:
+ * /api/v1/rounds/start:
  *   post:
  *     summary: Start a new prediction round
- *     description: Admin-only. Starts a new round for a given mode, start price, and duration.
+ *     description: Admin-only. Starts a new round for a given mode, asset, start price, and duration. Only one round per asset and mode may be active at a time.
  *     tags: [rounds]
  *     security:
  *       - bearerAuth: []
@@ -32,6 +44,19 @@ const router = Router();
  *               duration:
  *                 type: integer
  *                 description: Duration in seconds (must be > 0)
+ *               asset:
+ *                 type: string
+ *                 description: Asset the round is played on (defaults to XLM)
+ *                 enum: [XLM, BTC, ETH, USDC_XLM]
+ *               buckets:
+ *                 type: object
+ *                 description: LEGENDS only. Overrides the LEGENDS_BUCKET_* defaults.
+ *                 properties:
+ *                   strategy: { type: string, enum: [symmetric, volatility] }
+ *                   count: { type: integer, minimum: 2, maximum: 20, description: Buckets including the two open-ended tails }
+ *                   widthPct: { type: number, description: Bucket width as % of start price (symmetric, and volatility fallback) }
+ *                   volatilityMultiplier: { type: number, description: Bucket width in standard deviations of the expected move }
+ *                   volatilityLookbackMinutes: { type: integer }
  *             required: [mode, startPrice, duration]
  *           example:
  *             mode: 0
@@ -47,6 +72,7 @@ const router = Router();
  *               round:
  *                 id: "round-id"
  *                 mode: "UP_DOWN"
+ *                 asset: "XLM"
  *                 status: "ACTIVE"
  *                 startTime: "2026-01-29T00:00:00.000Z"
  *                 endTime: "2026-01-29T00:05:00.000Z"
@@ -64,6 +90,10 @@ const router = Router();
  *                 value: { error: "Invalid start price" }
  *               invalidDuration:
  *                 value: { error: "Invalid duration" }
+ *               invalidAsset:
+ *                 value: { error: "Invalid asset. Must be one of XLM, BTC, ETH, USDC_XLM" }
+ *               invalidBuckets:
+ *                 value: { error: "Bucket count must be an integer between 2 and 20" }
  *       401:
  *         description: Unauthorized (missing/invalid token)
  *         content:
@@ -82,7 +112,7 @@ const router = Router();
  *     x-codeSamples:
  *       - lang: cURL
  *         source: |
- *           curl -X POST "$API_BASE_URL/api/rounds/start" \\
+ *           curl -X POST "$API_BASE_URL/api/v1/rounds/start" \\
  *             -H "Content-Type: application/json" \\
  *             -H "Authorization: Bearer $TOKEN" \\
  *             -d '{"mode":0,"startPrice":0.1234,"duration":300}'
@@ -90,6 +120,7 @@ const router = Router();
 router.post('/start', requireAdmin, async (req: Request, res: Response) => {
     try {
         const { mode, startPrice, duration } = req.body;
+        const asset = req.body.asset === undefined ? DEFAULT_ASSET : parseAsset(req.body.asset);
 
         // Validation
         if (mode === undefined || mode === null || typeof mode !== 'number' || mode < 0 || mode > 1) {
@@ -104,14 +135,26 @@ router.post('/start', requireAdmin, async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'Invalid duration' });
         }
 
+        if (!asset) {
+            return res.status(400).json({ error: `Invalid asset. Must be one of ${SUPPORTED_ASSETS.join(', ')}` });
+        }
+
         const gameMode = mode === 0 ? 'UP_DOWN' : 'LEGENDS';
-        const round = await roundService.startRound(gameMode, startPrice, duration);
+        const round = await roundService.startRound(
+            gameMode,
+            startPrice,
+            duration / 60,
+            asset,
+            req.body.buckets,
+            userActor(req.user!)
+        );
 
         res.json({
             success: true,
             round: {
                 id: round.id,
                 mode: round.mode,
+                asset: round.asset,
                 status: round.status,
                 startTime: round.startTime,
                 endTime: round.endTime,
@@ -127,6 +170,10 @@ router.post('/start', requireAdmin, async (req: Request, res: Response) => {
         if (error.code === 'ACTIVE_ROUND_EXISTS') {
             return res.status(409).json({ error: error.message });
         }
+
+        if (error.code === 'INVALID_BUCKET_CONFIG') {
+            return res.status(400).json({ error: error.message });
+        }
         
         res.status(500).json({ error: error.message || 'Failed to start round' });
     }
@@ -134,7 +181,421 @@ router.post('/start', requireAdmin, async (req: Request, res: Response) => {
 
 /**
  * @swagger
- * /api/rounds/{id}:
+ * /api/v1/rounds/schedule:
+ *   post:
+ *     summary: Schedule a round to start in the future
+ *     description: Admin-only. Creates a PENDING round. The round scheduler promotes it to ACTIVE at startTime and takes the start price from the oracle at that moment. Scheduled rounds of the same asset and mode may not overlap.
+ *     tags: [rounds]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mode:
+ *                 type: integer
+ *                 description: 0 (UP_DOWN) or 1 (LEGENDS)
+ *                 enum: [0, 1]
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the round opens (must be in the future)
+ *               duration:
+ *                 type: integer
+ *                 description: Duration in seconds (must be > 0)
+ *               asset:
+ *                 type: string
+ *                 description: Asset the round is played on (defaults to XLM)
+ *                 enum: [XLM, BTC, ETH, USDC_XLM]
+ *               buckets:
+ *                 type: object
+ *                 description: LEGENDS only. Overrides the LEGENDS_BUCKET_* defaults, applied at promotion.
+ *             required: [mode, startTime, duration]
+ *           example:
+ *             mode: 0
+ *             startTime: "2026-01-29T12:00:00.000Z"
+ *             duration: 300
+ *             asset: "BTC"
+ *     responses:
+ *       201:
+ *         description: Round scheduled
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               round:
+ *                 id: "round-id"
+ *                 mode: "UP_DOWN"
+ *                 asset: "BTC"
+ *                 status: "PENDING"
+ *                 startTime: "2026-01-29T12:00:00.000Z"
+ *                 endTime: "2026-01-29T12:05:00.000Z"
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             examples:
+ *               invalidMode:
+ *                 value: { error: "Invalid mode. Must be 0 (UP_DOWN) or 1 (LEGENDS)" }
+ *               invalidStartTime:
+ *                 value: { error: "startTime must be in the future" }
+ *               invalidDuration:
+ *                 value: { error: "Invalid duration" }
+ *       401:
+ *         description: Unauthorized (missing/invalid token)
+ *         content:
+ *           application/json:
+ *             example: { error: "No token provided" }
+ *       403:
+ *         description: Forbidden (admin role required)
+ *         content:
+ *           application/json:
+ *             example: { error: "Admin access required" }
+ *       409:
+ *         description: Overlaps another round of the same asset and mode
+ *         content:
+ *           application/json:
+ *             example: { error: "Round overlaps PENDING BTC UP_DOWN round round-id (...)" }
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             example: { error: "Failed to schedule round" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X POST "$API_BASE_URL/api/v1/rounds/schedule" \\
+ *             -H "Content-Type: application/json" \\
+ *             -H "Authorization: Bearer $TOKEN" \\
+ *             -d '{"mode":0,"startTime":"2026-01-29T12:00:00.000Z","duration":300,"asset":"BTC"}'
+ */
+router.post('/schedule', requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const { mode, duration } = req.body;
+        const startTime = typeof req.body.startTime === 'string' ? new Date(req.body.startTime) : null;
+        const asset = req.body.asset === undefined ? DEFAULT_ASSET : parseAsset(req.body.asset);
+
+        if (mode === undefined || mode === null || typeof mode !== 'number' || mode < 0 || mode > 1) {
+            return res.status(400).json({ error: 'Invalid mode. Must be 0 (UP_DOWN) or 1 (LEGENDS)' });
+        }
+
+        if (!startTime || isNaN(startTime.getTime())) {
+            return res.status(400).json({ error: 'Invalid startTime. Must be an ISO 8601 date-time' });
+        }
+
+        if (duration === undefined || duration === null || typeof duration !== 'number' || duration <= 0) {
+            return res.status(400).json({ error: 'Invalid duration' });
+        }
+
+        if (!asset) {
+            return res.status(400).json({ error: `Invalid asset. Must be one of ${SUPPORTED_ASSETS.join(', ')}` });
+        }
+
+        const gameMode = mode === 0 ? 'UP_DOWN' : 'LEGENDS';
+        const round = await roundService.scheduleRound(
+            gameMode,
+            startTime,
+            duration / 60,
+            asset,
+            req.body.buckets,
+            userActor(req.user!)
+        );
+
+        res.status(201).json({
+            success: true,
+            round: {
+                id: round.id,
+                mode: round.mode,
+                asset: round.asset,
+                status: round.status,
+                startTime: round.startTime,
+                endTime: round.endTime,
+            },
+        });
+    } catch (error: any) {
+        logger.error('Failed to schedule round:', error);
+
+        if (error.code === 'ROUND_SCHEDULE_CONFLICT') {
+            return res.status(409).json({ error: error.message });
+        }
+
+        if (error.code === 'INVALID_START_TIME' || error.code === 'INVALID_BUCKET_CONFIG') {
+            return res.status(400).json({ error: error.message });
+        }
+
+        res.status(500).json({ error: error.message || 'Failed to schedule round' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/rounds/upcoming:
+ *   get:
+ *     summary: Get scheduled rounds that have not started yet
+ *     description: PENDING rounds, soonest first. startsInSeconds is relative to serverTime, for countdowns.
+ *     tags: [rounds]
+ *     parameters:
+ *       - in: query
+ *         name: asset
+ *         required: false
+ *         schema: { type: string, enum: [XLM, BTC, ETH, USDC_XLM] }
+ *       - in: query
+ *         name: mode
+ *         required: false
+ *         schema: { type: integer, enum: [0, 1] }
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema: { type: integer, default: 20, maximum: 100 }
+ *     responses:
+ *       200:
+ *         description: Upcoming rounds
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               serverTime: "2026-01-29T11:59:00.000Z"
+ *               rounds:
+ *                 - id: "round-id"
+ *                   mode: "UP_DOWN"
+ *                   asset: "BTC"
+ *                   status: "PENDING"
+ *                   startTime: "2026-01-29T12:00:00.000Z"
+ *                   endTime: "2026-01-29T12:05:00.000Z"
+ *                   durationSeconds: 300
+ *                   startsInSeconds: 60
+ *       400:
+ *         description: Invalid filter
+ *         content:
+ *           application/json:
+ *             example: { error: "Invalid mode. Must be 0 (UP_DOWN) or 1 (LEGENDS)" }
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             example: { error: "Failed to get upcoming rounds" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X GET "$API_BASE_URL/api/v1/rounds/upcoming?asset=BTC"
+ */
+router.get('/upcoming', async (req: Request, res: Response) => {
+    try {
+        const asset = req.query.asset === undefined ? undefined : parseAsset(req.query.asset);
+        const mode = req.query.mode;
+        const limit = req.query.limit === undefined ? undefined : parseInt(String(req.query.limit), 10);
+
+        if (asset === null) {
+            return res.status(400).json({ error: `Invalid asset. Must be one of ${SUPPORTED_ASSETS.join(', ')}` });
+        }
+
+        if (mode !== undefined && mode !== '0' && mode !== '1') {
+            return res.status(400).json({ error: 'Invalid mode. Must be 0 (UP_DOWN) or 1 (LEGENDS)' });
+        }
+
+        if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+            return res.status(400).json({ error: 'Invalid limit' });
+        }
+
+        const rounds = await roundService.getUpcomingRounds({
+            asset,
+            mode: mode === undefined ? undefined : mode === '0' ? 'UP_DOWN' : 'LEGENDS',
+            limit,
+        });
+
+        const now = new Date();
+
+        res.json({
+            success: true,
+            serverTime: now,
+            rounds: rounds.map((round: any) => ({
+                id: round.id,
+                mode: round.mode,
+                asset: round.asset,
+                status: round.status,
+                startTime: round.startTime,
+                endTime: round.endTime,
+                durationSeconds: Math.round((round.endTime.getTime() - round.startTime.getTime()) / 1000),
+                startsInSeconds: Math.max(0, Math.ceil((round.startTime.getTime() - now.getTime()) / 1000)),
+            })),
+        });
+    } catch (error: any) {
+        logger.error('Failed to get upcoming rounds:', error);
+        res.status(500).json({ error: error.message || 'Failed to get upcoming rounds' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/rounds/history:
+ *   get:
+ *     summary: Get settled rounds
+ *     description: Resolved and cancelled rounds, most recently settled first, with their pool, winner count and the house fee taken at resolution.
+ *     tags: [rounds]
+ *     parameters:
+ *       - in: query
+ *         name: asset
+ *         required: false
+ *         schema: { type: string, enum: [XLM, BTC, ETH, USDC_XLM] }
+ *       - in: query
+ *         name: mode
+ *         required: false
+ *         schema: { type: integer, enum: [0, 1] }
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema: { type: string, enum: [RESOLVED, CANCELLED] }
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema: { type: integer, default: 20, maximum: 100 }
+ *       - in: query
+ *         name: offset
+ *         required: false
+ *         schema: { type: integer, default: 0 }
+ *     responses:
+ *       200:
+ *         description: Settled rounds; `winnerCount` is the number of users with a winning bet, counting each user once
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               rounds:
+ *                 - id: "round-id"
+ *                   mode: "UP_DOWN"
+ *                   asset: "XLM"
+ *                   status: "RESOLVED"
+ *                   startPrice: 0.1234
+ *                   endPrice: 0.1301
+ *                   totalPredictions: 12
+ *                   totalPool: "340.00"
+ *                   winnerCount: 7
+ *                   feeBps: 250
+ *                   houseFee: 3.5
+ *               total: 1
+ *               limit: 20
+ *               offset: 0
+ *       400:
+ *         description: Invalid filter
+ *         content:
+ *           application/json:
+ *             example: { error: "Invalid status. Must be RESOLVED or CANCELLED" }
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             example: { error: "Failed to get round history" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X GET "$API_BASE_URL/api/v1/rounds/history?mode=0&limit=10"
+ */
+router.get('/history', async (req: Request, res: Response) => {
+    try {
+        const asset = req.query.asset === undefined ? undefined : parseAsset(req.query.asset);
+        const { mode, status } = req.query;
+        const limit = req.query.limit === undefined ? undefined : parseInt(String(req.query.limit), 10);
+        const offset = req.query.offset === undefined ? undefined : parseInt(String(req.query.offset), 10);
+
+        if (asset === null) {
+            return res.status(400).json({ error: `Invalid asset. Must be one of ${SUPPORTED_ASSETS.join(', ')}` });
+        }
+
+        if (mode !== undefined && mode !== '0' && mode !== '1') {
+            return res.status(400).json({ error: 'Invalid mode. Must be 0 (UP_DOWN) or 1 (LEGENDS)' });
+        }
+
+        if (status !== undefined && status !== 'RESOLVED' && status !== 'CANCELLED') {
+            return res.status(400).json({ error: 'Invalid status. Must be RESOLVED or CANCELLED' });
+        }
+
+        if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+            return res.status(400).json({ error: 'Invalid limit' });
+        }
+
+        if (offset !== undefined && (isNaN(offset) || offset < 0)) {
+            return res.status(400).json({ error: 'Invalid offset' });
+        }
+
+        const history = await roundService.getRoundsHistory({
+            asset,
+            mode: mode === undefined ? undefined : mode === '0' ? 'UP_DOWN' : 'LEGENDS',
+            status,
+            limit,
+            offset,
+        });
+
+        res.json({
+            success: true,
+            ...history,
+        });
+    } catch (error: any) {
+        logger.error('Failed to get round history:', error);
+        res.status(500).json({ error: error.message || 'Failed to get round history' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/rounds/active:
+ *   get:
+ *     summary: Get active rounds
+ *     tags: [rounds]
+ *     parameters:
+ *       - in: query
+ *         name: asset
+ *         required: false
+ *         schema: { type: string, enum: [XLM, BTC, ETH, USDC_XLM] }
+ *         description: Only return rounds on this asset
+ *     responses:
+ *       200:
+ *         description: Active rounds
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               rounds: []
+ *       400:
+ *         description: Unknown asset
+ *         content:
+ *           application/json:
+ *             example: { error: "Invalid asset. Must be one of XLM, BTC, ETH, USDC_XLM" }
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             example: { error: "Failed to get active rounds" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X GET "$API_BASE_URL/api/v1/rounds/active"
+ */
+router.get('/active', async (req: Request, res: Response) => {
+    try {
+        const asset = req.query.asset === undefined ? undefined : parseAsset(req.query.asset);
+
+        if (asset === null) {
+            return res.status(400).json({ error: `Invalid asset. Must be one of ${SUPPORTED_ASSETS.join(', ')}` });
+        }
+
+        const rounds = await roundService.getActiveRounds(asset);
+
+        res.json({
+            success: true,
+            rounds,
+        });
+    } catch (error: any) {
+        logger.error('Failed to get active rounds:', error);
+        res.status(500).json({ error: error.message || 'Failed to get active rounds' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/rounds/{id}:
  *   get:
  *     summary: Get a round by ID
  *     tags: [rounds]
@@ -165,7 +626,7 @@ router.post('/start', requireAdmin, async (req: Request, res: Response) => {
  *     x-codeSamples:
  *       - lang: cURL
  *         source: |
- *           curl -X GET "$API_BASE_URL/api/rounds/round-id"
+ *           curl -X GET "$API_BASE_URL/api/v1/rounds/round-id"
  */
 router.get('/:id', async (req: Request, res: Response) => {
     try {
@@ -189,45 +650,315 @@ router.get('/:id', async (req: Request, res: Response) => {
 
 /**
  * @swagger
- * /api/rounds/active:
+ * /api/v1/rounds/{id}/events:
  *   get:
- *     summary: Get active rounds
+ *     summary: Get a round's status transitions
+ *     description: Audit trail of every status change, oldest first. fromStatus is null for the round's creation.
  *     tags: [rounds]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Round ID
  *     responses:
  *       200:
- *         description: Active rounds
+ *         description: Round events
  *         content:
  *           application/json:
  *             example:
  *               success: true
- *               rounds: []
+ *               events:
+ *                 - id: "event-id"
+ *                   roundId: "round-id"
+ *                   fromStatus: null
+ *                   toStatus: "ACTIVE"
+ *                   actorType: "ADMIN"
+ *                   actorId: "admin-user-id"
+ *                   reason: null
+ *                   createdAt: "2026-01-29T00:00:00.000Z"
+ *                 - id: "event-id-2"
+ *                   roundId: "round-id"
+ *                   fromStatus: "ACTIVE"
+ *                   toStatus: "LOCKED"
+ *                   actorType: "SCHEDULER"
+ *                   actorId: null
+ *                   reason: null
+ *                   createdAt: "2026-01-29T00:05:00.000Z"
+ *       404:
+ *         description: Round not found
+ *         content:
+ *           application/json:
+ *             example: { error: "Round not found" }
  *       500:
  *         description: Internal server error
  *         content:
  *           application/json:
- *             example: { error: "Failed to get active rounds" }
+ *             example: { error: "Failed to get round events" }
  *     x-codeSamples:
  *       - lang: cURL
  *         source: |
- *           curl -X GET "$API_BASE_URL/api/rounds/active"
+ *           curl -X GET "$API_BASE_URL/api/v1/rounds/round-id/events"
  */
-router.get('/active', async (req: Request, res: Response) => {
+router.get('/:id/events', async (req: Request, res: Response) => {
     try {
-        const rounds = await roundService.getActiveRounds();
+        const events = await roundStateService.getEvents(req.params.id);
+
+        if (!events) {
+            return res.status(404).json({ error: 'Round not found' });
+        }
 
         res.json({
             success: true,
-            rounds,
+            events,
         });
     } catch (error: any) {
-        logger.error('Failed to get active rounds:', error);
-        res.status(500).json({ error: error.message || 'Failed to get active rounds' });
+        logger.error('Failed to get round events:', error);
+        res.status(500).json({ error: error.message || 'Failed to get round events' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/rounds/{id}/odds:
+ *   get:
+ *     summary: Get a round's live odds
+ *     description: Parimutuel odds of each UP_DOWN side or LEGENDS bucket from the current pools. multiplier is the payout per unit staked if the outcome wins and the pools do not change, after the mode's house fee; forfeited cash-out fees are shared like the losing pool. multiplier is 1 while nothing backs any other outcome, as such a round is refunded. Both fields are null while nothing backs the outcome. Also broadcast as the round:odds socket event when pools change.
+ *     tags: [rounds]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: The round's odds
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               odds:
+ *                 roundId: "round-id"
+ *                 mode: "UP_DOWN"
+ *                 status: "ACTIVE"
+ *                 feeBps: 200
+ *                 totalPool: 150
+ *                 forfeitedPool: 0
+ *                 outcomes:
+ *                   - { side: "UP", pool: 100, impliedProbability: 0.6667, multiplier: 1.49 }
+ *                   - { side: "DOWN", pool: 50, impliedProbability: 0.3333, multiplier: 2.96 }
+ *       404:
+ *         description: Round not found
+ *         content:
+ *           application/json:
+ *             example: { error: "Round not found" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X GET "$API_BASE_URL/api/v1/rounds/round-id/odds"
+ */
+router.get('/:id/odds', async (req: Request, res: Response) => {
+    try {
+        const odds = await oddsService.getRoundOdds(req.params.id);
+
+        res.json({
+            success: true,
+            odds,
+        });
+    } catch (error: any) {
+        logger.error('Failed to get round odds:', error);
+        res.status(PREDICTION_ERROR_STATUS[error.code] ?? 500).json({ error: error.message || 'Failed to get round odds' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/rounds/{id}/position:
+ *   get:
+ *     summary: Get your net position in a round
+ *     description: Authenticated users only. Combines all of the user's bets on the round. payout and profit stay null until every bet is settled.
+ *     tags: [rounds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: The user's position
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               position:
+ *                 roundId: "round-id"
+ *                 userId: "user-id"
+ *                 bets: 3
+ *                 totalStake: 35
+ *                 sides: { UP: 25, DOWN: 10 }
+ *                 ranges: []
+ *                 payout: null
+ *                 profit: null
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Round not found
+ *         content:
+ *           application/json:
+ *             example: { error: "Round not found" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X GET "$API_BASE_URL/api/v1/rounds/round-id/position" \\
+ *             -H "Authorization: Bearer $TOKEN"
+ */
+router.get('/:id/position', authenticateUser, async (req: Request, res: Response) => {
+    try {
+        const position = await predictionService.getPosition(req.params.id, req.user!.userId);
+
+        res.json({
+            success: true,
+            position,
+        });
+    } catch (error: any) {
+        logger.error('Failed to get round position:', error);
+        res.status(PREDICTION_ERROR_STATUS[error.code] ?? 500).json({ error: error.message || 'Failed to get round position' });
+    }
+});
+
+/**
+ * @swagger
+ * /api/v1/rounds/{id}/predictions:
+ *   post:
+ *     summary: Place a prediction on a round
+ *     description: Authenticated users only. Debits the stake from the user's balance and adds it to the round's pool. Repeat bets top up or hedge the user's position, up to MAX_BETS_PER_USER_PER_ROUND bets and MAX_STAKE_PER_USER_PER_ROUND in total. XLM Up/Down rounds are mirrored on-chain and take a single bet per user.
+ *     tags: [rounds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Round ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount: { type: number, minimum: 0 }
+ *               side: { type: string, enum: [UP, DOWN], description: UP_DOWN rounds only }
+ *               rangeIndex: { type: integer, minimum: 0, description: LEGENDS rounds only. Index into the round's priceRanges }
+ *             required: [amount]
+ *           example:
+ *             amount: 10
+ *             side: "UP"
+ *     responses:
+ *       200:
+ *         description: Prediction placed
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               prediction:
+ *                 id: "prediction-id"
+ *                 roundId: "round-id"
+ *                 amount: 10
+ *                 side: "UP"
+ *                 priceRange: null
+ *                 createdAt: "2026-01-29T00:00:00.000Z"
+ *       400:
+ *         description: Validation error, or the round is not accepting predictions
+ *         content:
+ *           application/json:
+ *             examples:
+ *               invalidAmount:
+ *                 value: { error: "Invalid amount" }
+ *               missingSideOrRange:
+ *                 value: { error: "Either side (UP/DOWN) or rangeIndex must be provided" }
+ *               roundNotActive:
+ *                 value: { error: "Round is not active" }
+ *               roundLocked:
+ *                 value: { error: "Betting is closed for this round" }
+ *               stakeLimitExceeded:
+ *                 value: { error: "Total stake on a round cannot exceed 500 (already staked 450)" }
+ *               insufficientBalance:
+ *                 value: { error: "Insufficient balance" }
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             example: { error: "No token provided" }
+ *       404:
+ *         description: Round not found
+ *         content:
+ *           application/json:
+ *             example: { error: "Round not found" }
+ *       409:
+ *         description: The user has reached the bet limit on this round (MAX_BETS_PER_USER_PER_ROUND), or already bet on an XLM Up/Down round, which the contract takes one bet per user for
+ *         content:
+ *           application/json:
+ *             example: { error: "At most 10 bets per user are allowed on a round" }
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             example: { error: "Failed to submit prediction" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X POST "$API_BASE_URL/api/v1/rounds/round-id/predictions" \\
+ *             -H "Content-Type: application/json" \\
+ *             -H "Authorization: Bearer $TOKEN" \\
+ *             -H "Idempotency-Key: 5f0c8a1e-6b7d-4c2a-9e3f-2d1b0a9c8e7f" \\
+ *             -d '{"amount":10,"side":"UP"}'
+ */
+router.post('/:id/predictions', authenticateUser, idempotent, async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { amount, side, rangeIndex } = req.body;
+
+        if (typeof amount !== 'number' || amount <= 0) {
+            return res.status(400).json({ error: 'Invalid amount' });
+        }
+
+        if (!side && rangeIndex === undefined) {
+            return res.status(400).json({ error: 'Either side (UP/DOWN) or rangeIndex must be provided' });
+        }
+
+        const prediction = await predictionService.submitPrediction(
+            req.user!.userId,
+            id,
+            amount,
+            side,
+            rangeIndex
+        );
+
+        res.json({
+            success: true,
+            prediction: {
+                id: prediction.id,
+                roundId: prediction.roundId,
+                amount: toAmount(prediction.amount),
+                side: prediction.side,
+                priceRange: prediction.priceRange,
+                createdAt: prediction.createdAt,
+            },
+        });
+    } catch (error: any) {
+        logger.error('Failed to submit prediction:', error);
+        res.status(PREDICTION_ERROR_STATUS[error.code] ?? 500).json({ error: error.message || 'Failed to submit prediction' });
     }
 });
 
 /**
  * @swagger
- * /api/rounds/{id}/resolve:
+ * /api/v1/rounds/{id}/resolve:
  *   post:
  *     summary: Resolve a round with the final price
  *     description: Oracle-only (or Admin). Resolves the round and computes winners.
@@ -235,6 +966,7 @@ router.get('/active', async (req: Request, res: Response) => {
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *       - in: path
  *         name: id
  *         required: true
@@ -267,10 +999,14 @@ router.get('/active', async (req: Request, res: Response) => {
  *                 predictions: 10
  *                 winners: 4
  *       400:
- *         description: Validation error
+ *         description: Validation error, or the round cannot be resolved
  *         content:
  *           application/json:
- *             example: { error: "Invalid final price" }
+ *             examples:
+ *               invalidFinalPrice:
+ *                 value: { error: "Invalid final price" }
+ *               alreadyResolved:
+ *                 value: { error: "Round already resolved" }
  *       401:
  *         description: Unauthorized
  *         content:
@@ -281,6 +1017,16 @@ router.get('/active', async (req: Request, res: Response) => {
  *         content:
  *           application/json:
  *             example: { error: "Oracle or Admin access required" }
+ *       404:
+ *         description: Round not found
+ *         content:
+ *           application/json:
+ *             example: { error: "Round not found" }
+ *       409:
+ *         description: An earlier on-chain resolution of the round was never confirmed
+ *         content:
+ *           application/json:
+ *             example: { error: "On-chain resolution of round round-id started at 2026-03-22T12:00:00.000Z has not been confirmed" }
  *       500:
  *         description: Internal server error
  *         content:
@@ -289,21 +1035,21 @@ router.get('/active', async (req: Request, res: Response) => {
  *     x-codeSamples:
  *       - lang: cURL
  *         source: |
- *           curl -X POST "$API_BASE_URL/api/rounds/round-id/resolve" \\
+ *           curl -X POST "$API_BASE_URL/api/v1/rounds/round-id/resolve" \\
  *             -H "Content-Type: application/json" \\
  *             -H "Authorization: Bearer $TOKEN" \\
  *             -d '{"finalPrice":0.2345}'
  */
-router.post('/:id/resolve', requireOracle, async (req: Request, res: Response) => {
+router.post('/:id/resolve', requireOracle, idempotent, async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
         const { finalPrice } = req.body;
 
-        if (!finalPrice || finalPrice <= 0) {
+        if (typeof finalPrice !== 'number' || finalPrice <= 0) {
             return res.status(400).json({ error: 'Invalid final price' });
         }
 
-        const round = await resolutionService.resolveRound(id, finalPrice);
+        const round = await resolutionService.resolveRound(id, finalPrice, undefined, userActor(req.user!));
 
         res.json({
             success: true,
@@ -319,8 +1065,139 @@ router.post('/:id/resolve', requireOracle, async (req: Request, res: Response) =
         });
     } catch (error: any) {
         logger.error('Failed to resolve round:', error);
+
+        if (error.code === 'ROUND_NOT_FOUND') {
+            return res.status(404).json({ error: error.message });
+        }
+
+        if (error.code === 'ROUND_ALREADY_RESOLVED' || error.code === 'ROUND_NOT_RESOLVABLE') {
+            return res.status(400).json({ error: error.message });
+        }
+
+        if (error.code === 'ON_CHAIN_RESOLUTION_PENDING') {
+            return res.status(409).json({ error: error.message });
+        }
+
         res.status(500).json({ error: error.message || 'Failed to resolve round' });
     }
 });
 
+/**
+ * @swagger
+ * /api/v1/rounds/{id}/cancel:
+ *   post:
+ *     summary: Cancel a round and refund every stake
+ *     description: Admin-only. Cancels a round that has not been resolved, refunds each prediction's stake, notifies participants and emits round:cancelled.
+ *     tags: [rounds]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *         description: Round ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason: { type: string, maxLength: 500, description: Shown to participants }
+ *             required: [reason]
+ *           example:
+ *             reason: "Oracle outage"
+ *     responses:
+ *       200:
+ *         description: Round cancelled
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               round:
+ *                 id: "round-id"
+ *                 status: "CANCELLED"
+ *                 cancelReason: "Oracle outage"
+ *                 cancelledAt: "2026-01-29T00:10:00.000Z"
+ *                 refunds: 10
+ *       400:
+ *         description: Validation error, or the round is already resolved or cancelled
+ *         content:
+ *           application/json:
+ *             examples:
+ *               missingReason:
+ *                 value: { error: "A cancellation reason is required" }
+ *               notCancellable:
+ *                 value: { error: "Round cannot be cancelled (status: RESOLVED)" }
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             example: { error: "No token provided" }
+ *       403:
+ *         description: Forbidden (admin role required)
+ *         content:
+ *           application/json:
+ *             example: { error: "Admin access required" }
+ *       404:
+ *         description: Round not found
+ *         content:
+ *           application/json:
+ *             example: { error: "Round not found" }
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             example: { error: "Failed to cancel round" }
+ *     x-codeSamples:
+ *       - lang: cURL
+ *         source: |
+ *           curl -X POST "$API_BASE_URL/api/v1/rounds/round-id/cancel" \\
+ *             -H "Content-Type: application/json" \\
+ *             -H "Authorization: Bearer $TOKEN" \\
+ *             -d '{"reason":"Oracle outage"}'
+ */
+router.post('/:id/cancel', requireAdmin, idempotent, async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+        if (!reason) {
+            return res.status(400).json({ error: 'A cancellation reason is required' });
+        }
+
+        if (reason.length > MAX_CANCEL_REASON_LENGTH) {
+            return res.status(400).json({ error: `Reason must be at most ${MAX_CANCEL_REASON_LENGTH} characters` });
+        }
+
+        const round = await resolutionService.cancelRound(id, reason, userActor(req.user!));
+
+        res.json({
+            success: true,
+            round: {
+                id: round.id,
+                status: round.status,
+                cancelReason: round.cancelReason,
+                cancelledAt: round.cancelledAt,
+                // Cashed-out bets were settled when withdrawn and get no refund
+                refunds: round.predictions.filter((prediction: any) => !prediction.withdrawnAt).length,
+            },
+        });
+    } catch (error: any) {
+        logger.error('Failed to cancel round:', error);
+
+        if (error.code === 'ROUND_NOT_FOUND') {
+            return res.status(404).json({ error: error.message });
+        }
+
+        if (error.code === 'ROUND_NOT_CANCELLABLE') {
+            return res.status(400).json({ error: error.message });
+        }
+
+        res.status(500).json({ error: error.message || 'Failed to cancel round' });
+    }
+});
+
 export default router;
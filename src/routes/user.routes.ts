@@ -1,6 +1,7 @@
 import { Router, Request, Response } from "express";
 import { prisma } from "../lib/prisma";
 import { authenticateUser } from "../middleware/auth.middleware";
+import { toAmount, withAmounts } from "../utils/money.util";
 
 const router = Router();
 
@@ -47,7 +48,7 @@ router.get(
         preferences: user.preferences,
         streak: user.streak,
         lastLoginAt: user.lastLoginAt,
-        balance: user.virtualBalance, // Added balance for convenience
+        balance: toAmount(user.virtualBalance), // Added balance for convenience
       };
 
       return res.json({
@@ -82,7 +83,7 @@ router.get(
 
       return res.json({
         success: true,
-        balance: user.virtualBalance,
+        balance: toAmount(user.virtualBalance),
       });
     } catch (error) {
       console.error("Error fetching balance:", error);
@@ -109,15 +110,17 @@ router.get("/stats", authenticateUser, async (req: Request, res: Response) => {
 
     return res.json({
       success: true,
-      stats: stats || {
-        totalPredictions: 0,
-        correctPredictions: 0,
-        totalEarnings: 0,
-        upDownWins: 0,
-        upDownLosses: 0,
-        legendsWins: 0,
-        legendsLosses: 0,
-      },
+      stats: stats
+        ? withAmounts(stats, ["totalEarnings", "upDownEarnings", "legendsEarnings"])
+        : {
+            totalPredictions: 0,
+            correctPredictions: 0,
+            totalEarnings: 0,
+            upDownWins: 0,
+            upDownLosses: 0,
+            legendsWins: 0,
+            legendsLosses: 0,
+          },
     });
   } catch (error) {
     console.error("Error fetching stats:", error);
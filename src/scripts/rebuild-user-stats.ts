@@ -0,0 +1,16 @@
+import { prisma } from '../lib/prisma';
+import { rebuildUserStats } from '../services/leaderboard.service';
+
+async function main() {
+  const { rounds, results } = await rebuildUserStats();
+  // eslint-disable-next-line no-console
+  console.log(`Rebuilt UserStats from ${rounds} resolved rounds (${results} user results)`);
+}
+
+main()
+  .catch((error) => {
+    // eslint-disable-next-line no-console
+    console.error('Failed to rebuild UserStats:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
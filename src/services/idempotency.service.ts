@@ -0,0 +1,203 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import logger from "../utils/logger";
+import { prisma } from "../lib/prisma";
+
+const DEFAULT_TTL_HOURS = 24;
+// A claim not renewed for this long belongs to a request that died (e.g. the
+// instance restarted mid-request) and may be taken over by a retry. A running
+// request renews its claim every CLAIM_HEARTBEAT_MS, however long it takes.
+const STALE_CLAIM_MS = 60 * 1000;
+export const CLAIM_HEARTBEAT_MS = STALE_CLAIM_MS / 4;
+
+export interface IdempotentRequest {
+  userId: string;
+  key: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export type IdempotencyClaim =
+  // First use of the key: run the request, then complete or release it
+  | { state: "claimed"; id: string }
+  // The key already produced this response
+  | { state: "replay"; status: number; body: unknown }
+  // The original request has not answered yet
+  | { state: "in_progress" }
+  // The key was used for a different request
+  | { state: "mismatch" };
+
+/**
+ * JSON with object keys sorted, so equal bodies hash the same regardless of
+ * the order a client serialized them in
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function requestFingerprint(
+  request: Pick<IdempotentRequest, "method" | "path" | "body">,
+): string {
+  return createHash("sha256")
+    .update(`${request.method} ${request.path}\n${canonicalJson(request.body)}`)
+    .digest("hex");
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
+
+/**
+ * Stores the outcome of requests sent with an Idempotency-Key so retries get
+ * the original response instead of moving money twice. Keys are scoped to
+ * the user and kept for IDEMPOTENCY_KEY_TTL_HOURS.
+ */
+export class IdempotencyService {
+  /**
+   * Claims a key for a request, or reports what a previous use of it
+   * produced
+   */
+  async claim(request: IdempotentRequest): Promise<IdempotencyClaim> {
+    const requestHash = requestFingerprint(request);
+    const where = {
+      userId_key: { userId: request.userId, key: request.key },
+    };
+
+    // Two attempts: the second follows the removal of an expired key
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const created = await prisma.idempotencyKey.create({
+          data: {
+            userId: request.userId,
+            key: request.key,
+            method: request.method,
+            path: request.path,
+            requestHash,
+            expiresAt: new Date(Date.now() + this.getTtlHours() * 60 * 60 * 1000),
+          },
+        });
+        return { state: "claimed", id: created.id };
+      } catch (error) {
+        if (!isUniqueViolation(error)) {
+          throw error;
+        }
+      }
+
+      const existing = await prisma.idempotencyKey.findUnique({ where });
+      if (!existing) {
+        continue;
+      }
+
+      const now = new Date();
+      if (existing.expiresAt <= now) {
+        await prisma.idempotencyKey.deleteMany({
+          where: { id: existing.id, expiresAt: { lte: now } },
+        });
+        continue;
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return { state: "mismatch" };
+      }
+
+      if (existing.responseStatus !== null) {
+        return {
+          state: "replay",
+          status: existing.responseStatus,
+          body: existing.responseBody,
+        };
+      }
+
+      // Restarting the claim clock keeps a concurrent retry from taking it too
+      const takenOver = await prisma.idempotencyKey.updateMany({
+        where: {
+          id: existing.id,
+          responseStatus: null,
+          createdAt: { lte: new Date(now.getTime() - STALE_CLAIM_MS) },
+        },
+        data: { createdAt: now },
+      });
+      if (takenOver.count > 0) {
+        logger.warn(
+          `Taking over abandoned idempotency key ${request.key} of user ${request.userId}`,
+        );
+        return { state: "claimed", id: existing.id };
+      }
+
+      return { state: "in_progress" };
+    }
+
+    return { state: "in_progress" };
+  }
+
+  /**
+   * Restarts the claim clock of a request that is still running, so retries
+   * keep getting in_progress instead of taking the claim over
+   */
+  async renew(id: string): Promise<void> {
+    await prisma.idempotencyKey.updateMany({
+      where: { id, responseStatus: null },
+      data: { createdAt: new Date() },
+    });
+  }
+
+  /**
+   * Stores the response of a claimed request for replay
+   */
+  async complete(id: string, status: number, body: unknown): Promise<void> {
+    await prisma.idempotencyKey.update({
+      where: { id },
+      data: {
+        responseStatus: status,
+        responseBody: body === undefined ? Prisma.DbNull : JSON.parse(JSON.stringify(body)),
+      },
+    });
+  }
+
+  /**
+   * Forgets a claim whose request failed without a reusable answer, so a
+   * retry runs it again
+   */
+  async release(id: string): Promise<void> {
+    await prisma.idempotencyKey.deleteMany({
+      where: { id, responseStatus: null },
+    });
+  }
+
+  /**
+   * Deletes keys past their retention window
+   */
+  async cleanupExpired(): Promise<number> {
+    try {
+      const result = await prisma.idempotencyKey.deleteMany({
+        where: { expiresAt: { lte: new Date() } },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error("Failed to cleanup expired idempotency keys:", error);
+      throw error;
+    }
+  }
+
+  private getTtlHours(): number {
+    const hours = parseFloat(process.env.IDEMPOTENCY_KEY_TTL_HOURS || "");
+    return hours > 0 ? hours : DEFAULT_TTL_HOURS;
+  }
+}
+
+export default new IdempotencyService();
@@ -0,0 +1,218 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import logger from "../utils/logger";
+import { prisma } from "../lib/prisma";
+
+const SCHEDULER_LEASE = "scheduler";
+const DEFAULT_LEASE_SECONDS = 30;
+
+export interface LeaderCallbacks {
+  // Called when this instance becomes leader
+  onElected: () => void | Promise<void>;
+  // Called when this instance stops being leader (lease lost or released)
+  onDemoted: () => void | Promise<void>;
+}
+
+export interface LeaderStatus {
+  instanceId: string;
+  isLeader: boolean;
+  lease: {
+    holderId: string;
+    acquiredAt: Date;
+    renewedAt: Date;
+    expiresAt: Date;
+    expired: boolean;
+  } | null;
+}
+
+/**
+ * Elects one instance to run the cron schedulers through a lease row in
+ * SchedulerLease. Every instance tries to take or renew the lease a few times
+ * per lease period; a holder that stops renewing (crashed, partitioned) is
+ * replaced once its lease expires. All times come from the database clock so
+ * instances with skewed clocks agree on expiry.
+ */
+export class LeaderElectionService {
+  readonly instanceId =
+    process.env.INSTANCE_ID || `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+  private leader = false;
+  private callbacks: LeaderCallbacks | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  // Local time the last successful renewal was sent, never later than the
+  // database NOW() that set the lease's expiresAt, to step down before the
+  // lease can expire when the database is unreachable
+  private renewedAt = 0;
+  private ticking = false;
+
+  start(callbacks: LeaderCallbacks): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.callbacks = callbacks;
+    const leaseSeconds = this.getLeaseSeconds();
+
+    logger.info(
+      `[Leader Election] Instance ${this.instanceId} competing for the scheduler lease (${leaseSeconds}s)`,
+    );
+
+    void this.tick();
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.getTickMs());
+  }
+
+  /**
+   * Stops competing and hands the lease back so another instance can take
+   * over without waiting for it to expire
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.leader) {
+      try {
+        await prisma.schedulerLease.deleteMany({
+          where: { name: SCHEDULER_LEASE, holderId: this.instanceId },
+        });
+      } catch (error) {
+        logger.error("[Leader Election] Failed to release the scheduler lease:", error);
+      }
+      await this.demote("released");
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  async getStatus(): Promise<LeaderStatus> {
+    // Expiry is judged by the database clock, like the lease itself
+    const [lease] = await prisma.$queryRaw<NonNullable<LeaderStatus["lease"]>[]>`
+      SELECT "holderId", "acquiredAt", "renewedAt", "expiresAt",
+        "expiresAt" <= NOW() AT TIME ZONE 'UTC' AS "expired"
+      FROM "SchedulerLease"
+      WHERE "name" = ${SCHEDULER_LEASE}
+    `;
+
+    return {
+      instanceId: this.instanceId,
+      isLeader: this.leader,
+      lease: lease ?? null,
+    };
+  }
+
+  /**
+   * Takes or renews the lease, and runs the election callbacks when
+   * leadership changes
+   */
+  async tick(): Promise<void> {
+    // A slow database must not let two ticks race on the callbacks, but a
+    // renewal that hangs must not keep the leader running past its lease
+    if (this.ticking) {
+      if (this.leader && this.leaseLapsing()) {
+        await this.demote("lease renewal is taking too long");
+      }
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const attemptedAt = Date.now();
+      let held: boolean;
+      try {
+        held = await this.tryAcquire();
+      } catch (error) {
+        logger.error("[Leader Election] Failed to renew the scheduler lease:", error);
+
+        // Another instance may take over once the lease expires; stop first
+        if (this.leader && this.leaseLapsing()) {
+          await this.demote("lease could not be renewed");
+        }
+        return;
+      }
+
+      if (held) {
+        this.renewedAt = attemptedAt;
+        if (!this.leader) {
+          this.leader = true;
+          logger.info(`[Leader Election] Instance ${this.instanceId} is now the scheduler leader`);
+          await this.runCallback("onElected");
+        }
+      } else if (this.leader) {
+        await this.demote("lease taken by another instance");
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Single conditional upsert: creates the lease, renews our own, or takes
+   * over an expired one. Returns whether this instance holds the lease.
+   */
+  private async tryAcquire(): Promise<boolean> {
+    const leaseSeconds = this.getLeaseSeconds();
+
+    const updated = await prisma.$executeRaw`
+      INSERT INTO "SchedulerLease" ("name", "holderId", "acquiredAt", "renewedAt", "expiresAt")
+      VALUES (
+        ${SCHEDULER_LEASE},
+        ${this.instanceId},
+        NOW() AT TIME ZONE 'UTC',
+        NOW() AT TIME ZONE 'UTC',
+        NOW() AT TIME ZONE 'UTC' + ${leaseSeconds} * INTERVAL '1 second'
+      )
+      ON CONFLICT ("name") DO UPDATE SET
+        "holderId" = EXCLUDED."holderId",
+        "acquiredAt" = CASE
+          WHEN "SchedulerLease"."holderId" = EXCLUDED."holderId" THEN "SchedulerLease"."acquiredAt"
+          ELSE EXCLUDED."acquiredAt"
+        END,
+        "renewedAt" = EXCLUDED."renewedAt",
+        "expiresAt" = EXCLUDED."expiresAt"
+      WHERE "SchedulerLease"."holderId" = EXCLUDED."holderId"
+        OR "SchedulerLease"."expiresAt" <= NOW() AT TIME ZONE 'UTC'
+    `;
+
+    return updated > 0;
+  }
+
+  private async demote(reason: string): Promise<void> {
+    this.leader = false;
+    logger.warn(`[Leader Election] Instance ${this.instanceId} is no longer the scheduler leader (${reason})`);
+    await this.runCallback("onDemoted");
+  }
+
+  private async runCallback(name: keyof LeaderCallbacks): Promise<void> {
+    try {
+      await this.callbacks?.[name]();
+    } catch (error) {
+      logger.error(`[Leader Election] ${name} failed:`, error);
+    }
+  }
+
+  /**
+   * Whether the lease may expire before the next tick could renew it. The
+   * leader steps down a tick early so it has stopped before anyone can win
+   * the lease.
+   */
+  private leaseLapsing(): boolean {
+    const leaseMs = this.getLeaseSeconds() * 1000;
+    return Date.now() - this.renewedAt >= leaseMs - this.getTickMs();
+  }
+
+  private getTickMs(): number {
+    return (this.getLeaseSeconds() * 1000) / 3;
+  }
+
+  private getLeaseSeconds(): number {
+    const seconds = parseInt(process.env.SCHEDULER_LEASE_SECONDS || "", 10);
+    return seconds > 0 ? seconds : DEFAULT_LEASE_SECONDS;
+  }
+}
+
+export default new LeaderElectionService();
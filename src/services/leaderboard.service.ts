@@ -1,11 +1,49 @@
+import { randomUUID } from "crypto";
 import { prisma } from "../lib/prisma";
-import { GameMode } from "@prisma/client";
 import {
+  Asset,
+  GameMode,
+  LeaderboardStat,
+  Prisma,
+  Round,
+} from "@prisma/client";
+import {
+  fromStroops,
+  MONEY_DECIMALS,
+  toAmount,
+  toStroops,
+} from "../utils/money.util";
+import { summarizePositions } from "../utils/position.util";
+import {
+  getPeriodEnd,
+  getPeriodStart,
+  LEADERBOARD_PERIODS,
+} from "../utils/leaderboard-period.util";
+import { RoundPosition } from "../types/round.types";
+import {
+  BoardEntry,
+  BoardQuery,
+  BoardResponse,
   LeaderboardEntry,
+  LeaderboardMetric,
   LeaderboardResponse,
   ModeStats,
 } from "../types/leaderboard.types";
 
+// LeaderboardStat mode / asset of the boards spanning every mode / asset
+export const ALL_BOARDS = "ALL";
+
+// LeaderboardStat column each metric ranks by
+const METRIC_FIELDS: Record<
+  LeaderboardMetric,
+  "profit" | "accuracy" | "roi" | "longestStreak"
+> = {
+  earnings: "profit",
+  accuracy: "accuracy",
+  roi: "roi",
+  streak: "longestStreak",
+};
+
 // Get leaderboard with pagination
 
 export async function getLeaderboard(
@@ -34,7 +72,7 @@ export async function getLeaderboard(
       rank: offset + index + 1,
       userId: stat.user.id,
       walletAddress: maskWalletAddress(stat.user.walletAddress),
-      totalEarnings: parseFloat(stat.totalEarnings.toString()),
+      totalEarnings: toAmount(stat.totalEarnings),
       totalPredictions: stat.totalPredictions,
       accuracy: calculateAccuracy(
         stat.correctPredictions,
@@ -44,7 +82,7 @@ export async function getLeaderboard(
         upDown: {
           wins: stat.upDownWins,
           losses: stat.upDownLosses,
-          earnings: parseFloat(stat.upDownEarnings.toString()),
+          earnings: toAmount(stat.upDownEarnings),
           accuracy: calculateAccuracy(
             stat.upDownWins,
             stat.upDownWins + stat.upDownLosses,
@@ -53,7 +91,7 @@ export async function getLeaderboard(
         legends: {
           wins: stat.legendsWins,
           losses: stat.legendsLosses,
-          earnings: parseFloat(stat.legendsEarnings.toString()),
+          earnings: toAmount(stat.legendsEarnings),
           accuracy: calculateAccuracy(
             stat.legendsWins,
             stat.legendsWins + stat.legendsLosses,
@@ -113,7 +151,7 @@ export async function getUserPosition(
     rank,
     userId: userStats.user.id,
     walletAddress: maskWalletAddress(userStats.user.walletAddress),
-    totalEarnings: parseFloat(userStats.totalEarnings.toString()),
+    totalEarnings: toAmount(userStats.totalEarnings),
     totalPredictions: userStats.totalPredictions,
     accuracy: calculateAccuracy(
       userStats.correctPredictions,
@@ -123,7 +161,7 @@ export async function getUserPosition(
       upDown: {
         wins: userStats.upDownWins,
         losses: userStats.upDownLosses,
-        earnings: parseFloat(userStats.upDownEarnings.toString()),
+        earnings: toAmount(userStats.upDownEarnings),
         accuracy: calculateAccuracy(
           userStats.upDownWins,
           userStats.upDownWins + userStats.upDownLosses,
@@ -132,7 +170,7 @@ export async function getUserPosition(
       legends: {
         wins: userStats.legendsWins,
         losses: userStats.legendsLosses,
-        earnings: parseFloat(userStats.legendsEarnings.toString()),
+        earnings: toAmount(userStats.legendsEarnings),
         accuracy: calculateAccuracy(
           userStats.legendsWins,
           userStats.legendsWins + userStats.legendsLosses,
@@ -142,93 +180,359 @@ export async function getUserPosition(
   };
 }
 
-// Update user stats after a round closes
-// Call this when you resolve predictions for a round
-export async function updateUserStatsForRound(roundId: string): Promise<void> {
-  // Get the round with predictions
-  const round = await prisma.round.findUnique({
-    where: { id: roundId },
-    include: {
-      predictions: {
-        include: {
-          user: true,
-        },
-      },
-    },
-  });
+// Record each participant's result on a settled round and add it to their
+// UserStats. Earnings are the real payouts less the stakes; a user wins the
+// round when their payouts cover their stake. Users whose result on the round
+// is already recorded are skipped, so a round is never counted twice.
+// Returns the number of users newly recorded.
+export async function recordRoundResults(
+  round: Pick<Round, "id" | "mode" | "asset">,
+  positions: RoundPosition[],
+  settledAt: Date,
+  tx?: Prisma.TransactionClient,
+): Promise<number> {
+  const client = tx ?? prisma;
+  const isUpDown = round.mode === GameMode.UP_DOWN;
+  const isLegends = round.mode === GameMode.LEGENDS;
+  let recorded = 0;
 
-  if (!round || !round.endPrice) {
-    throw new Error("Round not found or not closed");
-  }
+  for (const position of positions) {
+    // Not settled yet
+    if (position.payout === null) continue;
 
-  // Process each prediction
-  for (const prediction of round.predictions) {
-    const isCorrect = calculatePredictionResult(prediction, round);
-    const earnings = isCorrect
-      ? parseFloat(prediction.amount.toString())
-      : -parseFloat(prediction.amount.toString());
+    const stake = toStroops(position.totalStake);
+    const payout = toStroops(position.payout);
+    const earnings = fromStroops(payout - stake);
+    const won = payout >= stake;
 
-    // Determine mode from round
-    const isUpDown = round.mode === GameMode.UP_DOWN;
-    const isLegends = round.mode === GameMode.LEGENDS;
+    const { count } = await client.userRoundResult.createMany({
+      data: [
+        {
+          userId: position.userId,
+          roundId: round.id,
+          mode: round.mode,
+          asset: round.asset,
+          stake: fromStroops(stake),
+          payout: fromStroops(payout),
+          profit: earnings,
+          won,
+          settledAt,
+        },
+      ],
+      skipDuplicates: true,
+    });
+    if (count === 0) continue;
 
-    // Update or create user stats
-    await prisma.userStats.upsert({
-      where: { userId: prediction.userId },
+    await client.userStats.upsert({
+      where: { userId: position.userId },
       create: {
-        userId: prediction.userId,
+        userId: position.userId,
         totalPredictions: 1,
-        correctPredictions: isCorrect ? 1 : 0,
+        correctPredictions: won ? 1 : 0,
         totalEarnings: earnings,
-        upDownWins: isUpDown && isCorrect ? 1 : 0,
-        upDownLosses: isUpDown && !isCorrect ? 1 : 0,
+        upDownWins: isUpDown && won ? 1 : 0,
+        upDownLosses: isUpDown && !won ? 1 : 0,
         upDownEarnings: isUpDown ? earnings : 0,
-        legendsWins: isLegends && isCorrect ? 1 : 0,
-        legendsLosses: isLegends && !isCorrect ? 1 : 0,
+        legendsWins: isLegends && won ? 1 : 0,
+        legendsLosses: isLegends && !won ? 1 : 0,
         legendsEarnings: isLegends ? earnings : 0,
       },
       update: {
         totalPredictions: { increment: 1 },
-        correctPredictions: { increment: isCorrect ? 1 : 0 },
+        correctPredictions: { increment: won ? 1 : 0 },
         totalEarnings: { increment: earnings },
-        upDownWins: { increment: isUpDown && isCorrect ? 1 : 0 },
-        upDownLosses: { increment: isUpDown && !isCorrect ? 1 : 0 },
+        upDownWins: { increment: isUpDown && won ? 1 : 0 },
+        upDownLosses: { increment: isUpDown && !won ? 1 : 0 },
         upDownEarnings: { increment: isUpDown ? earnings : 0 },
-        legendsWins: { increment: isLegends && isCorrect ? 1 : 0 },
-        legendsLosses: { increment: isLegends && !isCorrect ? 1 : 0 },
+        legendsWins: { increment: isLegends && won ? 1 : 0 },
+        legendsLosses: { increment: isLegends && !won ? 1 : 0 },
         legendsEarnings: { increment: isLegends ? earnings : 0 },
       },
     });
+    await recordBoardResult(client, {
+      userId: position.userId,
+      mode: round.mode,
+      asset: round.asset,
+      stake: fromStroops(stake),
+      profit: earnings,
+      won,
+      settledAt,
+    });
+    recorded += 1;
   }
-}
 
-// Calculate if a prediction was correct
+  return recorded;
+}
 
-function calculatePredictionResult(prediction: any, round: any): boolean {
-  if (round.startPrice === null || round.endPrice === null) return false;
+// Add a user's result on a round to the LeaderboardStat row of every board it
+// counts toward: each period containing settledAt, for the round's mode and
+// asset and for all of them. One statement, so concurrent rounds of the same
+// user add up instead of overwriting each other.
+async function recordBoardResult(
+  client: Prisma.TransactionClient,
+  result: {
+    userId: string;
+    mode: GameMode;
+    asset: Asset;
+    stake: Prisma.Decimal;
+    profit: Prisma.Decimal;
+    won: boolean;
+    settledAt: Date;
+  },
+): Promise<void> {
+  const wins = result.won ? 1 : 0;
+  const roi = result.profit.div(result.stake).toNumber();
+  // Exact decimal strings, so the amounts match UserStats to the stroop
+  const stake = result.stake.toFixed(MONEY_DECIMALS);
+  const profit = result.profit.toFixed(MONEY_DECIMALS);
 
-  if (round.mode === GameMode.UP_DOWN) {
-    // Up/Down mode - check if prediction side matches price movement
-    const priceWentUp = round.endPrice > round.startPrice;
-    return (
-      (prediction.side === "UP" && priceWentUp) ||
-      (prediction.side === "DOWN" && !priceWentUp)
+  const rows = LEADERBOARD_PERIODS.flatMap((period) => {
+    const periodStart = getPeriodStart(period, result.settledAt);
+    return [ALL_BOARDS, result.mode].flatMap((mode) =>
+      [ALL_BOARDS, result.asset].map(
+        (asset) =>
+          Prisma.sql`(${randomUUID()}, ${period}::"LeaderboardPeriod", ${periodStart}, ${mode}, ${asset}, ${result.userId}, 1, ${wins}, ${stake}::numeric, ${profit}::numeric, ${roi}, ${wins * 100}, ${wins}, ${wins}, NOW())`,
+      ),
     );
+  });
+
+  // On conflict the right-hand sides read the row as it was before the update
+  await client.$executeRaw`
+    INSERT INTO "LeaderboardStat"
+      ("id", "period", "periodStart", "mode", "asset", "userId", "rounds", "wins", "stake", "profit", "roi", "accuracy", "currentStreak", "longestStreak", "updatedAt")
+    VALUES ${Prisma.join(rows)}
+    ON CONFLICT ("period", "periodStart", "mode", "asset", "userId") DO UPDATE SET
+      "rounds" = "LeaderboardStat"."rounds" + 1,
+      "wins" = "LeaderboardStat"."wins" + EXCLUDED."wins",
+      "stake" = "LeaderboardStat"."stake" + EXCLUDED."stake",
+      "profit" = "LeaderboardStat"."profit" + EXCLUDED."profit",
+      "roi" = (("LeaderboardStat"."profit" + EXCLUDED."profit") / ("LeaderboardStat"."stake" + EXCLUDED."stake"))::double precision,
+      "accuracy" = ("LeaderboardStat"."wins" + EXCLUDED."wins") * 100.0 / ("LeaderboardStat"."rounds" + 1),
+      "currentStreak" = CASE WHEN EXCLUDED."wins" > 0 THEN "LeaderboardStat"."currentStreak" + 1 ELSE 0 END,
+      "longestStreak" = GREATEST("LeaderboardStat"."longestStreak", CASE WHEN EXCLUDED."wins" > 0 THEN "LeaderboardStat"."currentStreak" + 1 ELSE 0 END),
+      "updatedAt" = NOW()
+  `;
+}
+
+export const LEADERBOARD_METRICS = Object.keys(
+  METRIC_FIELDS,
+) as LeaderboardMetric[];
+
+// Fewest settled rounds a user needs to appear on a board ranked by a metric.
+// A couple of lucky rounds would top an accuracy board, so it takes
+// LEADERBOARD_MIN_BETS (default 10) of them; other metrics take one.
+export function getDefaultMinBets(metric: LeaderboardMetric): number {
+  if (metric !== "accuracy") return 1;
+
+  const minBets = parseInt(process.env.LEADERBOARD_MIN_BETS || "", 10);
+  return Number.isFinite(minBets) && minBets > 0 ? minBets : 10;
+}
+
+// Get one board: a period (the one containing query.at, or the current one),
+// optionally narrowed to a mode and/or asset, ranked by a metric. Users with
+// fewer than query.minBets settled rounds in it are left off.
+
+export async function getBoard(
+  query: BoardQuery,
+  limit: number = 100,
+  offset: number = 0,
+  userId?: string,
+): Promise<BoardResponse> {
+  const periodStart = getPeriodStart(query.period, query.at ?? new Date());
+  const board = {
+    period: query.period,
+    periodStart,
+    mode: query.mode ?? ALL_BOARDS,
+    asset: query.asset ?? ALL_BOARDS,
+  };
+  const where: Prisma.LeaderboardStatWhereInput = {
+    ...board,
+    rounds: { gte: query.minBets },
+  };
+  const field = METRIC_FIELDS[query.metric];
+
+  // Ties go to the higher earnings, then to the user id so pages are stable
+  const stats = await prisma.leaderboardStat.findMany({
+    where,
+    orderBy: [{ [field]: "desc" }, { profit: "desc" }, { userId: "asc" }],
+    take: limit,
+    skip: offset,
+    include: { user: { select: { walletAddress: true } } },
+  });
+
+  const leaderboard = stats.map((stat, index) =>
+    toBoardEntry(stat, offset + index + 1),
+  );
+
+  // Get user position if authenticated and on the board
+  let userPosition: BoardEntry | undefined;
+  if (userId) {
+    const stat = await prisma.leaderboardStat.findUnique({
+      where: { period_periodStart_mode_asset_userId: { ...board, userId } },
+      include: { user: { select: { walletAddress: true } } },
+    });
+
+    if (stat && stat.rounds >= query.minBets) {
+      // Calculate rank by counting users listed ahead of them, with the
+      // same tie-breakers as the list
+      const ahead: Prisma.LeaderboardStatWhereInput[] = [
+        { [field]: { gt: stat[field] } },
+        { [field]: stat[field], profit: { gt: stat.profit } },
+        { [field]: stat[field], profit: stat.profit, userId: { lt: stat.userId } },
+      ];
+      const rank =
+        (await prisma.leaderboardStat.count({
+          where: { ...where, OR: ahead },
+        })) + 1;
+      userPosition = toBoardEntry(stat, rank);
+    }
+  }
+
+  const totalUsers = await prisma.leaderboardStat.count({ where });
+
+  return {
+    board: {
+      period: query.period,
+      periodStart: periodStart.toISOString(),
+      periodEnd:
+        getPeriodEnd(query.period, periodStart)?.toISOString() ?? null,
+      mode: query.mode,
+      asset: query.asset,
+      metric: query.metric,
+      minBets: query.minBets,
+    },
+    leaderboard,
+    userPosition,
+    totalUsers,
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+// Record a resolved round's results from its settled bets. Resolution records
+// them itself; this is for rounds settled before it did. Refunded bets and
+// cashed-out bets take no part. Returns the number of users newly recorded.
+export async function updateUserStatsForRound(
+  roundId: string,
+  tx?: Prisma.TransactionClient,
+): Promise<number> {
+  const client = tx ?? prisma;
+  const round = await client.round.findUnique({
+    where: { id: roundId },
+    include: {
+      predictions: {
+        where: { withdrawnAt: null, outcome: { in: ["WIN", "LOSS"] } },
+      },
+    },
+  });
+
+  if (!round || round.status !== "RESOLVED") {
+    throw new Error("Round not found or not resolved");
+  }
+
+  const positions = summarizePositions(
+    // Bets settled before payouts were stored on losses
+    round.predictions.map((prediction) => ({
+      ...prediction,
+      payout: prediction.payout ?? 0,
+    })),
+  );
+
+  return recordRoundResults(
+    round,
+    [...positions.values()],
+    round.resolvedAt ?? round.updatedAt,
+    tx,
+  );
+}
+
+// Advisory lock serializing stats writes with a rebuild: resolution records a
+// round's results holding it shared, a rebuild holds it exclusively
+const USER_STATS_LOCK = "user-stats";
+
+// A rebuild replays every resolved round in one transaction
+const REBUILD_TX_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Take the stats lock until the end of the transaction. $executeRaw, as
+// $queryRaw cannot read the void the lock functions return.
+export async function lockUserStats(
+  tx: Prisma.TransactionClient,
+  exclusive: boolean = false,
+): Promise<void> {
+  if (exclusive) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${USER_STATS_LOCK}))`;
   } else {
-    // Legends mode - check if price falls within predicted range
-    if (!prediction.priceRange) return false;
-    const range = prediction.priceRange as { min: number; max: number };
-    const endPrice = parseFloat(round.endPrice.toString());
-    return endPrice >= range.min && endPrice <= range.max;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock_shared(hashtext(${USER_STATS_LOCK}))`;
   }
 }
 
+// Rebuild every UserStats and LeaderboardStat row from the settled bets of
+// resolved rounds, oldest first, in one transaction: boards keep serving the
+// old rows until it commits. Resolutions wait on the stats lock meanwhile, so
+// rounds are recorded in resolution order and streaks stay right.
+export async function rebuildUserStats(
+  batchSize: number = 100,
+): Promise<{ rounds: number; results: number }> {
+  return prisma.$transaction(
+    async (tx) => {
+      await lockUserStats(tx, true);
+
+      await tx.userRoundResult.deleteMany();
+      await tx.userStats.deleteMany();
+      await tx.leaderboardStat.deleteMany();
+
+      let rounds = 0;
+      let results = 0;
+      let cursor: string | undefined;
+
+      for (;;) {
+        const batch = await tx.round.findMany({
+          where: { status: "RESOLVED" },
+          orderBy: [{ resolvedAt: "asc" }, { id: "asc" }],
+          select: { id: true },
+          take: batchSize,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+
+        for (const { id } of batch) {
+          results += await updateUserStatsForRound(id, tx);
+          rounds += 1;
+        }
+
+        if (batch.length < batchSize) break;
+        cursor = batch[batch.length - 1].id;
+      }
+
+      return { rounds, results };
+    },
+    { timeout: REBUILD_TX_TIMEOUT_MS },
+  );
+}
+
 // Helper functions
 function maskWalletAddress(address: string): string {
   if (address.length <= 12) return address;
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
+function toBoardEntry(
+  stat: LeaderboardStat & { user: { walletAddress: string } },
+  rank: number,
+): BoardEntry {
+  return {
+    rank,
+    userId: stat.userId,
+    walletAddress: maskWalletAddress(stat.user.walletAddress),
+    rounds: stat.rounds,
+    wins: stat.wins,
+    accuracy: calculateAccuracy(stat.wins, stat.rounds),
+    totalStake: toAmount(stat.stake),
+    earnings: toAmount(stat.profit),
+    roi: Math.round(stat.roi * 10000) / 10000, // Round to 4 decimals
+    currentStreak: stat.currentStreak,
+    longestStreak: stat.longestStreak,
+  };
+}
+
 function calculateAccuracy(correct: number, total: number): number {
   if (total === 0) return 0;
   return Math.round((correct / total) * 100 * 100) / 100; // Round to 2 decimals
@@ -0,0 +1,234 @@
+import { randomUUID } from "crypto";
+import { LedgerAccountType, Prisma, TransactionType } from "@prisma/client";
+import logger from "../utils/logger";
+import { prisma } from "../lib/prisma";
+import { MoneyValue, fromStroops, toAmount, toStroops } from "../utils/money.util";
+
+export interface LedgerAccount {
+  type: LedgerAccountType;
+  id: string;
+}
+
+export const HOUSE_ACCOUNT_ID = "house";
+export const BONUS_POOL_ACCOUNT_ID = "bonus-pool";
+
+/**
+ * Account constructors for the four ledger account kinds
+ */
+export const ledgerAccounts = {
+  wallet: (userId: string): LedgerAccount => ({
+    type: LedgerAccountType.USER_WALLET,
+    id: userId,
+  }),
+  escrow: (roundId: string): LedgerAccount => ({
+    type: LedgerAccountType.ROUND_ESCROW,
+    id: roundId,
+  }),
+  house: (): LedgerAccount => ({
+    type: LedgerAccountType.HOUSE,
+    id: HOUSE_ACCOUNT_ID,
+  }),
+  bonusPool: (): LedgerAccount => ({
+    type: LedgerAccountType.BONUS_POOL,
+    id: BONUS_POOL_ACCOUNT_ID,
+  }),
+};
+
+export interface TransferInput {
+  from: LedgerAccount;
+  to: LedgerAccount;
+  // Rounded down to the stroop
+  amount: MoneyValue;
+  // Recorded on the user's Transaction history when a wallet is involved
+  type: TransactionType;
+  description?: string;
+  roundId?: string;
+}
+
+export interface ReconciliationReport {
+  checkedUsers: number;
+  mismatchedUsers: Array<{
+    userId: string;
+    virtualBalance: number;
+    ledgerBalance: number;
+  }>;
+  unbalancedJournals: Array<{ journalId: string; sum: number }>;
+  balanced: boolean;
+}
+
+export class LedgerService {
+  /**
+   * Moves `amount` between two accounts as a balanced journal.
+   *
+   * This is the only place allowed to change User.virtualBalance. Debiting a
+   * wallet is conditional on the balance covering the amount and throws
+   * "Insufficient balance" otherwise. Pass `tx` to join an enclosing
+   * transaction; without it the transfer runs in its own.
+   */
+  async transfer(
+    input: TransferInput,
+    tx?: Prisma.TransactionClient,
+  ): Promise<string> {
+    const stroops = toStroops(input.amount);
+    if (stroops <= 0n) {
+      throw new Error("Transfer amount must be positive");
+    }
+
+    const amount = fromStroops(stroops);
+
+    if (!tx) {
+      return prisma.$transaction((client) => this.post(client, input, amount));
+    }
+
+    return this.post(tx, input, amount);
+  }
+
+  private async post(
+    tx: Prisma.TransactionClient,
+    input: TransferInput,
+    amount: Prisma.Decimal,
+  ): Promise<string> {
+    const { from, to, type, description, roundId } = input;
+    const journalId = randomUUID();
+
+    if (from.type === LedgerAccountType.USER_WALLET) {
+      const debited = await tx.user.updateMany({
+        where: { id: from.id, virtualBalance: { gte: amount } },
+        data: { virtualBalance: { decrement: amount } },
+      });
+
+      if (debited.count === 0) {
+        const error: any = new Error("Insufficient balance");
+        error.code = "INSUFFICIENT_BALANCE";
+        throw error;
+      }
+    }
+
+    if (to.type === LedgerAccountType.USER_WALLET) {
+      await tx.user.update({
+        where: { id: to.id },
+        data: { virtualBalance: { increment: amount } },
+      });
+    }
+
+    await tx.ledgerEntry.createMany({
+      data: [
+        {
+          journalId,
+          accountType: from.type,
+          accountId: from.id,
+          amount: amount.neg(),
+          roundId,
+          description,
+        },
+        {
+          journalId,
+          accountType: to.type,
+          accountId: to.id,
+          amount,
+          roundId,
+          description,
+        },
+      ],
+    });
+
+    // Mirror wallet movements into the user-facing transaction history
+    for (const [account, signedAmount] of [
+      [from, amount.neg()],
+      [to, amount],
+    ] as const) {
+      if (account.type === LedgerAccountType.USER_WALLET) {
+        await tx.transaction.create({
+          data: {
+            userId: account.id,
+            amount: signedAmount,
+            type,
+            description,
+            roundId,
+          },
+        });
+      }
+    }
+
+    return journalId;
+  }
+
+  /**
+   * Sums the ledger entries of a single account
+   */
+  async getAccountBalance(
+    account: LedgerAccount,
+    tx?: Prisma.TransactionClient,
+  ): Promise<Prisma.Decimal> {
+    const client = tx ?? prisma;
+    const result = await client.ledgerEntry.aggregate({
+      where: { accountType: account.type, accountId: account.id },
+      _sum: { amount: true },
+    });
+
+    return new Prisma.Decimal(result._sum.amount ?? 0);
+  }
+
+  /**
+   * Proves that every journal balances and that each user's virtualBalance
+   * equals the sum of their wallet entries.
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    const [walletSums, users, journalSums] = await Promise.all([
+      prisma.ledgerEntry.groupBy({
+        by: ["accountId"],
+        where: { accountType: LedgerAccountType.USER_WALLET },
+        _sum: { amount: true },
+      }),
+      prisma.user.findMany({
+        select: { id: true, virtualBalance: true },
+      }),
+      prisma.ledgerEntry.groupBy({
+        by: ["journalId"],
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const ledgerBalances = new Map<string, MoneyValue>(
+      walletSums.map((row) => [row.accountId, row._sum.amount ?? 0]),
+    );
+
+    // Amounts are exact decimals, so balances must match to the stroop
+    const mismatchedUsers = users
+      .map((user) => ({
+        userId: user.id,
+        virtualBalance: user.virtualBalance,
+        ledgerBalance: ledgerBalances.get(user.id) ?? 0,
+      }))
+      .filter((row) => toStroops(row.virtualBalance) !== toStroops(row.ledgerBalance))
+      .map((row) => ({
+        userId: row.userId,
+        virtualBalance: toAmount(row.virtualBalance),
+        ledgerBalance: toAmount(row.ledgerBalance),
+      }));
+
+    const unbalancedJournals = journalSums
+      .filter((row) => toStroops(row._sum.amount ?? 0) !== 0n)
+      .map((row) => ({ journalId: row.journalId, sum: toAmount(row._sum.amount ?? 0) }));
+
+    const report: ReconciliationReport = {
+      checkedUsers: users.length,
+      mismatchedUsers,
+      unbalancedJournals,
+      balanced: mismatchedUsers.length === 0 && unbalancedJournals.length === 0,
+    };
+
+    if (report.balanced) {
+      logger.info(`Ledger reconciled: ${users.length} wallets match`);
+    } else {
+      logger.error("Ledger reconciliation failed", {
+        mismatchedUsers: mismatchedUsers.length,
+        unbalancedJournals: unbalancedJournals.length,
+      });
+    }
+
+    return report;
+  }
+}
+
+export default new LedgerService();
@@ -0,0 +1,237 @@
+import { Asset } from "@prisma/client";
+import priceHistoryService from "./price-history.service";
+import logger from "../utils/logger";
+import {
+  BucketConfig,
+  BucketStrategyName,
+  PriceRange,
+} from "../types/round.types";
+
+const MAX_BUCKETS = 20;
+// Volatility estimates from fewer samples than this fall back to widthPct
+const MIN_VOLATILITY_SAMPLES = 10;
+// Keep the lowest finite bound at or above this fraction of the start price
+const MIN_LOWER_BOUND_FRACTION = 0.1;
+
+/**
+ * Everything a strategy may use to pick a bucket width
+ */
+export interface BucketContext {
+  asset: Asset;
+  startPrice: number;
+  durationMinutes: number;
+  config: BucketConfig;
+}
+
+/**
+ * Decides how wide each inner LEGENDS bucket is
+ */
+export interface BucketStrategy {
+  readonly name: BucketStrategyName;
+  /** Returns the absolute width (in quote currency) of every inner bucket */
+  bucketWidth(context: BucketContext): Promise<number>;
+}
+
+/**
+ * Fixed width: `widthPct` of the start price
+ */
+export class SymmetricBucketStrategy implements BucketStrategy {
+  readonly name = "symmetric" as const;
+
+  async bucketWidth({ startPrice, config }: BucketContext): Promise<number> {
+    return (startPrice * config.widthPct) / 100;
+  }
+}
+
+/**
+ * Width scaled to the expected move over the round, from the realized
+ * volatility of recent oracle samples. Falls back to `widthPct` when there
+ * is not enough history.
+ */
+export class VolatilityBucketStrategy implements BucketStrategy {
+  readonly name = "volatility" as const;
+
+  async bucketWidth(context: BucketContext): Promise<number> {
+    const { asset, startPrice, durationMinutes, config } = context;
+    const to = new Date();
+    const from = new Date(
+      to.getTime() - config.volatilityLookbackMinutes * 60 * 1000,
+    );
+
+    const samples = await priceHistoryService.getSamples(asset, from, to);
+    const volatility = realizedVolatility(samples);
+
+    if (volatility === null || volatility === 0) {
+      logger.warn(
+        `Not enough ${asset} price history for volatility-scaled buckets (${samples.length} samples), using ${config.widthPct}% width`,
+      );
+      return new SymmetricBucketStrategy().bucketWidth(context);
+    }
+
+    // Standard deviation of the relative move over the round's duration
+    const expectedMove = volatility * Math.sqrt(durationMinutes);
+    return startPrice * expectedMove * config.volatilityMultiplier;
+  }
+}
+
+/**
+ * Standard deviation of log returns per square-root minute, or null when
+ * there are too few samples to estimate it
+ */
+export function realizedVolatility(
+  samples: { price: number; timestamp: Date }[],
+): number | null {
+  if (samples.length < MIN_VOLATILITY_SAMPLES) {
+    return null;
+  }
+
+  let sumSquares = 0;
+  let elapsedMinutes = 0;
+
+  for (let i = 1; i < samples.length; i++) {
+    const previous = samples[i - 1];
+    const current = samples[i];
+    if (previous.price <= 0 || current.price <= 0) {
+      continue;
+    }
+
+    const logReturn = Math.log(current.price / previous.price);
+    sumSquares += logReturn * logReturn;
+    elapsedMinutes +=
+      (current.timestamp.getTime() - previous.timestamp.getTime()) / 60000;
+  }
+
+  if (elapsedMinutes <= 0) {
+    return null;
+  }
+
+  return Math.sqrt(sumSquares / elapsedMinutes);
+}
+
+/**
+ * Lays out `count` buckets symmetrically around the start price: `count - 2`
+ * inner buckets of `width`, plus an open-ended tail on each side so every
+ * final price falls in exactly one bucket. With an odd count the middle
+ * bucket is centred on the start price; with an even count the start price
+ * is a boundary.
+ */
+export function buildBuckets(
+  startPrice: number,
+  width: number,
+  count: number,
+): PriceRange[] {
+  const inner = count - 2;
+
+  // Never let the lowest inner bound reach zero
+  const maxWidth =
+    inner > 0
+      ? (startPrice * (1 - MIN_LOWER_BOUND_FRACTION)) / (inner / 2)
+      : width;
+  const step = Math.min(width, maxWidth);
+
+  const lowest = startPrice - (inner / 2) * step;
+  const bounds = Array.from({ length: inner + 1 }, (_, i) => lowest + i * step);
+
+  return [
+    { min: null, max: bounds[0], pool: 0 },
+    ...bounds.slice(1).map((max, i) => ({ min: bounds[i], max, pool: 0 })),
+    { min: bounds[inner], max: null, pool: 0 },
+  ];
+}
+
+export function bucketConfigFromEnv(): BucketConfig {
+  const strategy =
+    process.env.LEGENDS_BUCKET_STRATEGY === "volatility"
+      ? "volatility"
+      : "symmetric";
+
+  return {
+    strategy,
+    count: parseInt(process.env.LEGENDS_BUCKET_COUNT || "7", 10),
+    widthPct: parseFloat(process.env.LEGENDS_BUCKET_WIDTH_PCT || "5"),
+    volatilityMultiplier: parseFloat(
+      process.env.LEGENDS_VOLATILITY_MULTIPLIER || "1",
+    ),
+    volatilityLookbackMinutes: parseInt(
+      process.env.LEGENDS_VOLATILITY_LOOKBACK_MINUTES || "60",
+      10,
+    ),
+  };
+}
+
+function invalidConfig(message: string): Error {
+  const error: any = new Error(message);
+  error.code = "INVALID_BUCKET_CONFIG";
+  return error;
+}
+
+/**
+ * Checks a bucket config, throwing INVALID_BUCKET_CONFIG when it is unusable
+ */
+export function validateBucketConfig(config: BucketConfig): void {
+  if (config.strategy !== "symmetric" && config.strategy !== "volatility") {
+    throw invalidConfig('Bucket strategy must be "symmetric" or "volatility"');
+  }
+
+  if (
+    !Number.isInteger(config.count) ||
+    config.count < 2 ||
+    config.count > MAX_BUCKETS
+  ) {
+    throw invalidConfig(`Bucket count must be an integer between 2 and ${MAX_BUCKETS}`);
+  }
+
+  if (!Number.isFinite(config.widthPct) || config.widthPct <= 0) {
+    throw invalidConfig("Bucket widthPct must be a positive number");
+  }
+
+  if (
+    !Number.isFinite(config.volatilityMultiplier) ||
+    config.volatilityMultiplier <= 0
+  ) {
+    throw invalidConfig("volatilityMultiplier must be a positive number");
+  }
+
+  if (
+    !Number.isInteger(config.volatilityLookbackMinutes) ||
+    config.volatilityLookbackMinutes <= 0
+  ) {
+    throw invalidConfig("volatilityLookbackMinutes must be a positive integer");
+  }
+}
+
+export class LegendsBucketService {
+  private readonly strategies: Record<BucketStrategyName, BucketStrategy> = {
+    symmetric: new SymmetricBucketStrategy(),
+    volatility: new VolatilityBucketStrategy(),
+  };
+
+  /**
+   * Generates the price ranges for a new LEGENDS round. `overrides` are
+   * merged over the LEGENDS_BUCKET_* environment defaults.
+   */
+  async generateBuckets(
+    asset: Asset,
+    startPrice: number,
+    durationMinutes: number,
+    overrides?: Partial<BucketConfig>,
+  ): Promise<PriceRange[]> {
+    const config = { ...bucketConfigFromEnv(), ...overrides };
+    validateBucketConfig(config);
+
+    const width = await this.strategies[config.strategy].bucketWidth({
+      asset,
+      startPrice,
+      durationMinutes,
+      config,
+    });
+
+    logger.info(
+      `Generated ${config.count} ${config.strategy} LEGENDS buckets for ${asset}: width=${width}`,
+    );
+
+    return buildBuckets(startPrice, width, config.count);
+  }
+}
+
+export default new LegendsBucketService();
@@ -7,11 +7,22 @@ interface NotificationPreferences {
   roundStart?: boolean;
   bonus?: boolean;
   announcement?: boolean;
+  roundCancelled?: boolean;
+  roundRefunded?: boolean;
 }
 
+type NotificationKind =
+  | "WIN"
+  | "LOSS"
+  | "ROUND_START"
+  | "BONUS_AVAILABLE"
+  | "ANNOUNCEMENT"
+  | "ROUND_CANCELLED"
+  | "ROUND_REFUNDED";
+
 interface CreateNotificationInput {
   userId: string;
-  type: "WIN" | "LOSS" | "ROUND_START" | "BONUS_AVAILABLE" | "ANNOUNCEMENT";
+  type: NotificationKind;
   title: string;
   message: string;
   data?: any;
@@ -30,7 +41,7 @@ class NotificationService {
    */
   private async checkPreference(
     userId: string,
-    type: "WIN" | "LOSS" | "ROUND_START" | "BONUS_AVAILABLE" | "ANNOUNCEMENT",
+    type: NotificationKind,
   ): Promise<boolean> {
     try {
       const user = await prisma.user.findUnique({
@@ -55,6 +66,10 @@ class NotificationService {
           return prefs.bonus !== false;
         case "ANNOUNCEMENT":
           return prefs.announcement !== false;
+        case "ROUND_CANCELLED":
+          return prefs.roundCancelled !== false;
+        case "ROUND_REFUNDED":
+          return prefs.roundRefunded !== false;
         default:
           return true;
       }
@@ -0,0 +1,106 @@
+import websocketService from "./websocket.service";
+import { houseFeeBps } from "./resolution.service";
+import logger from "../utils/logger";
+import { prisma } from "../lib/prisma";
+import { impliedProbability, payoutMultiplier } from "../utils/odds.util";
+import { stroopsToAmount, sumStroops, toAmount, toStroops } from "../utils/money.util";
+import { OutcomeOdds, RoundOdds } from "../types/round.types";
+
+const DEFAULT_BROADCAST_INTERVAL_MS = 1000;
+
+/**
+ * Live parimutuel odds of rounds, and the throttled round:odds broadcast
+ * that keeps clients in step with the pools
+ */
+export class OddsService {
+  // Rounds whose pools changed since their last broadcast, by pending timer
+  private pendingBroadcasts = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Implied probability and payout multiplier of every outcome of a round,
+   * from its current pools and its mode's house fee
+   */
+  async getRoundOdds(roundId: string): Promise<RoundOdds> {
+    const round = await prisma.round.findUnique({
+      where: { id: roundId },
+      include: { buckets: { orderBy: { index: "asc" } } },
+    });
+
+    if (!round) {
+      const error: any = new Error("Round not found");
+      error.code = "ROUND_NOT_FOUND";
+      throw error;
+    }
+
+    const pools =
+      round.mode === "UP_DOWN"
+        ? [
+            { side: "UP" as const, pool: round.poolUp },
+            { side: "DOWN" as const, pool: round.poolDown },
+          ]
+        : round.buckets.map(({ index, min, max, pool }) => ({ index, min, max, pool }));
+
+    const stakedStroops = sumStroops(pools.map((outcome) => outcome.pool));
+    const stakedPool = stroopsToAmount(stakedStroops);
+    const forfeitedPool = toAmount(round.forfeitedPool);
+    const totalPool = stroopsToAmount(stakedStroops + toStroops(round.forfeitedPool));
+    const feeBps = houseFeeBps(round.mode);
+
+    const outcomes: OutcomeOdds[] = pools.map(({ pool, ...outcome }) => ({
+      ...outcome,
+      pool: toAmount(pool),
+      impliedProbability: impliedProbability(toAmount(pool), stakedPool),
+      multiplier: payoutMultiplier(
+        toAmount(pool),
+        stroopsToAmount(stakedStroops - toStroops(pool)),
+        forfeitedPool,
+        feeBps,
+      ),
+    }));
+
+    return {
+      roundId: round.id,
+      mode: round.mode,
+      status: round.status,
+      feeBps,
+      totalPool,
+      forfeitedPool,
+      outcomes,
+    };
+  }
+
+  /**
+   * Queues a round:odds broadcast after a round's pools changed. Changes
+   * within ODDS_BROADCAST_INTERVAL_MS (default 1000) of the first one are
+   * sent together, so a burst of bets costs one broadcast.
+   */
+  schedulePoolsBroadcast(roundId: string): void {
+    if (this.pendingBroadcasts.has(roundId)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.pendingBroadcasts.delete(roundId);
+      void this.broadcast(roundId);
+    }, this.getBroadcastIntervalMs());
+    // A pending broadcast must not keep the process alive on shutdown
+    timer.unref();
+
+    this.pendingBroadcasts.set(roundId, timer);
+  }
+
+  private async broadcast(roundId: string): Promise<void> {
+    try {
+      websocketService.emitRoundOdds(await this.getRoundOdds(roundId));
+    } catch (error) {
+      logger.error(`Failed to broadcast odds for round ${roundId}:`, error);
+    }
+  }
+
+  private getBroadcastIntervalMs(): number {
+    const ms = parseInt(process.env.ODDS_BROADCAST_INTERVAL_MS || "", 10);
+    return ms >= 0 ? ms : DEFAULT_BROADCAST_INTERVAL_MS;
+  }
+}
+
+export default new OddsService();
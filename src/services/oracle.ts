@@ -1,14 +1,145 @@
-import axios from 'axios';
+import { Asset } from '@prisma/client';
 import logger from '../utils/logger';
+import { DEFAULT_ASSET, parseAssetList } from '../utils/asset.util';
+import { createProviders } from './price-providers';
+import {
+  AggregatedPrice,
+  AggregationMethod,
+  OracleStatus,
+  PriceListener,
+  PriceProvider,
+  PriceSample,
+  SourceHealth,
+} from '../types/oracle.types';
 
-class PriceOracle {
+export interface OracleOptions {
+  // Assets polled on every refresh
+  assets: Asset[];
+  aggregation: AggregationMethod;
+  // Samples further than this fraction from the median are discarded
+  maxDeviation: number;
+  minSources: number;
+  stalenessThresholdMs: number;
+  pollingIntervalMs: number;
+}
+
+const DEFAULT_PROVIDERS = 'coingecko,binance,kraken,stellar-dex';
+// Fraction trimmed from each end of the sorted samples for trimmed-mean
+const TRIM_FRACTION = 0.2;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function trimmedMean(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.min(
+    Math.floor(sorted.length * TRIM_FRACTION),
+    Math.floor((sorted.length - 1) / 2),
+  );
+  const kept = sorted.slice(trim, sorted.length - trim);
+  return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+}
+
+/**
+ * Combines samples from several sources into a single price.
+ * Returns null when fewer than `minSources` samples survive outlier rejection.
+ */
+export function aggregatePrices(
+  samples: PriceSample[],
+  options: Pick<OracleOptions, 'aggregation' | 'maxDeviation' | 'minSources'>,
+): AggregatedPrice | null {
+  if (samples.length === 0) {
+    return null;
+  }
+
+  const reference = median(samples.map((s) => s.price));
+  const accepted: PriceSample[] = [];
+  const rejected: string[] = [];
+
+  for (const sample of samples) {
+    if (Math.abs(sample.price - reference) / reference <= options.maxDeviation) {
+      accepted.push(sample);
+    } else {
+      rejected.push(sample.source);
+    }
+  }
+
+  if (accepted.length < options.minSources) {
+    return null;
+  }
+
+  const prices = accepted.map((s) => s.price);
+  return {
+    price: options.aggregation === 'trimmed-mean' ? trimmedMean(prices) : median(prices),
+    sources: accepted.map((s) => s.source),
+    rejected,
+  };
+}
+
+function optionsFromEnv(): OracleOptions {
+  const aggregation = process.env.ORACLE_AGGREGATION === 'trimmed-mean' ? 'trimmed-mean' : 'median';
+
+  return {
+    assets: parseAssetList(process.env.ORACLE_ASSETS),
+    aggregation,
+    maxDeviation: parseFloat(process.env.ORACLE_MAX_DEVIATION_PCT || '5') / 100,
+    minSources: parseInt(process.env.ORACLE_MIN_SOURCES || '1', 10),
+    stalenessThresholdMs: parseInt(process.env.ORACLE_STALENESS_SECONDS || '60', 10) * 1000,
+    pollingIntervalMs: 10000, // 10 seconds
+  };
+}
+
+interface AssetState {
+  price: number | null;
+  updatedAt: Date | null;
+  health: Map<string, SourceHealth>;
+}
+
+export class PriceOracle {
   private static instance: PriceOracle;
-  private price: number | null = null;
-  private readonly COINGECKO_URL = 'https://api.coingecko.com/api/v3/simple/price?ids=stellar&vs_currencies=usd';
-  private readonly POLLING_INTERVAL = 10000; // 10 seconds
+  private state = new Map<Asset, AssetState>();
   private pollingInterval: ReturnType<typeof setInterval> | null = null;
+  private listeners: PriceListener[] = [];
+  private readonly providers: PriceProvider[];
+  private readonly options: OracleOptions;
+
+  constructor(providers?: PriceProvider[], options?: Partial<OracleOptions>) {
+    this.providers =
+      providers ??
+      createProviders(
+        (process.env.ORACLE_PROVIDERS || DEFAULT_PROVIDERS)
+          .split(',')
+          .map((name) => name.trim())
+          .filter(Boolean),
+      );
+    this.options = { ...optionsFromEnv(), ...options };
 
-  private constructor() {}
+    for (const asset of this.options.assets) {
+      const health = new Map<string, SourceHealth>();
+
+      for (const provider of this.providersFor(asset)) {
+        health.set(provider.name, {
+          source: provider.name,
+          healthy: false,
+          lastPrice: null,
+          lastSuccessAt: null,
+          lastErrorAt: null,
+          lastError: null,
+          consecutiveFailures: 0,
+          rejectedAsOutlier: false,
+        });
+      }
+
+      if (health.size === 0) {
+        logger.warn(`No configured price source quotes ${asset}`);
+      }
+
+      this.state.set(asset, { price: null, updatedAt: null, health });
+    }
+  }
 
   public static getInstance(): PriceOracle {
     if (!PriceOracle.instance) {
@@ -17,16 +148,25 @@ class PriceOracle {
     return PriceOracle.instance;
   }
 
+  /**
+   * Assets this oracle polls
+   */
+  public getAssets(): Asset[] {
+    return [...this.options.assets];
+  }
+
   public startPolling(): void {
     // Initial fetch
-    this.fetchPrice();
+    this.refresh();
 
     // Start polling interval
     this.pollingInterval = setInterval(() => {
-      this.fetchPrice();
-    }, this.POLLING_INTERVAL);
+      this.refresh();
+    }, this.options.pollingIntervalMs);
 
-    logger.info('Price Oracle polling started');
+    logger.info(
+      `Price Oracle polling started (assets: ${this.options.assets.join(', ')}; sources: ${this.providers.map((p) => p.name).join(', ')})`,
+    );
   }
 
   public stopPolling(): void {
@@ -37,23 +177,123 @@ class PriceOracle {
     }
   }
 
-  private async fetchPrice(): Promise<void> {
-    try {
-      const response = await axios.get(this.COINGECKO_URL);
-      if (response.data && response.data.stellar && response.data.stellar.usd) {
-        this.price = response.data.stellar.usd;
-        logger.info(`Fetched XLM price: $${this.price}`);
+  /**
+   * Polls every source once for every asset and updates the aggregated prices.
+   * On failure the previous price is kept but expires after the staleness threshold.
+   */
+  public async refresh(): Promise<void> {
+    await Promise.all(this.options.assets.map((asset) => this.refreshAsset(asset)));
+  }
+
+  private async refreshAsset(asset: Asset): Promise<void> {
+    const state = this.state.get(asset)!;
+    const providers = this.providersFor(asset);
+    const results = await Promise.allSettled(providers.map((p) => p.fetchPrice(asset)));
+    const samples: PriceSample[] = [];
+    const now = new Date().toISOString();
+
+    results.forEach((result, index) => {
+      const health = state.health.get(providers[index].name)!;
+
+      if (result.status === 'fulfilled') {
+        samples.push({ source: health.source, price: result.value });
+        health.lastPrice = result.value;
+        health.lastSuccessAt = now;
+        health.consecutiveFailures = 0;
+        health.healthy = true;
       } else {
-        logger.warn('Invalid response structure from CoinGecko:', response.data);
+        health.lastErrorAt = now;
+        health.lastError = result.reason?.message ?? String(result.reason);
+        health.consecutiveFailures += 1;
+        health.healthy = false;
+        logger.warn(`Price source ${health.source} failed for ${asset}: ${health.lastError}`);
+      }
+    });
+
+    const aggregated = aggregatePrices(samples, this.options);
+
+    for (const health of state.health.values()) {
+      health.rejectedAsOutlier = aggregated?.rejected.includes(health.source) ?? false;
+      if (health.rejectedAsOutlier) {
+        health.healthy = false;
+      }
+    }
+
+    if (!aggregated) {
+      logger.warn(
+        `Price Oracle could not aggregate a ${asset} price (${samples.length} samples, ${this.options.minSources} required)`,
+      );
+      return;
+    }
+
+    if (aggregated.rejected.length > 0) {
+      logger.warn(`Rejected outlier ${asset} price sources: ${aggregated.rejected.join(', ')}`);
+    }
+
+    state.price = aggregated.price;
+    state.updatedAt = new Date();
+    logger.info(`Fetched ${asset} price: ${state.price} (sources: ${aggregated.sources.join(', ')})`);
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(asset, aggregated.price, aggregated.sources, state.updatedAt);
+      } catch (error: any) {
+        logger.error('Price listener failed:', error.message);
       }
-    } catch (error: any) {
-      logger.error('Error fetching XLM price:', error.message);
-      // Just log the error. Price remains old value if it exists, or null.
     }
   }
 
-  public getPrice(): number | null {
-    return this.price;
+  /**
+   * Registers a callback invoked with every newly aggregated price
+   */
+  public onPrice(listener: PriceListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Returns the aggregated price of an asset, or null when it is missing,
+   * not polled, or older than the staleness threshold.
+   */
+  public getPrice(asset: Asset = DEFAULT_ASSET): number | null {
+    const state = this.state.get(asset);
+    if (!state || state.price === null || !state.updatedAt) {
+      return null;
+    }
+
+    if (Date.now() - state.updatedAt.getTime() > this.options.stalenessThresholdMs) {
+      return null;
+    }
+
+    return state.price;
+  }
+
+  /**
+   * Returns null for assets this oracle does not poll
+   */
+  public getStatus(asset: Asset = DEFAULT_ASSET): OracleStatus | null {
+    const state = this.state.get(asset);
+    if (!state) {
+      return null;
+    }
+
+    const price = this.getPrice(asset);
+
+    return {
+      asset,
+      price,
+      available: price !== null,
+      updatedAt: state.updatedAt?.toISOString() ?? null,
+      stalenessThresholdMs: this.options.stalenessThresholdMs,
+      aggregation: this.options.aggregation,
+      sources: Array.from(state.health.values()).map((h) => ({ ...h })),
+    };
+  }
+
+  private providersFor(asset: Asset): PriceProvider[] {
+    return this.providers.filter((provider) => provider.supports(asset));
   }
 }
 
@@ -1,51 +1,267 @@
+import { Prisma, Round, RoundBucket } from "@prisma/client";
 import sorobanService from "./soroban.service";
 import websocketService from "./websocket.service";
+import oddsService from "./odds.service";
+import ledgerService, { ledgerAccounts } from "./ledger.service";
 import logger from "../utils/logger";
 import { prisma } from "../lib/prisma";
+import { ON_CHAIN_ASSET } from "../utils/asset.util";
+import { summarizePositions } from "../utils/position.util";
+import { projectedPayout } from "../utils/odds.util";
+import {
+  fromStroops,
+  isStroopPrecise,
+  PREDICTION_AMOUNT_FIELDS,
+  ROUND_AMOUNT_FIELDS,
+  stroopsToAmount,
+  sumStroops,
+  toAmount,
+  toStroops,
+  withAmounts,
+} from "../utils/money.util";
+import {
+  CashOutResult,
+  PayoutQuote,
+  PredictionRange,
+  RoundPosition,
+} from "../types/round.types";
 
-interface PriceRange {
-  min: number;
-  max: number;
+const DEFAULT_MAX_BETS_PER_ROUND = 10;
+const DEFAULT_CASH_OUT_FEE_PERCENT = 10;
+
+// Covers the contract call made inside the bet transaction; interactive
+// transactions default to a 5s timeout
+const PLACE_BET_TX_TIMEOUT_MS = 30000;
+
+/**
+ * HTTP status for each error code thrown by submitPrediction, shared by every
+ * route that places bets so both game modes fail the same way
+ */
+export const PREDICTION_ERROR_STATUS: Record<string, number> = {
+  INVALID_AMOUNT: 400,
+  INVALID_SIDE: 400,
+  INVALID_RANGE: 400,
+  ROUND_NOT_ACTIVE: 400,
+  ROUND_LOCKED: 400,
+  INSUFFICIENT_BALANCE: 400,
+  STAKE_LIMIT_EXCEEDED: 400,
+  ROUND_NOT_FOUND: 404,
+  USER_NOT_FOUND: 404,
+  PREDICTION_NOT_FOUND: 404,
+  BET_LIMIT_REACHED: 409,
+  ALREADY_WITHDRAWN: 409,
+  ON_CHAIN_BET: 409,
+};
+
+function predictionError(code: string, message: string): Error {
+  const error: any = new Error(message);
+  error.code = code;
+  return error;
+}
+
+/**
+ * Per-user limits on one round: MAX_BETS_PER_USER_PER_ROUND bets (default
+ * 10) and, when set, MAX_STAKE_PER_USER_PER_ROUND staked in total
+ */
+function getBetLimits(): { maxBets: number; maxStake: number | null } {
+  const maxBets = parseInt(process.env.MAX_BETS_PER_USER_PER_ROUND || "", 10);
+  const maxStake = parseFloat(process.env.MAX_STAKE_PER_USER_PER_ROUND || "");
+
+  return {
+    maxBets: maxBets > 0 ? maxBets : DEFAULT_MAX_BETS_PER_ROUND,
+    maxStake: maxStake > 0 ? maxStake : null,
+  };
+}
+
+/**
+ * Whether bets on the round are mirrored on the Soroban contract (only XLM
+ * Up/Down rounds are)
+ */
+function isOnChainRound(round: Pick<Round, "mode" | "asset">): boolean {
+  return round.mode === "UP_DOWN" && round.asset === ON_CHAIN_ASSET;
+}
+
+/**
+ * Throws unless one more bet of `amount` fits the user's limits on the round.
+ * The contract takes a single bet per user and round, so on-chain rounds
+ * allow no second bet.
+ */
+async function assertWithinBetLimits(
+  client: Pick<Prisma.TransactionClient, "prediction">,
+  round: Pick<Round, "id" | "mode" | "asset">,
+  userId: string,
+  amount: number,
+): Promise<void> {
+  const { maxBets, maxStake } = getBetLimits();
+  const placed = await client.prediction.aggregate({
+    where: { roundId: round.id, userId, withdrawnAt: null },
+    _count: { _all: true },
+    _sum: { amount: true },
+  });
+
+  if (isOnChainRound(round) && placed._count._all > 0) {
+    throw predictionError(
+      "ON_CHAIN_BET",
+      `Bets on ${ON_CHAIN_ASSET} Up/Down rounds are placed on-chain, which takes one bet per user and round`,
+    );
+  }
+
+  if (placed._count._all >= maxBets) {
+    throw predictionError(
+      "BET_LIMIT_REACHED",
+      `At most ${maxBets} bets per user are allowed on a round`,
+    );
+  }
+
+  const staked = toStroops(placed._sum.amount ?? 0);
+  if (maxStake !== null && staked + toStroops(amount) > toStroops(maxStake)) {
+    throw predictionError(
+      "STAKE_LIMIT_EXCEEDED",
+      `Total stake on a round cannot exceed ${maxStake} (already staked ${stroopsToAmount(staked)})`,
+    );
+  }
+}
+
+/**
+ * Share of the stake kept when a bet is cashed out, CASH_OUT_FEE_PERCENT
+ * (default 10)
+ */
+function getCashOutFeePercent(): number {
+  const percent = parseFloat(process.env.CASH_OUT_FEE_PERCENT || "");
+  return percent >= 0 && percent <= 100 ? percent : DEFAULT_CASH_OUT_FEE_PERCENT;
+}
+
+/**
+ * Throws unless the round is ACTIVE and its betting window is still open
+ * (even if the lock timer has not fired yet). Rounds mirrored on the
+ * contract open once their on-chain round is recorded, since the contract
+ * takes bets on its current round.
+ */
+function assertBettingOpen(
+  round: Pick<Round, "status" | "lockTime" | "endTime" | "mode" | "asset" | "sorobanRoundId">,
+): void {
+  if (round.status !== "ACTIVE") {
+    throw predictionError("ROUND_NOT_ACTIVE", "Round is not active");
+  }
+
+  if (isOnChainRound(round) && !round.sorobanRoundId) {
+    throw predictionError("ROUND_NOT_ACTIVE", "Round is not open for betting yet");
+  }
+
+  if (Date.now() >= (round.lockTime ?? round.endTime).getTime()) {
+    throw predictionError("ROUND_LOCKED", "Betting is closed for this round");
+  }
+}
+
+/**
+ * Checks a bet of `amount` against the round's stake limits and game mode
+ * @returns The LEGENDS bucket the bet is placed on (undefined for UP_DOWN)
+ */
+async function validateBetChoice(
+  round: Round,
+  amount: number,
+  side: "UP" | "DOWN" | undefined,
+  rangeIndex: number | undefined,
+): Promise<RoundBucket | undefined> {
+  // Stake limits of rounds created from a template
+  if (round.minStake !== null && round.minStake.gt(amount)) {
+    throw predictionError(
+      "INVALID_AMOUNT",
+      `Amount must be at least ${round.minStake} for this round`,
+    );
+  }
+  if (round.maxStake !== null && round.maxStake.lt(amount)) {
+    throw predictionError(
+      "INVALID_AMOUNT",
+      `Amount must be at most ${round.maxStake} for this round`,
+    );
+  }
+
+  let selected: RoundBucket | undefined;
+
+  if (round.mode === "UP_DOWN") {
+    if (side !== "UP" && side !== "DOWN") {
+      throw predictionError(
+        "INVALID_SIDE",
+        "Side (UP/DOWN) is required for UP_DOWN mode",
+      );
+    }
+    if (rangeIndex !== undefined) {
+      throw predictionError(
+        "INVALID_RANGE",
+        "rangeIndex is only valid for LEGENDS mode",
+      );
+    }
+  } else {
+    const buckets = await prisma.roundBucket.findMany({
+      where: { roundId: round.id },
+      orderBy: { index: "asc" },
+    });
+
+    selected = Number.isInteger(rangeIndex)
+      ? buckets.find((bucket) => bucket.index === rangeIndex)
+      : undefined;
+
+    if (!selected) {
+      throw predictionError(
+        "INVALID_RANGE",
+        `rangeIndex must be an integer between 0 and ${buckets.length - 1} for LEGENDS mode`,
+      );
+    }
+    if (side !== undefined) {
+      throw predictionError("INVALID_SIDE", "side is only valid for UP_DOWN mode");
+    }
+  }
+
+  return selected;
 }
 
 export class PredictionService {
   /**
-   * Submits a prediction for a round
+   * Submits a prediction for a round. UP_DOWN rounds take a side,
+   * LEGENDS rounds the index of one of the round's price ranges. A user may
+   * bet on a round several times (topping up or hedging) within the
+   * per-user bet and stake limits, except on rounds mirrored on the
+   * contract, which takes one bet per user.
+   *
+   * The checks that depend on shared state (round open, bet limits,
+   * balance) are repeated inside a single transaction holding the round's
+   * row lock, so concurrent bets cannot overdraw a balance, exceed the
+   * limits or land after the round locked.
    */
   async submitPrediction(
     userId: string,
     roundId: string,
     amount: number,
     side?: "UP" | "DOWN",
-    priceRange?: PriceRange,
+    rangeIndex?: number,
   ): Promise<any> {
     try {
+      if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+        throw predictionError("INVALID_AMOUNT", "Amount must be a positive number");
+      }
+      if (!isStroopPrecise(amount)) {
+        throw predictionError("INVALID_AMOUNT", "Amount cannot have more than 7 decimals");
+      }
+
       // Get round
       const round = await prisma.round.findUnique({
         where: { id: roundId },
       });
 
       if (!round) {
-        throw new Error("Round not found");
+        throw predictionError("ROUND_NOT_FOUND", "Round not found");
       }
 
-      if (round.status !== "ACTIVE") {
-        throw new Error("Round is not active");
-      }
+      // Checked again under the round lock; failing early skips the transaction
+      assertBettingOpen(round);
 
-      // Check if user already has a prediction for this round
-      const existingPrediction = await prisma.prediction.findUnique({
-        where: {
-          roundId_userId: {
-            roundId,
-            userId,
-          },
-        },
-      });
+      // Validate the stake and the mode-specific choice before touching any
+      // balances
+      const selected = await validateBetChoice(round, amount, side, rangeIndex);
 
-      if (existingPrediction) {
-        throw new Error("User has already placed a prediction for this round");
-      }
+      // Also checked again under the round lock
+      await assertWithinBetLimits(prisma, round, userId, amount);
 
       // Get user
       const user = await prisma.user.findUnique({
@@ -53,117 +269,302 @@ export class PredictionService {
       });
 
       if (!user) {
-        throw new Error("User not found");
+        throw predictionError("USER_NOT_FOUND", "User not found");
       }
 
-      // Check balance
-      if (user.virtualBalance < amount) {
-        throw new Error("Insufficient balance");
+      // Check balance (the debit itself is conditional, see LedgerService)
+      if (user.virtualBalance.lt(amount)) {
+        throw predictionError("INSUFFICIENT_BALANCE", "Insufficient balance");
       }
 
-      // Mode-specific logic
-      if (round.mode === "UP_DOWN") {
-        if (!side) {
-          throw new Error("Side (UP/DOWN) is required for UP_DOWN mode");
-        }
+      const priceRange: PredictionRange | undefined = selected && {
+        index: selected.index,
+        min: selected.min,
+        max: selected.max,
+      };
 
-        // Call Soroban contract
-        await sorobanService.placeBet(user.walletAddress, amount, side);
+      const prediction = await prisma.$transaction(
+        async (tx) => {
+          // Serialize bets on this round with each other and with lock,
+          // resolve and cancel, which all update the round row
+          await tx.$queryRaw`SELECT "id" FROM "Round" WHERE "id" = ${roundId} FOR UPDATE`;
 
-        // Create prediction in database
-        const prediction = await prisma.prediction.create({
-          data: {
-            roundId,
-            userId,
-            amount,
-            side,
-          },
-        });
+          const current = await tx.round.findUniqueOrThrow({
+            where: { id: roundId },
+          });
+          assertBettingOpen(current);
+          await assertWithinBetLimits(tx, current, userId, amount);
 
-        // Update user balance
-        await prisma.user.update({
-          where: { id: userId },
-          data: {
-            virtualBalance: user.virtualBalance - amount,
-          },
-        });
+          // Create prediction in database
+          const created = await tx.prediction.create({
+            data: {
+              roundId,
+              userId,
+              amount,
+              side,
+              priceRange: priceRange as any,
+            },
+          });
 
-        // Update round pools
-        await prisma.round.update({
-          where: { id: roundId },
-          data: {
-            poolUp: side === "UP" ? { increment: amount } : undefined,
-            poolDown: side === "DOWN" ? { increment: amount } : undefined,
-          },
-        });
+          // Move the stake from the user's wallet into round escrow; throws
+          // INSUFFICIENT_BALANCE if a concurrent bet spent the balance first
+          await ledgerService.transfer(
+            {
+              from: ledgerAccounts.wallet(userId),
+              to: ledgerAccounts.escrow(roundId),
+              amount,
+              type: "BET",
+              description: priceRange
+                ? `Bet on range #${priceRange.index} [${priceRange.min}, ${priceRange.max}] in round ${roundId}`
+                : `Bet ${side} on round ${roundId}`,
+              roundId,
+            },
+            tx,
+          );
 
-        logger.info(
-          `Prediction submitted (UP_DOWN): user=${userId}, round=${roundId}, side=${side}`,
-        );
+          // Update the pool in place; concurrent bets add up instead of
+          // overwriting each other
+          if (priceRange) {
+            await tx.roundBucket.update({
+              where: { roundId_index: { roundId, index: priceRange.index } },
+              data: { pool: { increment: amount } },
+            });
+          } else {
+            await tx.round.update({
+              where: { id: roundId },
+              data: {
+                poolUp: side === "UP" ? { increment: amount } : undefined,
+                poolDown: side === "DOWN" ? { increment: amount } : undefined,
+              },
+            });
+          }
 
-        return prediction;
-      } else if (round.mode === "LEGENDS") {
-        if (!priceRange) {
-          throw new Error("Price range is required for LEGENDS mode");
-        }
+          // Mirror the bet on the contract last, once every check under the
+          // lock has passed; a failed call rolls the bet back
+          if (isOnChainRound(current)) {
+            await sorobanService.placeBet(user.walletAddress, amount, side!);
+          }
+
+          return created;
+        },
+        { timeout: PLACE_BET_TX_TIMEOUT_MS },
+      );
+
+      oddsService.schedulePoolsBroadcast(roundId);
+
+      logger.info(
+        priceRange
+          ? `Prediction submitted (LEGENDS): user=${userId}, round=${roundId}, rangeIndex=${priceRange.index}`
+          : `Prediction submitted (UP_DOWN): user=${userId}, round=${roundId}, side=${side}`,
+      );
+
+      return prediction;
+    } catch (error) {
+      logger.error("Failed to submit prediction:", error);
+      throw error;
+    }
+  }
 
-        // Validate price range exists in round
-        const ranges = round.priceRanges as any[];
-        const validRange = ranges.find(
-          (r) => r.min === priceRange.min && r.max === priceRange.max,
-        );
+  /**
+   * Withdraws a bet while its round is still open for betting. The stake
+   * minus a CASH_OUT_FEE_PERCENT penalty goes back to the user; the penalty
+   * stays in the round's escrow as forfeitedPool and is paid to the winners.
+   * Bets mirrored on the Soroban contract (XLM Up/Down) cannot be cashed out.
+   *
+   * Runs under the round's row lock like submitPrediction, so a cash-out
+   * cannot race the lock, resolution or another withdrawal of the same bet.
+   */
+  async cashOut(userId: string, predictionId: string): Promise<CashOutResult> {
+    try {
+      const prediction = await prisma.prediction.findUnique({
+        where: { id: predictionId },
+      });
 
-        if (!validRange) {
-          throw new Error("Invalid price range");
+      // Other users' bets are reported as missing rather than forbidden
+      if (!prediction || prediction.userId !== userId) {
+        throw predictionError("PREDICTION_NOT_FOUND", "Prediction not found");
+      }
+
+      if (prediction.withdrawnAt) {
+        throw predictionError("ALREADY_WITHDRAWN", "Prediction has already been cashed out");
+      }
+
+      const { roundId, amount, side } = prediction;
+      const range = prediction.priceRange as PredictionRange | null;
+      // The fee is rounded down to the stroop, in the user's favour
+      const feeStroops = toStroops(amount.mul(getCashOutFeePercent()).div(100));
+      const refundStroops = toStroops(amount) - feeStroops;
+      const fee = stroopsToAmount(feeStroops);
+      const refund = stroopsToAmount(refundStroops);
+
+      const { round, withdrawnAt } = await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT "id" FROM "Round" WHERE "id" = ${roundId} FOR UPDATE`;
+
+        const current = await tx.round.findUniqueOrThrow({ where: { id: roundId } });
+        assertBettingOpen(current);
+
+        // The contract has no withdrawal entry point, so it would still pay a
+        // mirrored bet out at resolution
+        if (isOnChainRound(current)) {
+          throw predictionError(
+            "ON_CHAIN_BET",
+            `Bets on ${ON_CHAIN_ASSET} Up/Down rounds are placed on-chain and cannot be cashed out`,
+          );
         }
 
-        // Create prediction in database
-        const prediction = await prisma.prediction.create({
-          data: {
-            roundId,
-            userId,
-            amount,
-            priceRange: priceRange as any,
-          },
+        const withdrawnAt = new Date();
+        const claimed = await tx.prediction.updateMany({
+          where: { id: predictionId, withdrawnAt: null },
+          data: { withdrawnAt, withdrawalFee: fromStroops(feeStroops) },
         });
 
-        // Update user balance
-        await prisma.user.update({
-          where: { id: userId },
-          data: {
-            virtualBalance: user.virtualBalance - amount,
-          },
-        });
+        if (claimed.count === 0) {
+          throw predictionError("ALREADY_WITHDRAWN", "Prediction has already been cashed out");
+        }
 
-        // Update price range pool
-        const updatedRanges = ranges.map((r) => {
-          if (r.min === priceRange.min && r.max === priceRange.max) {
-            return { ...r, pool: r.pool + amount };
-          }
-          return r;
-        });
+        // The whole stake leaves its side or bucket; the fee is forfeited to
+        // the winners
+        if (typeof range?.index === "number") {
+          await tx.roundBucket.update({
+            where: { roundId_index: { roundId, index: range.index } },
+            data: { pool: { decrement: amount } },
+          });
+        }
 
-        await prisma.round.update({
+        const round = await tx.round.update({
           where: { id: roundId },
           data: {
-            priceRanges: updatedRanges as any,
+            poolUp: side === "UP" ? { decrement: amount } : undefined,
+            poolDown: side === "DOWN" ? { decrement: amount } : undefined,
+            forfeitedPool: { increment: fromStroops(feeStroops) },
           },
         });
 
-        logger.info(
-          `Prediction submitted (LEGENDS): user=${userId}, round=${roundId}, range=${JSON.stringify(priceRange)}`,
-        );
+        if (refundStroops > 0n) {
+          await ledgerService.transfer(
+            {
+              from: ledgerAccounts.escrow(roundId),
+              to: ledgerAccounts.wallet(userId),
+              amount: fromStroops(refundStroops),
+              type: "CASH_OUT",
+              description: `Cash-out of bet ${predictionId} in round ${roundId} (fee ${fee})`,
+              roundId,
+            },
+            tx,
+          );
+        }
 
-        return prediction;
-      }
+        return { round, withdrawnAt };
+      });
 
-      throw new Error("Invalid game mode");
+      websocketService.emitPredictionWithdrawn(prediction, round, fee);
+      oddsService.schedulePoolsBroadcast(roundId);
+
+      logger.info(
+        `Prediction cashed out: user=${userId}, round=${roundId}, prediction=${predictionId}, refund=${refund}, fee=${fee}`,
+      );
+
+      return { id: predictionId, roundId, amount: toAmount(amount), fee, refund, withdrawnAt };
     } catch (error) {
-      logger.error("Failed to submit prediction:", error);
+      logger.error("Failed to cash out prediction:", error);
       throw error;
     }
   }
 
+  /**
+   * What a stake would pay if placed now and its outcome won, with the
+   * stake's own weight added to its pool. The stake is checked like a real
+   * bet (round open, stake limits, side or range) but nothing is placed.
+   */
+  async quote(
+    roundId: string,
+    amount: number,
+    side?: "UP" | "DOWN",
+    rangeIndex?: number,
+  ): Promise<PayoutQuote> {
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+      throw predictionError("INVALID_AMOUNT", "Amount must be a positive number");
+    }
+    if (!isStroopPrecise(amount)) {
+      throw predictionError("INVALID_AMOUNT", "Amount cannot have more than 7 decimals");
+    }
+
+    const round = await prisma.round.findUnique({
+      where: { id: roundId },
+    });
+
+    if (!round) {
+      throw predictionError("ROUND_NOT_FOUND", "Round not found");
+    }
+
+    assertBettingOpen(round);
+    await validateBetChoice(round, amount, side, rangeIndex);
+
+    const odds = await oddsService.getRoundOdds(roundId);
+    const outcome = odds.outcomes.find((candidate) =>
+      round.mode === "UP_DOWN" ? candidate.side === side : candidate.index === rangeIndex,
+    )!;
+    const counterPool = stroopsToAmount(
+      sumStroops(
+        odds.outcomes
+          .filter((candidate) => candidate !== outcome)
+          .map((candidate) => candidate.pool),
+      ),
+    );
+    const payout = projectedPayout(
+      amount,
+      outcome.pool,
+      counterPool,
+      odds.forfeitedPool,
+      odds.feeBps,
+    );
+
+    return {
+      roundId,
+      amount,
+      side: side ?? null,
+      rangeIndex: rangeIndex ?? null,
+      feeBps: odds.feeBps,
+      outcomePool: outcome.pool + amount,
+      multiplier: payout / amount,
+      payout,
+      profit: payout - amount,
+    };
+  }
+
+  /**
+   * The user's combined bets on a round, without cashed-out ones. A user
+   * without bets gets an empty position.
+   */
+  async getPosition(roundId: string, userId: string): Promise<RoundPosition> {
+    const round = await prisma.round.findUnique({
+      where: { id: roundId },
+      select: { id: true },
+    });
+
+    if (!round) {
+      throw predictionError("ROUND_NOT_FOUND", "Round not found");
+    }
+
+    const predictions = await prisma.prediction.findMany({
+      where: { roundId, userId, withdrawnAt: null },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return (
+      summarizePositions(predictions).get(`${roundId}:${userId}`) ?? {
+        roundId,
+        userId,
+        bets: 0,
+        totalStake: 0,
+        sides: { UP: 0, DOWN: 0 },
+        ranges: [],
+        payout: null,
+        profit: null,
+      }
+    );
+  }
+
   /**
    * Gets user's predictions
    */
@@ -179,7 +580,10 @@ export class PredictionService {
         },
       });
 
-      return predictions;
+      return predictions.map(({ round, ...prediction }) => ({
+        ...withAmounts(prediction, PREDICTION_AMOUNT_FIELDS),
+        round: withAmounts(round, ROUND_AMOUNT_FIELDS),
+      }));
     } catch (error) {
       logger.error("Failed to get user predictions:", error);
       throw error;
@@ -203,7 +607,9 @@ export class PredictionService {
         },
       });
 
-      return predictions;
+      return predictions.map((prediction) =>
+        withAmounts(prediction, PREDICTION_AMOUNT_FIELDS),
+      );
     } catch (error) {
       logger.error("Failed to get round predictions:", error);
       throw error;
@@ -0,0 +1,157 @@
+import { randomUUID } from "crypto";
+import { PriceHistory } from "@prisma/client";
+import logger from "../utils/logger";
+import { prisma } from "../lib/prisma";
+import {
+  Candle,
+  CandleInterval,
+  CANDLE_INTERVALS,
+} from "../types/price.types";
+
+/**
+ * Start of the candle bucket containing `timestamp`
+ */
+export function candleOpenTime(
+  timestamp: Date,
+  interval: CandleInterval,
+): Date {
+  const size = CANDLE_INTERVALS[interval];
+  return new Date(Math.floor(timestamp.getTime() / size) * size);
+}
+
+export class PriceHistoryService {
+  /**
+   * Persists an oracle sample and folds it into every candle interval
+   */
+  async recordSample(
+    asset: string,
+    price: number,
+    sources: string[],
+    timestamp: Date = new Date(),
+  ): Promise<void> {
+    try {
+      await prisma.priceHistory.create({
+        data: { asset, price, sources, timestamp },
+      });
+
+      for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+        const openTime = candleOpenTime(timestamp, interval);
+
+        // Single upsert so concurrent samples cannot lose a high/low
+        await prisma.$executeRaw`
+          INSERT INTO "PriceCandle" ("id", "asset", "interval", "openTime", "open", "high", "low", "close", "sampleCount", "updatedAt")
+          VALUES (${randomUUID()}, ${asset}, ${interval}, ${openTime}, ${price}, ${price}, ${price}, ${price}, 1, NOW())
+          ON CONFLICT ("asset", "interval", "openTime") DO UPDATE SET
+            "high" = GREATEST("PriceCandle"."high", EXCLUDED."high"),
+            "low" = LEAST("PriceCandle"."low", EXCLUDED."low"),
+            "close" = EXCLUDED."close",
+            "sampleCount" = "PriceCandle"."sampleCount" + 1,
+            "updatedAt" = NOW()
+        `;
+      }
+    } catch (error) {
+      logger.error("Failed to record price sample:", error);
+    }
+  }
+
+  /**
+   * Gets the latest sample taken at or before `at`, provided it is no older
+   * than `toleranceMs`. Returns null when no such sample exists.
+   */
+  async getSampleAt(
+    asset: string,
+    at: Date,
+    toleranceMs: number,
+  ): Promise<PriceHistory | null> {
+    try {
+      return await prisma.priceHistory.findFirst({
+        where: {
+          asset,
+          timestamp: {
+            lte: at,
+            gte: new Date(at.getTime() - toleranceMs),
+          },
+        },
+        orderBy: { timestamp: "desc" },
+      });
+    } catch (error) {
+      logger.error("Failed to get price sample:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets raw samples taken within [from, to], oldest first
+   */
+  async getSamples(
+    asset: string,
+    from: Date,
+    to: Date,
+  ): Promise<Pick<PriceHistory, "price" | "timestamp">[]> {
+    try {
+      return await prisma.priceHistory.findMany({
+        where: { asset, timestamp: { gte: from, lte: to } },
+        select: { price: true, timestamp: true },
+        orderBy: { timestamp: "asc" },
+      });
+    } catch (error) {
+      logger.error("Failed to get price samples:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets candles whose open time falls within [from, to]
+   */
+  async getCandles(
+    asset: string,
+    interval: CandleInterval,
+    from: Date,
+    to: Date,
+  ): Promise<Candle[]> {
+    try {
+      const candles = await prisma.priceCandle.findMany({
+        where: {
+          asset,
+          interval,
+          openTime: {
+            gte: candleOpenTime(from, interval),
+            lte: to,
+          },
+        },
+        orderBy: { openTime: "asc" },
+      });
+
+      return candles.map((candle) => ({
+        openTime: candle.openTime.toISOString(),
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        samples: candle.sampleCount,
+      }));
+    } catch (error) {
+      logger.error("Failed to get price candles:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes raw samples older than the retention window. Candles are kept.
+   */
+  async cleanupOldSamples(daysOld: number): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - daysOld * 24 * 60 * 60 * 1000);
+      const result = await prisma.priceHistory.deleteMany({
+        where: { timestamp: { lt: cutoff } },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error("Failed to cleanup old price samples:", error);
+      throw error;
+    }
+  }
+}
+
+export default new PriceHistoryService();
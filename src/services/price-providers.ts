@@ -0,0 +1,223 @@
+import fs from "fs";
+import axios from "axios";
+import { Asset } from "@prisma/client";
+import { PriceProvider } from "../types/oracle.types";
+import logger from "../utils/logger";
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Circle USDC on Stellar mainnet, used as the USD leg for the DEX orderbook
+const USDC_ISSUER = "GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+
+function parsePrice(value: unknown, source: string): number {
+  const price = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof price !== "number" || !Number.isFinite(price) || price <= 0) {
+    throw new Error(`Invalid price from ${source}: ${JSON.stringify(value)}`);
+  }
+  return price;
+}
+
+// CoinGecko coin id and vs_currency per asset
+const COINGECKO_IDS: Partial<Record<Asset, { id: string; vs: string }>> = {
+  XLM: { id: "stellar", vs: "usd" },
+  BTC: { id: "bitcoin", vs: "usd" },
+  ETH: { id: "ethereum", vs: "usd" },
+  USDC_XLM: { id: "usd-coin", vs: "xlm" },
+};
+
+// Binance only lists XLM/USDC, so USDC_XLM is its inverse
+const BINANCE_SYMBOLS: Partial<Record<Asset, { symbol: string; invert?: boolean }>> = {
+  XLM: { symbol: "XLMUSDT" },
+  BTC: { symbol: "BTCUSDT" },
+  ETH: { symbol: "ETHUSDT" },
+  USDC_XLM: { symbol: "XLMUSDC", invert: true },
+};
+
+const KRAKEN_PAIRS: Partial<Record<Asset, string>> = {
+  XLM: "XLMUSD",
+  BTC: "XBTUSD",
+  ETH: "ETHUSD",
+};
+
+function unsupported(source: string, asset: Asset): Error {
+  return new Error(`${source} does not quote ${asset}`);
+}
+
+export class CoinGeckoProvider implements PriceProvider {
+  readonly name = "coingecko";
+  private readonly url = "https://api.coingecko.com/api/v3/simple/price";
+
+  supports(asset: Asset): boolean {
+    return asset in COINGECKO_IDS;
+  }
+
+  async fetchPrice(asset: Asset): Promise<number> {
+    const coin = COINGECKO_IDS[asset];
+    if (!coin) {
+      throw unsupported(this.name, asset);
+    }
+
+    const response = await axios.get(this.url, {
+      timeout: REQUEST_TIMEOUT_MS,
+      params: { ids: coin.id, vs_currencies: coin.vs },
+    });
+    return parsePrice(response.data?.[coin.id]?.[coin.vs], this.name);
+  }
+}
+
+export class BinanceProvider implements PriceProvider {
+  readonly name = "binance";
+  private readonly url = "https://api.binance.com/api/v3/ticker/price";
+
+  supports(asset: Asset): boolean {
+    return asset in BINANCE_SYMBOLS;
+  }
+
+  async fetchPrice(asset: Asset): Promise<number> {
+    const market = BINANCE_SYMBOLS[asset];
+    if (!market) {
+      throw unsupported(this.name, asset);
+    }
+
+    const response = await axios.get(this.url, {
+      timeout: REQUEST_TIMEOUT_MS,
+      params: { symbol: market.symbol },
+    });
+    const price = parsePrice(response.data?.price, this.name);
+    return market.invert ? 1 / price : price;
+  }
+}
+
+export class KrakenProvider implements PriceProvider {
+  readonly name = "kraken";
+  private readonly url = "https://api.kraken.com/0/public/Ticker";
+
+  supports(asset: Asset): boolean {
+    return asset in KRAKEN_PAIRS;
+  }
+
+  async fetchPrice(asset: Asset): Promise<number> {
+    const pair = KRAKEN_PAIRS[asset];
+    if (!pair) {
+      throw unsupported(this.name, asset);
+    }
+
+    const response = await axios.get(this.url, {
+      timeout: REQUEST_TIMEOUT_MS,
+      params: { pair },
+    });
+
+    if (response.data?.error?.length) {
+      throw new Error(`Kraken error: ${response.data.error.join(", ")}`);
+    }
+
+    // Kraken keys the result by its internal pair name (e.g. XXLMZUSD)
+    const ticker: any = Object.values(response.data?.result ?? {})[0];
+    // c = last trade closed [price, lot volume]
+    return parsePrice(ticker?.c?.[0], this.name);
+  }
+}
+
+/**
+ * Mid price of the XLM/USDC orderbook on the Stellar DEX via Horizon.
+ * Quotes XLM in USDC, and USDC_XLM as its inverse.
+ */
+export class StellarDexProvider implements PriceProvider {
+  readonly name = "stellar-dex";
+  private readonly horizonUrl: string;
+
+  constructor(horizonUrl?: string) {
+    this.horizonUrl =
+      horizonUrl ||
+      process.env.STELLAR_HORIZON_URL ||
+      "https://horizon.stellar.org";
+  }
+
+  supports(asset: Asset): boolean {
+    return asset === "XLM" || asset === "USDC_XLM";
+  }
+
+  async fetchPrice(asset: Asset): Promise<number> {
+    if (!this.supports(asset)) {
+      throw unsupported(this.name, asset);
+    }
+
+    const response = await axios.get(`${this.horizonUrl}/order_book`, {
+      timeout: REQUEST_TIMEOUT_MS,
+      params: {
+        selling_asset_type: "native",
+        buying_asset_type: "credit_alphanum4",
+        buying_asset_code: "USDC",
+        buying_asset_issuer: USDC_ISSUER,
+        limit: 1,
+      },
+    });
+
+    const bid = parsePrice(response.data?.bids?.[0]?.price, this.name);
+    const ask = parsePrice(response.data?.asks?.[0]?.price, this.name);
+    const mid = (bid + ask) / 2;
+    return asset === "USDC_XLM" ? 1 / mid : mid;
+  }
+}
+
+/**
+ * Reads a price from a fixed value or a JSON file. The file holds either a
+ * single price ({ "price": 0.12 }) or one per asset ({ "XLM": 0.12, "BTC": 65000 }).
+ * It is re-read on every fetch so tests can change it between polls.
+ */
+export class FixturePriceProvider implements PriceProvider {
+  constructor(
+    readonly name: string,
+    private readonly source: number | string,
+  ) {}
+
+  supports(): boolean {
+    return true;
+  }
+
+  async fetchPrice(asset: Asset): Promise<number> {
+    if (typeof this.source === "number") {
+      return parsePrice(this.source, this.name);
+    }
+
+    const contents = JSON.parse(fs.readFileSync(this.source, "utf8"));
+    return parsePrice(contents[asset] ?? contents.price, this.name);
+  }
+}
+
+/**
+ * Builds providers from a list of names
+ * (e.g. ORACLE_PROVIDERS="coingecko,binance,kraken,stellar-dex").
+ * Unknown or misconfigured names are skipped with a warning.
+ */
+export function createProviders(names: string[]): PriceProvider[] {
+  const providers: PriceProvider[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case "coingecko":
+        providers.push(new CoinGeckoProvider());
+        break;
+      case "binance":
+        providers.push(new BinanceProvider());
+        break;
+      case "kraken":
+        providers.push(new KrakenProvider());
+        break;
+      case "stellar-dex":
+        providers.push(new StellarDexProvider());
+        break;
+      case "fixture":
+        if (!process.env.ORACLE_FIXTURE_FILE) {
+          logger.warn("Skipping fixture price provider: ORACLE_FIXTURE_FILE is not set");
+          break;
+        }
+        providers.push(new FixturePriceProvider("fixture", process.env.ORACLE_FIXTURE_FILE));
+        break;
+      default:
+        logger.warn(`Skipping unknown price provider: ${name}`);
+    }
+  }
+
+  return providers;
+}
@@ -1,63 +1,238 @@
+import { GameMode, Prisma } from "@prisma/client";
 import sorobanService from "./soroban.service";
 import websocketService from "./websocket.service";
 import notificationService from "./notification.service";
 import logger from "../utils/logger";
 import educationTipService from "./education-tip.service";
+import ledgerService, { ledgerAccounts } from "./ledger.service";
+import { lockUserStats, recordRoundResults } from "./leaderboard.service";
+import roundStateService, {
+  RoundActor,
+  SYSTEM_ACTOR,
+} from "./round-state.service";
+import {
+  SETTLEMENT_REASON_TEXT,
+  SettlementPlan,
+  getTieRule,
+  planSettlement,
+} from "./settlement-policy";
 import { prisma } from "../lib/prisma";
+import { ON_CHAIN_ASSET } from "../utils/asset.util";
+import {
+  bucketsToPriceRanges,
+  findRangeIndex,
+  predictionRangeIndex,
+  withPriceRanges,
+} from "../utils/price-range.util";
+import { summarizePositions } from "../utils/position.util";
+import { fromStroops, stroopsToAmount, toStroops } from "../utils/money.util";
+import { RoundPosition } from "../types/round.types";
+
+/**
+ * Outcome of settling a round inside the resolution transaction.
+ * Notifications are collected here and only sent once the transaction commits.
+ */
+interface SettlementResult {
+  winnerCount: number;
+  // In stroops, like every amount of a settlement
+  totalPayout: bigint;
+  // Taken from the losing pool for the house
+  houseFee: bigint;
+  notifications: PendingNotification[];
+}
+
+interface PendingNotification {
+  userId: string;
+  type: "WIN" | "LOSS" | "ROUND_CANCELLED" | "ROUND_REFUNDED";
+  title: string;
+  message: string;
+  data?: any;
+}
+
+/**
+ * Oracle sample a round is settled at, recorded on the round for audits
+ */
+export interface ResolutionPriceSample {
+  id: string;
+  timestamp: Date;
+  sources: string[];
+}
+
+// Interactive transactions default to a 5s timeout, which a busy round can exceed
+const RESOLUTION_TX_TIMEOUT_MS = 30000;
 
-interface PriceRange {
-  min: number;
-  max: number;
-  pool: number;
+const MAX_FEE_BPS = 10000;
+
+/**
+ * Protocol fee for a game mode in basis points of the losing pool, from
+ * HOUSE_FEE_BPS_UP_DOWN / HOUSE_FEE_BPS_LEGENDS (default 0, no fee)
+ */
+export function houseFeeBps(mode: GameMode): number {
+  const raw = process.env[`HOUSE_FEE_BPS_${mode}`];
+  if (!raw) {
+    return 0;
+  }
+
+  const bps = Number(raw);
+  if (!Number.isInteger(bps) || bps < 0 || bps > MAX_FEE_BPS) {
+    logger.warn(`Ignoring invalid HOUSE_FEE_BPS_${mode}=${raw}; no fee is taken`);
+    return 0;
+  }
+
+  return bps;
 }
 
 export class ResolutionService {
   /**
-   * Resolves a round with the final price
+   * Resolves a round with the final price.
+   *
+   * Payouts, the status flip and the RoundResolution record are written in a
+   * single transaction, so a failure part-way through rolls everything back.
+   * Re-running resolution for a round that already has a RoundResolution is a
+   * no-op that returns the settled round. On-chain rounds are resolved on the
+   * contract first and marked with sorobanResolvedAt, so a retry after a
+   * failed settlement skips the contract (see resolveOnChain).
+   *
+   * `priceSample` identifies the oracle sample `finalPrice` came from, when
+   * resolution is driven by stored price history. A round that is still
+   * ACTIVE is locked first, so its event log always reads
+   * ACTIVE -> LOCKED -> RESOLVED.
    */
-  async resolveRound(roundId: string, finalPrice: number): Promise<any> {
+  async resolveRound(
+    roundId: string,
+    finalPrice: number,
+    priceSample?: ResolutionPriceSample,
+    actor: RoundActor = SYSTEM_ACTOR,
+  ): Promise<any> {
     try {
+      const existingResolution = await prisma.roundResolution.findUnique({
+        where: { roundId },
+      });
+
+      if (existingResolution) {
+        logger.info(`Round ${roundId} already resolved, skipping`);
+        return await this.getResolvedRound(roundId);
+      }
+
       // Get round
       const round = await prisma.round.findUnique({
         where: { id: roundId },
-        include: {
-          predictions: {
-            include: {
-              user: true,
-            },
-          },
-        },
       });
 
       if (!round) {
-        throw new Error("Round not found");
+        const error: any = new Error("Round not found");
+        error.code = "ROUND_NOT_FOUND";
+        throw error;
       }
 
       if (round.status === "RESOLVED") {
-        throw new Error("Round already resolved");
+        const error: any = new Error("Round already resolved");
+        error.code = "ROUND_ALREADY_RESOLVED";
+        throw error;
       }
 
       if (round.status !== "LOCKED" && round.status !== "ACTIVE") {
-        throw new Error("Round must be locked or active to resolve");
+        const error: any = new Error("Round must be locked or active to resolve");
+        error.code = "ROUND_NOT_RESOLVABLE";
+        throw error;
       }
 
-      // Mode-specific resolution
-      if (round.mode === "UP_DOWN") {
-        await this.resolveUpDownRound(round, finalPrice);
-      } else if (round.mode === "LEGENDS") {
-        await this.resolveLegendsRound(round, finalPrice);
+      // Fixed before the contract call so both sides take the same fee
+      const feeBps = houseFeeBps(round.mode);
+
+      // Resolve on the contract before touching balances (only on-chain
+      // XLM Up/Down rounds are mirrored there)
+      if (
+        round.mode === "UP_DOWN" &&
+        round.asset === ON_CHAIN_ASSET &&
+        !round.sorobanResolvedAt
+      ) {
+        await this.resolveOnChain(roundId, finalPrice, feeBps);
       }
 
-      // Update round status
-      await prisma.round.update({
-        where: { id: roundId },
-        data: {
-          status: "RESOLVED",
-          endPrice: finalPrice,
-        },
-      });
+      let settlement: SettlementResult | null;
+      try {
+        settlement = await prisma.$transaction(
+          async (tx) => {
+            await roundStateService.transition(roundId, "LOCKED", actor, {
+              tx,
+              from: ["ACTIVE"],
+            });
+
+            // Claim the round; a concurrent resolver will find nothing to update
+            const claimed = await roundStateService.transition(
+              roundId,
+              "RESOLVED",
+              actor,
+              {
+                tx,
+                from: ["LOCKED"],
+                data: {
+                  endPrice: finalPrice,
+                  endPriceSampleId: priceSample?.id,
+                  endPriceAt: priceSample?.timestamp,
+                  endPriceSources: priceSample?.sources,
+                },
+              },
+            );
+
+            if (!claimed) {
+              return null;
+            }
+
+            // Re-read pools inside the transaction so late bets are included
+            const claimedRound = await tx.round.findUniqueOrThrow({
+              where: { id: roundId },
+            });
+            // Cashed-out bets were already settled when withdrawn
+            const predictions = await tx.prediction.findMany({
+              where: { roundId, withdrawnAt: null },
+            });
+
+            // Mode-specific resolution
+            const result =
+              claimedRound.mode === "UP_DOWN"
+                ? await this.resolveUpDownRound(tx, claimedRound, predictions, finalPrice, feeBps)
+                : await this.resolveLegendsRound(tx, claimedRound, predictions, finalPrice, feeBps);
+
+            await this.sweepEscrow(tx, roundId);
+
+            await tx.roundResolution.create({
+              data: {
+                roundId,
+                finalPrice,
+                winnerCount: result.winnerCount,
+                totalPayout: fromStroops(result.totalPayout),
+                feeBps,
+                houseFee: fromStroops(result.houseFee),
+              },
+            });
+
+            return result;
+          },
+          { timeout: RESOLUTION_TX_TIMEOUT_MS },
+        );
+      } catch (error) {
+        // Lost a race on the RoundResolution unique constraint
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          settlement = null;
+        } else {
+          throw error;
+        }
+      }
+
+      if (!settlement) {
+        logger.info(`Round ${roundId} was resolved concurrently, skipping`);
+        return await this.getResolvedRound(roundId);
+      }
 
       logger.info(`Round resolved: ${roundId}, finalPrice=${finalPrice}`);
+
+      await this.sendNotifications(settlement.notifications);
+
       // -----------------------------
       // Generate Educational Tip
       // -----------------------------
@@ -77,12 +252,7 @@ export class ResolutionService {
         });
       }
 
-      return await prisma.round.findUnique({
-        where: { id: roundId },
-        include: {
-          predictions: true,
-        },
-      });
+      return await this.getResolvedRound(roundId);
     } catch (error) {
       logger.error("Failed to resolve round:", error);
       throw error;
@@ -90,239 +260,511 @@ export class ResolutionService {
   }
 
   /**
-   * Resolves an Up/Down mode round
+   * Resolves the round on the Soroban contract, bracketed by two committed
+   * writes and never inside a transaction: sorobanClaimedAt claims the
+   * call, so only one resolver makes it, and sorobanResolvedAt records that
+   * it succeeded. A call that reports failure releases the claim for a retry.
+   * A claim left without the done marker (the process died, or the marker
+   * could not be written) means the outcome is unknown, so resolution stops
+   * with ON_CHAIN_RESOLUTION_PENDING rather than resolving the contract twice.
    */
-  private async resolveUpDownRound(
-    round: any,
+  private async resolveOnChain(
+    roundId: string,
     finalPrice: number,
+    feeBps: number,
   ): Promise<void> {
-    // Call Soroban contract to resolve
-    await sorobanService.resolveRound(finalPrice);
-
-    const priceWentUp = finalPrice > round.startPrice;
-    const priceWentDown = finalPrice < round.startPrice;
-    const priceUnchanged = finalPrice === round.startPrice;
-
-    const winningSide = priceWentUp ? "UP" : priceWentDown ? "DOWN" : null;
-
-    if (priceUnchanged) {
-      // Refund everyone
-      for (const prediction of round.predictions) {
-        await prisma.prediction.update({
-          where: { id: prediction.id },
-          data: {
-            won: null,
-            payout: prediction.amount,
-          },
-        });
+    const claimed = await prisma.round.updateMany({
+      where: {
+        id: roundId,
+        status: { in: ["ACTIVE", "LOCKED"] },
+        sorobanClaimedAt: null,
+      },
+      data: { sorobanClaimedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      const current = await prisma.round.findUniqueOrThrow({
+        where: { id: roundId },
+      });
 
-        await prisma.user.update({
-          where: { id: prediction.userId },
-          data: {
-            virtualBalance: {
-              increment: prediction.amount,
-            },
-          },
-        });
+      if (
+        current.sorobanClaimedAt &&
+        !current.sorobanResolvedAt &&
+        (current.status === "ACTIVE" || current.status === "LOCKED")
+      ) {
+        const error: any = new Error(
+          `On-chain resolution of round ${roundId} started at ${current.sorobanClaimedAt.toISOString()} has not been confirmed`,
+        );
+        error.code = "ON_CHAIN_RESOLUTION_PENDING";
+        throw error;
       }
 
-      logger.info(
-        `Round ${round.id}: Price unchanged, refunded all predictions`,
-      );
+      // Already resolved on-chain, or settled or cancelled concurrently
       return;
     }
 
-    // Calculate payouts for winners
-    const winningPool = winningSide === "UP" ? round.poolUp : round.poolDown;
-    const losingPool = winningSide === "UP" ? round.poolDown : round.poolUp;
-
-    if (winningPool === 0) {
-      logger.warn(`Round ${round.id}: No winners, no payouts`);
-      return;
+    try {
+      await sorobanService.resolveRound(finalPrice, feeBps);
+    } catch (error) {
+      await prisma.round.update({
+        where: { id: roundId },
+        data: { sorobanClaimedAt: null },
+      });
+      throw error;
     }
 
-    for (const prediction of round.predictions) {
-      if (prediction.side === winningSide) {
-        // Winner: gets bet back + proportional share of losing pool
-        const share = (prediction.amount / winningPool) * losingPool;
-        const payout = prediction.amount + share;
-
-        await prisma.prediction.update({
-          where: { id: prediction.id },
-          data: {
-            won: true,
-            payout,
-          },
-        });
+    await prisma.round.update({
+      where: { id: roundId },
+      data: { sorobanResolvedAt: new Date() },
+    });
+  }
 
-        await prisma.user.update({
-          where: { id: prediction.userId },
-          data: {
-            virtualBalance: {
-              increment: payout,
-            },
-            wins: {
-              increment: 1,
-            },
-            streak: {
-              increment: 1,
+  /**
+   * Cancels a round that has not been resolved and refunds every stake.
+   *
+   * The status flip and refunds are written in a single transaction; the
+   * state machine only allows CANCELLED from PENDING, ACTIVE or LOCKED, so a
+   * round cannot be both resolved and cancelled. Participants are notified and
+   * `round:cancelled` is emitted once the transaction commits.
+   */
+  async cancelRound(
+    roundId: string,
+    reason: string,
+    actor: RoundActor = SYSTEM_ACTOR,
+  ): Promise<any> {
+    try {
+      const round = await prisma.round.findUnique({
+        where: { id: roundId },
+      });
+
+      if (!round) {
+        const error: any = new Error("Round not found");
+        error.code = "ROUND_NOT_FOUND";
+        throw error;
+      }
+
+      if (round.sorobanClaimedAt || round.sorobanResolvedAt) {
+        // The contract has paid out, or may have; only resolving can settle it here
+        const error: any = new Error(
+          "Round was resolved on-chain and cannot be cancelled",
+        );
+        error.code = "ROUND_NOT_CANCELLABLE";
+        throw error;
+      }
+
+      if (round.mode === "UP_DOWN" && round.asset === ON_CHAIN_ASSET && round.sorobanRoundId) {
+        // The contract has no cancel entry point; the on-chain round simply expires
+        logger.warn(
+          `Round ${roundId} is mirrored on Soroban (ID: ${round.sorobanRoundId}); cancelling off-chain only`,
+        );
+      }
+
+      const settlement = await prisma.$transaction(
+        async (tx) => {
+          const claimed = await roundStateService.transition(
+            roundId,
+            "CANCELLED",
+            actor,
+            {
+              tx,
+              from: ["PENDING", "ACTIVE", "LOCKED"],
+              data: { cancelReason: reason },
+              reason,
             },
-          },
-        });
+          );
+
+          if (!claimed) {
+            return null;
+          }
+
+          // Cashed-out bets keep their refund minus the fee
+          const predictions = await tx.prediction.findMany({
+            where: { roundId, withdrawnAt: null },
+          });
+
+          const result: SettlementResult = {
+            winnerCount: 0,
+            totalPayout: 0n,
+            houseFee: 0n,
+            notifications: [],
+          };
+
+          await this.refundAll(
+            tx,
+            predictions,
+            result,
+            `Refund for cancelled round ${roundId}`,
+          );
+          await this.sweepEscrow(tx, roundId);
+
+          // One notification per participant, with their total refund
+          const refunds = new Map<string, bigint>();
+          for (const prediction of predictions) {
+            refunds.set(
+              prediction.userId,
+              (refunds.get(prediction.userId) ?? 0n) + toStroops(prediction.amount),
+            );
+          }
+
+          for (const [userId, stroops] of refunds) {
+            const amount = stroopsToAmount(stroops);
+            result.notifications.push({
+              userId,
+              type: "ROUND_CANCELLED",
+              title: "Round Cancelled",
+              message: `Round #${roundId.slice(0, 6)} was cancelled (${reason}). Your stake of ${amount.toFixed(2)} XLM has been refunded.`,
+              data: { roundId, amount, reason },
+            });
+          }
+
+          return result;
+        },
+        { timeout: RESOLUTION_TX_TIMEOUT_MS },
+      );
 
-        // Send WIN notification
-        const winNotif = await notificationService.createNotification({
-          userId: prediction.userId,
-          type: "WIN",
-          title: "You Won!",
-          message: `Your prediction was correct! You won ${payout.toFixed(2)} XLM in Round #${round.id.slice(0, 6)}.`,
-          data: { roundId: round.id, amount: payout },
-        });
-        if (winNotif) {
-          websocketService.emitNotification(prediction.userId, winNotif);
-        }
-      } else {
-        // Loser
-        await prisma.prediction.update({
-          where: { id: prediction.id },
-          data: {
-            won: false,
-            payout: 0,
-          },
+      if (!settlement) {
+        const current = await prisma.round.findUnique({
+          where: { id: roundId },
         });
+        const error: any = new Error(
+          `Round cannot be cancelled (status: ${current?.status ?? round.status})`,
+        );
+        error.code = "ROUND_NOT_CANCELLABLE";
+        throw error;
+      }
 
-        await prisma.user.update({
-          where: { id: prediction.userId },
-          data: {
-            streak: 0,
-          },
-        });
+      logger.info(
+        `Round cancelled: ${roundId}, reason="${reason}", refunded=${stroopsToAmount(settlement.totalPayout)}`,
+      );
 
-        // Send LOSS notification
-        const lossNotif = await notificationService.createNotification({
-          userId: prediction.userId,
-          type: "LOSS",
-          title: "Prediction Did Not Win",
-          message: `Your prediction in Round #${round.id.slice(0, 6)} did not win. Keep trying!`,
-          data: { roundId: round.id },
-        });
-        if (lossNotif) {
-          websocketService.emitNotification(prediction.userId, lossNotif);
+      const cancelled = await this.getResolvedRound(roundId);
+
+      websocketService.emitRoundCancelled(cancelled);
+      await this.sendNotifications(settlement.notifications);
+
+      return cancelled;
+    } catch (error) {
+      logger.error("Failed to cancel round:", error);
+      throw error;
+    }
+  }
+
+  private async getResolvedRound(roundId: string): Promise<any> {
+    const round = await prisma.round.findUnique({
+      where: { id: roundId },
+      include: {
+        predictions: true,
+        resolution: true,
+        buckets: { orderBy: { index: "asc" } },
+      },
+    });
+
+    return round && withPriceRanges(round);
+  }
+
+  /**
+   * Sends notifications collected during settlement. Failures are logged and
+   * never undo the (already committed) resolution.
+   */
+  private async sendNotifications(
+    notifications: PendingNotification[],
+  ): Promise<void> {
+    for (const input of notifications) {
+      try {
+        const notif = await notificationService.createNotification(input);
+        if (notif) {
+          websocketService.emitNotification(input.userId, notif);
         }
+      } catch (error) {
+        logger.error(
+          `Failed to send ${input.type} notification to user ${input.userId}:`,
+          error,
+        );
       }
     }
+  }
 
-    logger.info(
-      `Round ${round.id}: Distributed payouts to ${round.predictions.filter((p: any) => p.side === winningSide).length} winners`,
-    );
+  /**
+   * Resolves an Up/Down mode round: bets on the side the price moved to win
+   */
+  private async resolveUpDownRound(
+    tx: Prisma.TransactionClient,
+    round: any,
+    predictions: any[],
+    finalPrice: number,
+    feeBps: number,
+  ): Promise<SettlementResult> {
+    const winningSide =
+      finalPrice > round.startPrice ? "UP" : finalPrice < round.startPrice ? "DOWN" : null;
+
+    const plan = planSettlement({
+      stakes: predictions.map((prediction) => ({
+        id: prediction.id,
+        amount: toStroops(prediction.amount),
+        winning: prediction.side === winningSide,
+      })),
+      undecided: winningSide ? undefined : "TIE",
+      forfeitedPool: toStroops(round.forfeitedPool),
+      feeBps,
+      tieRule: getTieRule(),
+    });
+
+    return this.applySettlement(tx, round, predictions, plan, feeBps);
   }
 
   /**
-   * Resolves a Legends mode round
+   * Resolves a Legends mode round: bets on the range the final price fell
+   * in win
    */
   private async resolveLegendsRound(
+    tx: Prisma.TransactionClient,
     round: any,
+    predictions: any[],
     finalPrice: number,
-  ): Promise<void> {
-    const priceRanges = round.priceRanges as PriceRange[];
-
-    // Find winning range
-    const winningRange = priceRanges.find(
-      (range) => finalPrice >= range.min && finalPrice < range.max,
+    feeBps: number,
+  ): Promise<SettlementResult> {
+    const priceRanges = bucketsToPriceRanges(
+      await tx.roundBucket.findMany({ where: { roundId: round.id } }),
     );
+    const winningIndex = findRangeIndex(priceRanges, finalPrice);
+
+    const plan = planSettlement({
+      stakes: predictions.map((prediction) => ({
+        id: prediction.id,
+        amount: toStroops(prediction.amount),
+        winning:
+          winningIndex !== -1 &&
+          predictionRangeIndex(prediction.priceRange, priceRanges) === winningIndex,
+      })),
+      undecided: winningIndex === -1 ? "NO_WINNING_RANGE" : undefined,
+      forfeitedPool: toStroops(round.forfeitedPool),
+      feeBps,
+      tieRule: getTieRule(),
+    });
+
+    return this.applySettlement(tx, round, predictions, plan, feeBps);
+  }
 
-    if (!winningRange) {
-      // Price outside all ranges - refund everyone
-      for (const prediction of round.predictions) {
-        await prisma.prediction.update({
-          where: { id: prediction.id },
-          data: {
-            won: null,
-            payout: prediction.amount,
-          },
-        });
+  /**
+   * Writes a settlement plan: the outcome and payout of every prediction, the
+   * house fee and payout transfers, the participants' wins, streaks and
+   * leaderboard stats, and one notification per participant
+   */
+  private async applySettlement(
+    tx: Prisma.TransactionClient,
+    round: any,
+    predictions: any[],
+    plan: SettlementPlan,
+    feeBps: number,
+  ): Promise<SettlementResult> {
+    const result: SettlementResult = {
+      winnerCount: 0,
+      totalPayout: 0n,
+      houseFee: plan.houseFee,
+      notifications: [],
+    };
+
+    if (plan.houseFee > 0n) {
+      await ledgerService.transfer(
+        {
+          from: ledgerAccounts.escrow(round.id),
+          to: ledgerAccounts.house(),
+          amount: fromStroops(plan.houseFee),
+          type: "FEE",
+          description: `House fee (${feeBps} bps) for round ${round.id}`,
+          roundId: round.id,
+        },
+        tx,
+      );
+    }
 
-        await prisma.user.update({
-          where: { id: prediction.userId },
-          data: {
-            virtualBalance: {
-              increment: prediction.amount,
-            },
+    const payouts = new Map<string, bigint>();
+    for (const prediction of predictions) {
+      const { outcome, payout } = plan.outcomes.get(prediction.id)!;
+
+      await tx.prediction.update({
+        where: { id: prediction.id },
+        data: {
+          won: outcome === "REFUND" ? null : outcome === "WIN",
+          payout: fromStroops(payout),
+          outcome,
+        },
+      });
+
+      if (payout > 0n) {
+        await ledgerService.transfer(
+          {
+            from: ledgerAccounts.escrow(round.id),
+            to: ledgerAccounts.wallet(prediction.userId),
+            amount: fromStroops(payout),
+            type: outcome === "WIN" ? "WIN" : "REFUND",
+            description: outcome === "WIN"
+              ? `Payout for round ${round.id}`
+              : `Refund for round ${round.id}`,
+            roundId: round.id,
           },
+          tx,
+        );
+      }
+
+      payouts.set(prediction.id, payout);
+      result.totalPayout += payout;
+    }
+
+    const roundLabel = `Round #${round.id.slice(0, 6)}`;
+
+    if (plan.refunded) {
+      // A refunded round leaves wins, streaks and stats alone
+      for (const position of summarizePositions(
+        predictions.map((prediction) => ({
+          ...prediction,
+          payout: fromStroops(payouts.get(prediction.id)!),
+        })),
+      ).values()) {
+        result.notifications.push({
+          userId: position.userId,
+          type: "ROUND_REFUNDED",
+          title: "Stake Refunded",
+          message: `${roundLabel} had no winner because ${SETTLEMENT_REASON_TEXT[plan.reason]}. Your stake of ${position.totalStake.toFixed(2)} XLM has been refunded.`,
+          data: { roundId: round.id, amount: position.totalStake, reason: plan.reason },
         });
       }
+    } else {
+      const positions = await this.recordOutcomes(tx, predictions, payouts, result);
+      // Waits for a stats rebuild to finish, which replays this round otherwise
+      await lockUserStats(tx);
+      await recordRoundResults(round, positions, round.resolvedAt ?? new Date(), tx);
+
+      // One WIN or LOSS notification per user, covering all of their bets
+      for (const position of positions) {
+        if (position.payout! >= position.totalStake) {
+          result.notifications.push({
+            userId: position.userId,
+            type: "WIN",
+            title: "You Won!",
+            message: `Your prediction was correct! You won ${position.payout!.toFixed(2)} XLM in ${roundLabel}.`,
+            data: { roundId: round.id, amount: position.payout },
+          });
+        } else {
+          result.notifications.push({
+            userId: position.userId,
+            type: "LOSS",
+            title: "Prediction Did Not Win",
+            message: position.payout! > 0
+              ? `Your predictions in ${roundLabel} returned ${position.payout!.toFixed(2)} of your ${position.totalStake.toFixed(2)} XLM stake. Keep trying!`
+              : `Your prediction in ${roundLabel} did not win. Keep trying!`,
+            data: { roundId: round.id },
+          });
+        }
+      }
+    }
 
-      logger.info(
-        `Round ${round.id}: Price outside all ranges, refunded all predictions`,
-      );
-      return;
+    logger.info(
+      `Round ${round.id} settled (${plan.reason}): ${result.winnerCount} winners, paid ${stroopsToAmount(result.totalPayout)}, house fee ${stroopsToAmount(plan.houseFee)}, dust ${stroopsToAmount(plan.dust)}`,
+    );
+    return result;
+  }
+
+  /**
+   * Updates each participant's wins and streak once per round, however many
+   * bets they placed: a user wins the round when their payouts cover their
+   * total stake. Sets the result's winnerCount to the number of such users.
+   */
+  private async recordOutcomes(
+    tx: Prisma.TransactionClient,
+    predictions: any[],
+    payouts: Map<string, bigint>,
+    result: SettlementResult,
+  ): Promise<RoundPosition[]> {
+    const positions = [
+      ...summarizePositions(
+        predictions.map((prediction) => ({
+          ...prediction,
+          payout: fromStroops(payouts.get(prediction.id) ?? 0n),
+        })),
+      ).values(),
+    ];
+
+    for (const position of positions) {
+      const won = position.payout! >= position.totalStake;
+
+      await tx.user.update({
+        where: { id: position.userId },
+        data: won
+          ? { wins: { increment: 1 }, streak: { increment: 1 } }
+          : { streak: 0 },
+      });
+
+      if (won) {
+        result.winnerCount += 1;
+      }
     }
 
-    // Calculate total pool and winning pool
-    const totalPool = priceRanges.reduce((sum, range) => sum + range.pool, 0);
-    const winningPool = winningRange.pool;
-    const losingPool = totalPool - winningPool;
+    return positions;
+  }
+
+  /**
+   * Moves whatever is left in the round's escrow (unclaimed losing stakes,
+   * rounding dust) to the house so settled escrows always end at zero.
+   */
+  private async sweepEscrow(
+    tx: Prisma.TransactionClient,
+    roundId: string,
+  ): Promise<void> {
+    const escrow = ledgerAccounts.escrow(roundId);
+    const remaining = await ledgerService.getAccountBalance(escrow, tx);
 
-    if (winningPool === 0) {
-      logger.warn(`Round ${round.id}: No winners in range, no payouts`);
+    if (remaining.isZero()) {
       return;
     }
 
-    for (const prediction of round.predictions) {
-      const predictionRange = prediction.priceRange as PriceRange;
+    const house = ledgerAccounts.house();
+    await ledgerService.transfer(
+      {
+        from: remaining.isPositive() ? escrow : house,
+        to: remaining.isPositive() ? house : escrow,
+        amount: remaining.abs(),
+        type: "LOSS",
+        description: `Escrow sweep for round ${roundId}`,
+        roundId,
+      },
+      tx,
+    );
+  }
 
-      if (
-        predictionRange.min === winningRange.min &&
-        predictionRange.max === winningRange.max
-      ) {
-        // Winner
-        const share = (prediction.amount / winningPool) * losingPool;
-        const payout = prediction.amount + share;
-
-        await prisma.prediction.update({
-          where: { id: prediction.id },
-          data: {
-            won: true,
-            payout,
-          },
-        });
+  /**
+   * Returns every stake unchanged
+   */
+  private async refundAll(
+    tx: Prisma.TransactionClient,
+    predictions: any[],
+    result: SettlementResult,
+    description?: string,
+  ): Promise<void> {
+    for (const prediction of predictions) {
+      await tx.prediction.update({
+        where: { id: prediction.id },
+        data: {
+          won: null,
+          payout: prediction.amount,
+          outcome: "REFUND",
+        },
+      });
 
-        await prisma.user.update({
-          where: { id: prediction.userId },
-          data: {
-            virtualBalance: {
-              increment: payout,
-            },
-            wins: {
-              increment: 1,
-            },
-            streak: {
-              increment: 1,
-            },
-          },
-        });
-      } else {
-        // Loser
-        await prisma.prediction.update({
-          where: { id: prediction.id },
-          data: {
-            won: false,
-            payout: 0,
-          },
-        });
+      await ledgerService.transfer(
+        {
+          from: ledgerAccounts.escrow(prediction.roundId),
+          to: ledgerAccounts.wallet(prediction.userId),
+          amount: prediction.amount,
+          type: "REFUND",
+          description: description ?? `Refund for round ${prediction.roundId}`,
+          roundId: prediction.roundId,
+        },
+        tx,
+      );
 
-        await prisma.user.update({
-          where: { id: prediction.userId },
-          data: {
-            streak: 0,
-          },
-        });
-      }
+      result.totalPayout += toStroops(prediction.amount);
     }
-
-    logger.info(
-      `Round ${round.id}: Distributed payouts to winners in range [${winningRange.min}, ${winningRange.max}]`,
-    );
   }
 }
 
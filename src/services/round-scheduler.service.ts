@@ -1,11 +1,44 @@
 import cron, { ScheduledTask } from "node-cron";
+import { GameMode, RoundTemplate } from "@prisma/client";
 import roundService from "./round.service";
+import roundTemplateService from "./round-template.service";
+import { SCHEDULER_ACTOR } from "./round-state.service";
 import priceOracle from "./oracle";
 import logger from "../utils/logger";
 import { prisma } from "../lib/prisma";
+import { toAmount } from "../utils/money.util";
+import { parseAssetList } from "../utils/asset.util";
+import { BucketConfig } from "../types/round.types";
 
+// How often templates are re-read, so edits made through another instance
+// (or directly in the database) are picked up without a restart
+const DEFAULT_TEMPLATE_RELOAD_SECONDS = 30;
+
+// The series the scheduler ran before round templates: a 1-minute round
+// every 4 minutes
+const DEFAULT_SERIES_DURATION_SECONDS = 60;
+const DEFAULT_SERIES_CADENCE = "0 */4 * * * *";
+
+interface RoundSeries {
+  // updatedAt of the template the task was scheduled from
+  version: number;
+  task: ScheduledTask;
+}
+
+/**
+ * Runs one series of rounds per enabled RoundTemplate and promotes scheduled
+ * rounds. Rounds are locked by their own lock timers (RoundService.scheduleLock),
+ * backed up by the lock sweep in SchedulerService.
+ */
 class RoundSchedulerService {
   private cronTasks: ScheduledTask[] = [];
+  private series = new Map<string, RoundSeries>();
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private reloading: Promise<void> = Promise.resolve();
+  private running = false;
+  // Bumped on every start and stop, so a reload queued or in flight before a
+  // stop cannot schedule series afterwards
+  private generation = 0;
 
   start(): void {
     if (process.env.ROUND_SCHEDULER_ENABLED !== "true") {
@@ -13,101 +46,251 @@ class RoundSchedulerService {
       return;
     }
 
-    logger.info("[Round Scheduler] Starting round creation and close jobs");
+    logger.info("[Round Scheduler] Starting round series and promotion jobs");
+    this.running = true;
+    this.generation += 1;
 
-    // Create new round every 4 minutes (1 min round + 3 min processing)
-    this.cronTasks.push(
-      cron.schedule("0 */4 * * * *", async () => {
-        await this.createRound();
-      }),
-    );
+    // One cron task per enabled round template, after seeding the default
+    // series on a fresh database
+    this.reloading = this.reloading.then(() => this.seedDefaultTemplates());
+    void this.reloadTemplates();
+
+    const reloadSeconds =
+      parseInt(process.env.ROUND_TEMPLATE_RELOAD_SECONDS || "", 10) ||
+      DEFAULT_TEMPLATE_RELOAD_SECONDS;
+    this.reloadTimer = setInterval(() => {
+      void this.reloadTemplates();
+    }, reloadSeconds * 1000);
 
-    // Close (lock) eligible rounds every 30 seconds
+    // Promote scheduled (PENDING) rounds every 5 seconds
     this.cronTasks.push(
-      cron.schedule("*/30 * * * * *", async () => {
-        await this.closeEligibleRounds();
+      cron.schedule("*/5 * * * * *", async () => {
+        await this.promoteScheduledRounds();
       }),
     );
   }
 
   stop(): void {
+    this.running = false;
+    this.generation += 1;
+
+    if (this.reloadTimer) {
+      clearInterval(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+
     for (const task of this.cronTasks) {
       task.stop();
     }
     this.cronTasks = [];
+
+    for (const { task } of this.series.values()) {
+      task.stop();
+    }
+    this.series.clear();
+
     logger.info("[Round Scheduler] Stopped");
   }
 
-  private async createRound(): Promise<void> {
+  /**
+   * Brings the running series in line with the stored templates: starts
+   * new and re-enabled templates, reschedules edited ones and stops deleted
+   * or disabled ones. Safe to call at any time; does nothing while the
+   * scheduler is stopped.
+   */
+  reloadTemplates(): Promise<void> {
+    // Serialize reloads so overlapping calls cannot schedule a template twice
+    const generation = this.generation;
+    this.reloading = this.reloading.then(() => this.syncTemplates(generation));
+    return this.reloading;
+  }
+
+  /**
+   * Ids of the templates currently being run
+   */
+  getActiveSeries(): string[] {
+    return [...this.series.keys()];
+  }
+
+  /**
+   * Creates the default series when no template exists yet, from the
+   * settings the scheduler used before templates: one round of
+   * ROUND_SCHEDULER_MODE (default UP_DOWN) per asset in
+   * ROUND_SCHEDULER_ASSETS (default XLM). ROUND_SCHEDULER_AUTO_CREATE=false
+   * skips it.
+   */
+  private async seedDefaultTemplates(): Promise<void> {
+    if (process.env.ROUND_SCHEDULER_AUTO_CREATE === "false") {
+      return;
+    }
+
     try {
-      const startPrice = priceOracle.getPrice();
+      if ((await prisma.roundTemplate.count()) > 0) {
+        return;
+      }
 
-      if (!startPrice || startPrice <= 0) {
-        logger.warn("[Round Scheduler] Skipping round creation: invalid price from oracle");
+      const mode =
+        process.env.ROUND_SCHEDULER_MODE === "LEGENDS"
+          ? GameMode.LEGENDS
+          : GameMode.UP_DOWN;
+      const templates = parseAssetList(process.env.ROUND_SCHEDULER_ASSETS).map(
+        (asset) => ({
+          name: `${asset.toLowerCase().replace("_", "-")}-${mode === GameMode.UP_DOWN ? "up-down" : "legends"}-1m`,
+          mode,
+          asset,
+          durationSeconds: DEFAULT_SERIES_DURATION_SECONDS,
+          cadence: DEFAULT_SERIES_CADENCE,
+        }),
+      );
+
+      // Another instance may seed at the same time; names are unique
+      await prisma.roundTemplate.createMany({ data: templates, skipDuplicates: true });
+
+      logger.info(
+        `[Round Scheduler] Seeded default round series: ${templates.map(({ name }) => name).join(", ")}`,
+      );
+    } catch (error) {
+      logger.error("[Round Scheduler] Failed to seed default round templates:", error);
+    }
+  }
+
+  /**
+   * Whether the scheduler is still running the start a reload was queued in
+   */
+  private isCurrent(generation: number): boolean {
+    return this.running && generation === this.generation;
+  }
+
+  private async syncTemplates(generation: number): Promise<void> {
+    if (!this.isCurrent(generation)) {
+      return;
+    }
+
+    let templates: RoundTemplate[];
+    try {
+      templates = await roundTemplateService.getEnabledTemplates();
+    } catch (error) {
+      logger.error("[Round Scheduler] Failed to load round templates:", error);
+      return;
+    }
+
+    // Stopped (e.g. demoted) while the templates were loading
+    if (!this.isCurrent(generation)) {
+      return;
+    }
+
+    const enabledIds = new Set(templates.map((template) => template.id));
+
+    for (const [id, { task }] of this.series) {
+      if (!enabledIds.has(id)) {
+        task.stop();
+        this.series.delete(id);
+        logger.info(`[Round Scheduler] Stopped round series ${id}`);
+      }
+    }
+
+    for (const template of templates) {
+      const version = template.updatedAt.getTime();
+      const existing = this.series.get(template.id);
+
+      if (existing?.version === version) {
+        continue;
+      }
+
+      existing?.task.stop();
+
+      if (!this.isCurrent(generation)) {
         return;
       }
 
-      const mode = this.getMode();
-      const gameMode = mode === "UP_DOWN" ? "UP_DOWN" : "LEGENDS";
+      try {
+        const task = cron.schedule(template.cadence, async () => {
+          await this.createRound(template);
+        });
+        this.series.set(template.id, { version, task });
+        logger.info(
+          `[Round Scheduler] ${existing ? "Rescheduled" : "Started"} round series "${template.name}" (${template.asset} ${template.mode}, every "${template.cadence}")`,
+        );
+      } catch (error) {
+        this.series.delete(template.id);
+        logger.error(
+          `[Round Scheduler] Invalid cadence for round template ${template.id}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Starts the next round of a template's series
+   */
+  private async createRound(template: RoundTemplate): Promise<void> {
+    const { asset, mode } = template;
 
-      // Check if there's already an active round for this mode
+    try {
+      const startPrice = priceOracle.getPrice(asset);
+
+      if (!startPrice || startPrice <= 0) {
+        logger.warn(`[Round Scheduler] Skipping ${asset} round creation: invalid price from oracle`);
+        return;
+      }
+
+      // Check if there's already an active round for this asset and mode
       const existingActiveRound = await prisma.round.findFirst({
         where: {
-          mode: gameMode,
+          asset,
+          mode,
           status: "ACTIVE",
         },
       });
 
       if (existingActiveRound) {
         logger.info(
-          `[Round Scheduler] Skipping round creation: active ${mode} round already exists (${existingActiveRound.id})`,
+          `[Round Scheduler] Skipping "${template.name}" round: active ${asset} ${mode} round already exists (${existingActiveRound.id})`,
         );
         return;
       }
 
-      const round = await roundService.startRound(mode, startPrice, 1);
+      const round = await roundService.startRound(
+        mode,
+        startPrice,
+        template.durationSeconds / 60,
+        asset,
+        (template.bucketConfig as Partial<BucketConfig> | null) ?? undefined,
+        SCHEDULER_ACTOR,
+        {
+          templateId: template.id,
+          lockBeforeEndSeconds: template.lockBeforeEndSeconds,
+          minStake: template.minStake && toAmount(template.minStake),
+          maxStake: template.maxStake && toAmount(template.maxStake),
+        },
+      );
 
       logger.info(
-        `[Round Scheduler] Created round ${round.id}, mode=${mode}, startPrice=${startPrice.toFixed(4)}`,
+        `[Round Scheduler] Created round ${round.id} from "${template.name}", mode=${mode}, asset=${asset}, startPrice=${startPrice.toFixed(4)}`,
       );
     } catch (error: any) {
       if (error.code === "ACTIVE_ROUND_EXISTS") {
         logger.info(`[Round Scheduler] ${error.message}`);
       } else {
-        logger.error("[Round Scheduler] Failed to create round:", error);
+        logger.error(`[Round Scheduler] Failed to create "${template.name}" round:`, error);
       }
     }
   }
 
-  private async closeEligibleRounds(): Promise<void> {
+  private async promoteScheduledRounds(): Promise<void> {
     try {
-      const now = new Date();
-
-      const expiredCount = await prisma.round.count({
-        where: {
-          status: "ACTIVE",
-          endTime: { lte: now },
-        },
-      });
+      const promoted = await roundService.promoteDueRounds(
+        (asset) => priceOracle.getPrice(asset),
+        SCHEDULER_ACTOR,
+      );
 
-      if (expiredCount === 0) {
-        return;
+      if (promoted > 0) {
+        logger.info(`[Round Scheduler] Promoted ${promoted} scheduled rounds`);
       }
-
-      await roundService.autoLockExpiredRounds();
-
-      logger.info(`[Round Scheduler] Locked ${expiredCount} expired rounds`);
     } catch (error) {
-      logger.error("[Round Scheduler] Failed to close rounds:", error);
-    }
-  }
-
-  private getMode(): "UP_DOWN" | "LEGENDS" {
-    const mode = process.env.ROUND_SCHEDULER_MODE || "UP_DOWN";
-    if (mode === "LEGENDS") {
-      return "LEGENDS";
+      logger.error("[Round Scheduler] Failed to promote scheduled rounds:", error);
     }
-    return "UP_DOWN";
   }
 }
 
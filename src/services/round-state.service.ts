@@ -0,0 +1,188 @@
+import { Prisma, RoundActorType, RoundStatus } from "@prisma/client";
+import logger from "../utils/logger";
+import { prisma } from "../lib/prisma";
+
+/**
+ * Who is moving a round. `id` is the user id for ADMIN and ORACLE actors.
+ */
+export interface RoundActor {
+  type: RoundActorType;
+  id?: string;
+}
+
+export const SYSTEM_ACTOR: RoundActor = { type: RoundActorType.SYSTEM };
+export const SCHEDULER_ACTOR: RoundActor = { type: RoundActorType.SCHEDULER };
+
+/**
+ * Builds the actor for an authenticated request from the user's role
+ */
+export function userActor(user: { userId: string; role: string }): RoundActor {
+  return {
+    type:
+      user.role === "ORACLE" ? RoundActorType.ORACLE : RoundActorType.ADMIN,
+    id: user.userId,
+  };
+}
+
+/**
+ * Allowed round status transitions:
+ * PENDING -> ACTIVE -> LOCKED -> RESOLVED, and CANCELLED from any
+ * unsettled status. RESOLVED and CANCELLED are terminal.
+ */
+export const ROUND_TRANSITIONS: Record<RoundStatus, RoundStatus[]> = {
+  PENDING: ["ACTIVE", "CANCELLED"],
+  ACTIVE: ["LOCKED", "CANCELLED"],
+  LOCKED: ["RESOLVED", "CANCELLED"],
+  RESOLVED: [],
+  CANCELLED: [],
+};
+
+// Timestamp column stamped when a round enters each status
+const STATUS_TIMESTAMPS: Partial<
+  Record<RoundStatus, "lockedAt" | "resolvedAt" | "cancelledAt">
+> = {
+  LOCKED: "lockedAt",
+  RESOLVED: "resolvedAt",
+  CANCELLED: "cancelledAt",
+};
+
+export function canTransition(from: RoundStatus, to: RoundStatus): boolean {
+  return ROUND_TRANSITIONS[from].includes(to);
+}
+
+export interface TransitionOptions {
+  // Only act when the round is currently in one of these statuses; anything
+  // else (e.g. another worker got there first) returns null instead of throwing
+  from?: RoundStatus[];
+  // Extra columns written together with the status change
+  data?: Prisma.RoundUpdateManyMutationInput;
+  reason?: string;
+  // Join an enclosing transaction; without it the transition runs in its own
+  tx?: Prisma.TransactionClient;
+}
+
+export class RoundStateService {
+  /**
+   * Moves a round to `to`, stamping lockedAt/resolvedAt/cancelledAt and
+   * recording a RoundEvent with the actor.
+   *
+   * Throws INVALID_ROUND_TRANSITION for transitions the state machine does
+   * not allow. The update is conditional on the status read, so when a
+   * concurrent writer changes the round first this returns null. On success
+   * returns the status the round moved from.
+   */
+  async transition(
+    roundId: string,
+    to: RoundStatus,
+    actor: RoundActor,
+    options: TransitionOptions = {},
+  ): Promise<RoundStatus | null> {
+    if (!options.tx) {
+      return prisma.$transaction((tx) =>
+        this.transition(roundId, to, actor, { ...options, tx }),
+      );
+    }
+
+    const tx = options.tx;
+    const round = await tx.round.findUnique({
+      where: { id: roundId },
+      select: { status: true },
+    });
+
+    if (!round) {
+      const error: any = new Error("Round not found");
+      error.code = "ROUND_NOT_FOUND";
+      throw error;
+    }
+
+    const from = round.status;
+
+    if (options.from && !options.from.includes(from)) {
+      return null;
+    }
+
+    if (!canTransition(from, to)) {
+      const error: any = new Error(
+        `Cannot move round from ${from} to ${to}`,
+      );
+      error.code = "INVALID_ROUND_TRANSITION";
+      throw error;
+    }
+
+    const stamp = STATUS_TIMESTAMPS[to];
+    const updated = await tx.round.updateMany({
+      where: { id: roundId, status: from },
+      data: {
+        ...options.data,
+        status: to,
+        ...(stamp && { [stamp]: new Date() }),
+      },
+    });
+
+    if (updated.count === 0) {
+      return null;
+    }
+
+    await this.recordEvent(tx, roundId, from, to, actor, options.reason);
+
+    logger.info(
+      `Round ${roundId}: ${from} -> ${to} by ${actor.type}${actor.id ? ` ${actor.id}` : ""}`,
+    );
+
+    return from;
+  }
+
+  /**
+   * Records the creation of a round (fromStatus null)
+   */
+  async recordCreated(
+    tx: Prisma.TransactionClient,
+    roundId: string,
+    status: RoundStatus,
+    actor: RoundActor,
+  ): Promise<void> {
+    await this.recordEvent(tx, roundId, null, status, actor);
+  }
+
+  /**
+   * Gets a round's transitions, oldest first, or null when the round does
+   * not exist
+   */
+  async getEvents(roundId: string): Promise<any[] | null> {
+    const round = await prisma.round.findUnique({
+      where: { id: roundId },
+      select: { id: true },
+    });
+
+    if (!round) {
+      return null;
+    }
+
+    return prisma.roundEvent.findMany({
+      where: { roundId },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  private async recordEvent(
+    tx: Prisma.TransactionClient,
+    roundId: string,
+    fromStatus: RoundStatus | null,
+    toStatus: RoundStatus,
+    actor: RoundActor,
+    reason?: string,
+  ): Promise<void> {
+    await tx.roundEvent.create({
+      data: {
+        roundId,
+        fromStatus,
+        toStatus,
+        actorType: actor.type,
+        actorId: actor.id,
+        reason,
+      },
+    });
+  }
+}
+
+export default new RoundStateService();
@@ -0,0 +1,216 @@
+import cron from "node-cron";
+import { Prisma, RoundTemplate } from "@prisma/client";
+import { bucketConfigFromEnv, validateBucketConfig } from "./legends-buckets";
+import logger from "../utils/logger";
+import { prisma } from "../lib/prisma";
+import { isStroopPrecise, toAmount } from "../utils/money.util";
+import { RoundTemplateInput } from "../types/round.types";
+
+const MAX_NAME_LENGTH = 100;
+// Shortest round a template may run
+const MIN_DURATION_SECONDS = 30;
+
+function templateError(code: string, message: string): Error {
+  const error: any = new Error(message);
+  error.code = code;
+  return error;
+}
+
+function isStake(value: unknown): boolean {
+  return (
+    typeof value === "number" && Number.isFinite(value) && value > 0 && isStroopPrecise(value)
+  );
+}
+
+/**
+ * Checks a complete template, throwing INVALID_TEMPLATE (or
+ * INVALID_BUCKET_CONFIG for bad LEGENDS bucket overrides)
+ */
+export function validateTemplate(input: RoundTemplateInput): void {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw templateError(
+      "INVALID_TEMPLATE",
+      `name must be between 1 and ${MAX_NAME_LENGTH} characters`,
+    );
+  }
+
+  if (input.mode !== "UP_DOWN" && input.mode !== "LEGENDS") {
+    throw templateError("INVALID_TEMPLATE", "mode must be UP_DOWN or LEGENDS");
+  }
+
+  if (
+    !Number.isInteger(input.durationSeconds) ||
+    input.durationSeconds < MIN_DURATION_SECONDS
+  ) {
+    throw templateError(
+      "INVALID_TEMPLATE",
+      `durationSeconds must be an integer of at least ${MIN_DURATION_SECONDS}`,
+    );
+  }
+
+  const lockBeforeEnd = input.lockBeforeEndSeconds;
+  if (
+    lockBeforeEnd !== null &&
+    (!Number.isInteger(lockBeforeEnd) ||
+      lockBeforeEnd < 0 ||
+      lockBeforeEnd >= input.durationSeconds)
+  ) {
+    throw templateError(
+      "INVALID_TEMPLATE",
+      "lockBeforeEndSeconds must be null or a non-negative integer shorter than durationSeconds",
+    );
+  }
+
+  if (typeof input.cadence !== "string" || !cron.validate(input.cadence)) {
+    throw templateError(
+      "INVALID_TEMPLATE",
+      "cadence must be a valid cron expression",
+    );
+  }
+
+  const { minStake, maxStake } = input;
+  if (minStake != null && !isStake(minStake)) {
+    throw templateError("INVALID_TEMPLATE", "minStake must be a positive amount with at most 7 decimals");
+  }
+  if (maxStake != null && !isStake(maxStake)) {
+    throw templateError("INVALID_TEMPLATE", "maxStake must be a positive amount with at most 7 decimals");
+  }
+  if (minStake != null && maxStake != null && minStake > maxStake) {
+    throw templateError("INVALID_TEMPLATE", "minStake must not exceed maxStake");
+  }
+
+  if (input.bucketConfig) {
+    if (input.mode !== "LEGENDS") {
+      throw templateError(
+        "INVALID_TEMPLATE",
+        "bucketConfig is only valid for LEGENDS templates",
+      );
+    }
+    validateBucketConfig({ ...bucketConfigFromEnv(), ...input.bucketConfig });
+  }
+}
+
+function toData(input: RoundTemplateInput) {
+  return {
+    name: input.name.trim(),
+    mode: input.mode,
+    asset: input.asset,
+    durationSeconds: input.durationSeconds,
+    lockBeforeEndSeconds: input.lockBeforeEndSeconds,
+    cadence: input.cadence,
+    bucketConfig: input.bucketConfig
+      ? JSON.parse(JSON.stringify(input.bucketConfig))
+      : Prisma.DbNull,
+    minStake: input.minStake ?? null,
+    maxStake: input.maxStake ?? null,
+    enabled: input.enabled,
+  };
+}
+
+function fromTemplate(template: RoundTemplate): RoundTemplateInput {
+  return {
+    name: template.name,
+    mode: template.mode,
+    asset: template.asset,
+    durationSeconds: template.durationSeconds,
+    lockBeforeEndSeconds: template.lockBeforeEndSeconds,
+    cadence: template.cadence,
+    bucketConfig: template.bucketConfig as RoundTemplateInput["bucketConfig"],
+    minStake: template.minStake && toAmount(template.minStake),
+    maxStake: template.maxStake && toAmount(template.maxStake),
+    enabled: template.enabled,
+  };
+}
+
+/**
+ * Maps unique-name violations to TEMPLATE_NAME_TAKEN and missing rows to
+ * TEMPLATE_NOT_FOUND
+ */
+function mapWriteError(error: any, name?: string): any {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === "P2002") {
+      return templateError(
+        "TEMPLATE_NAME_TAKEN",
+        `A round template named "${name}" already exists`,
+      );
+    }
+    if (error.code === "P2025") {
+      return templateError("TEMPLATE_NOT_FOUND", "Round template not found");
+    }
+  }
+  return error;
+}
+
+/**
+ * Stored round series. Each enabled template is run by the round scheduler,
+ * which starts a round on the template's cadence.
+ */
+export class RoundTemplateService {
+  async listTemplates(): Promise<RoundTemplate[]> {
+    return prisma.roundTemplate.findMany({ orderBy: { createdAt: "asc" } });
+  }
+
+  async getEnabledTemplates(): Promise<RoundTemplate[]> {
+    return prisma.roundTemplate.findMany({ where: { enabled: true } });
+  }
+
+  async getTemplate(id: string): Promise<RoundTemplate | null> {
+    return prisma.roundTemplate.findUnique({ where: { id } });
+  }
+
+  async createTemplate(input: RoundTemplateInput): Promise<RoundTemplate> {
+    validateTemplate(input);
+
+    try {
+      const template = await prisma.roundTemplate.create({
+        data: toData(input),
+      });
+      logger.info(`Round template created: ${template.id} (${template.name})`);
+      return template;
+    } catch (error) {
+      throw mapWriteError(error, input.name.trim());
+    }
+  }
+
+  /**
+   * Applies a partial update; the merged template is validated as a whole
+   */
+  async updateTemplate(
+    id: string,
+    changes: Partial<RoundTemplateInput>,
+  ): Promise<RoundTemplate> {
+    const existing = await this.getTemplate(id);
+    if (!existing) {
+      throw templateError("TEMPLATE_NOT_FOUND", "Round template not found");
+    }
+
+    const merged: RoundTemplateInput = { ...fromTemplate(existing), ...changes };
+    validateTemplate(merged);
+
+    try {
+      const template = await prisma.roundTemplate.update({
+        where: { id },
+        data: toData(merged),
+      });
+      logger.info(`Round template updated: ${template.id} (${template.name})`);
+      return template;
+    } catch (error) {
+      throw mapWriteError(error, merged.name.trim());
+    }
+  }
+
+  /**
+   * Deletes a template. Rounds it already created are kept.
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    try {
+      await prisma.roundTemplate.delete({ where: { id } });
+      logger.info(`Round template deleted: ${id}`);
+    } catch (error) {
+      throw mapWriteError(error);
+    }
+  }
+}
+
+export default new RoundTemplateService();
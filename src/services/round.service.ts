@@ -1,134 +1,583 @@
-import { GameMode } from "@prisma/client";
+import { Asset, GameMode, Prisma, Round } from "@prisma/client";
 import sorobanService from "./soroban.service";
 import websocketService from "./websocket.service";
 import notificationService from "./notification.service";
+import legendsBucketService, {
+  bucketConfigFromEnv,
+  validateBucketConfig,
+} from "./legends-buckets";
+import roundStateService, {
+  RoundActor,
+  SCHEDULER_ACTOR,
+  SYSTEM_ACTOR,
+} from "./round-state.service";
 import logger from "../utils/logger";
 import { prisma } from "../lib/prisma";
+import { withPriceRanges } from "../utils/price-range.util";
+import {
+  PREDICTION_AMOUNT_FIELDS,
+  ROUND_AMOUNT_FIELDS,
+  stroopsToAmount,
+  sumStroops,
+  toAmount,
+  withAmounts,
+} from "../utils/money.util";
+import {
+  ASSET_QUOTES,
+  DEFAULT_ASSET,
+  ON_CHAIN_ASSET,
+} from "../utils/asset.util";
+import {
+  BucketConfig,
+  PriceRange,
+  RoundSettings,
+} from "../types/round.types";
+
+const DEFAULT_BETTING_LOCK_PERCENT = 25;
+// setTimeout overflows past ~24.8 days; longer waits are re-armed in steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * When betting closes on a round: `lockBeforeEndSeconds` before endTime when
+ * given (template rounds), otherwise for the last BETTING_LOCK_PERCENT
+ * (default 25) percent of the round
+ */
+export function bettingLockTime(
+  startTime: Date,
+  endTime: Date,
+  lockBeforeEndSeconds?: number | null,
+): Date {
+  let lockMs: number;
+  if (lockBeforeEndSeconds != null) {
+    lockMs = lockBeforeEndSeconds * 1000;
+  } else {
+    const percent = parseFloat(
+      process.env.BETTING_LOCK_PERCENT ?? `${DEFAULT_BETTING_LOCK_PERCENT}`,
+    );
+    const lockPercent =
+      Number.isFinite(percent) && percent >= 0 && percent < 100
+        ? percent
+        : DEFAULT_BETTING_LOCK_PERCENT;
+    lockMs = ((endTime.getTime() - startTime.getTime()) * lockPercent) / 100;
+  }
+
+  return new Date(endTime.getTime() - lockMs);
+}
+
+// Reads a round's LEGENDS buckets in index order
+const BUCKETS_INCLUDE = {
+  buckets: { orderBy: { index: "asc" as const } },
+};
+
+// Partial unique index allowing one ACTIVE round per asset and mode
+const ACTIVE_ROUND_INDEX = "Round_asset_mode_active_key";
+
+function activeRoundExists(asset: Asset, mode: GameMode, roundId?: string): Error {
+  const error: any = new Error(
+    `An active ${asset} ${mode} round already exists${roundId ? ` (ID: ${roundId})` : ""}`,
+  );
+  error.code = "ACTIVE_ROUND_EXISTS";
+  return error;
+}
+
+/**
+ * Whether `error` is a violation of ACTIVE_ROUND_INDEX, raised when a
+ * concurrent start or promotion activated a round of the same asset and mode
+ * after assertNoActiveRound passed
+ */
+function isActiveRoundConflict(error: unknown): boolean {
+  if (
+    !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+    error.code !== "P2002"
+  ) {
+    return false;
+  }
+
+  const target = error.meta?.target;
+  const fields = Array.isArray(target) ? target : [String(target)];
+  return (
+    fields.includes(ACTIVE_ROUND_INDEX) ||
+    (fields.includes("asset") && fields.includes("mode"))
+  );
+}
+
+function toBucketRows(priceRanges: PriceRange[]) {
+  return priceRanges.map((range, index) => ({
+    index,
+    min: range.min,
+    max: range.max,
+  }));
+}
 
 export class RoundService {
+  // Pending lock timers by round id
+  private lockTimers = new Map<string, NodeJS.Timeout>();
+
   /**
-   * Starts a new prediction round
+   * Starts a new prediction round. Rounds on different assets run in
+   * parallel; only one round per asset and mode may be active at a time.
+   * `bucketConfig` overrides the LEGENDS_BUCKET_* defaults for LEGENDS rounds.
+   * `actor` is recorded as the creator in the round's event log, and
+   * `settings` carries the betting lock offset, stake limits and series of
+   * rounds created from a template.
    */
   async startRound(
     mode: "UP_DOWN" | "LEGENDS",
     startPrice: number,
     durationMinutes: number,
+    asset: Asset = DEFAULT_ASSET,
+    bucketConfig?: Partial<BucketConfig>,
+    actor: RoundActor = SYSTEM_ACTOR,
+    settings: RoundSettings = {},
   ): Promise<any> {
     try {
       const gameMode = mode === "UP_DOWN" ? GameMode.UP_DOWN : GameMode.LEGENDS;
 
-      // Check for existing active round of the same mode
-      const existingActiveRound = await prisma.round.findFirst({
-        where: {
-          mode: gameMode,
-          status: "ACTIVE",
-        },
-      });
+      await this.assertNoActiveRound(asset, gameMode);
 
-      if (existingActiveRound) {
-        const error: any = new Error(
-          `An active ${mode} round already exists (ID: ${existingActiveRound.id})`
-        );
-        error.code = "ACTIVE_ROUND_EXISTS";
+      const startTime = new Date();
+      const endTime = new Date(
+        startTime.getTime() + durationMinutes * 60 * 1000,
+      );
+
+      const priceRanges = await this.generatePriceRanges(
+        gameMode,
+        asset,
+        startPrice,
+        durationMinutes,
+        bucketConfig,
+      );
+
+      // Create round in database, with its creation event; the active round
+      // index rejects a concurrent start that passed the check above. The
+      // on-chain round is only created once the slot is claimed.
+      let round;
+      try {
+        round = await prisma.$transaction(async (tx) => {
+          const created = await tx.round.create({
+            data: {
+              mode: gameMode,
+              asset,
+              status: "ACTIVE",
+              startTime,
+              endTime,
+              startPrice,
+              buckets: priceRanges
+                ? { create: toBucketRows(priceRanges) }
+                : undefined,
+              lockTime: bettingLockTime(
+                startTime,
+                endTime,
+                settings.lockBeforeEndSeconds,
+              ),
+              minStake: settings.minStake ?? null,
+              maxStake: settings.maxStake ?? null,
+              templateId: settings.templateId ?? null,
+            },
+            include: BUCKETS_INCLUDE,
+          });
+
+          await roundStateService.recordCreated(tx, created.id, "ACTIVE", actor);
+          return withPriceRanges(created);
+        });
+      } catch (error) {
+        if (isActiveRoundConflict(error)) {
+          throw activeRoundExists(asset, gameMode);
+        }
         throw error;
       }
 
-      const startTime = new Date();
+      const sorobanRoundId = await this.launchOnChain(
+        round,
+        startPrice,
+        durationMinutes,
+        actor,
+      );
+      round = { ...round, sorobanRoundId };
+
+      logger.info(
+        `Round created: ${round.id}, mode=${mode}, asset=${asset}, sorobanId=${sorobanRoundId}`,
+      );
+
+      await this.announceRound(round);
+
+      return round;
+    } catch (error) {
+      logger.error("Failed to start round:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Schedules a round to start in the future. The round is stored as PENDING
+   * and promoted to ACTIVE by the round scheduler at `startTime`, when its
+   * start price is taken from the oracle. Scheduled rounds of the same asset
+   * and mode may not overlap.
+   */
+  async scheduleRound(
+    mode: "UP_DOWN" | "LEGENDS",
+    startTime: Date,
+    durationMinutes: number,
+    asset: Asset = DEFAULT_ASSET,
+    bucketConfig?: Partial<BucketConfig>,
+    actor: RoundActor = SYSTEM_ACTOR,
+  ): Promise<any> {
+    try {
+      const gameMode = mode === "UP_DOWN" ? GameMode.UP_DOWN : GameMode.LEGENDS;
+
+      if (!(startTime.getTime() > Date.now())) {
+        const error: any = new Error("startTime must be in the future");
+        error.code = "INVALID_START_TIME";
+        throw error;
+      }
+
+      if (gameMode === GameMode.LEGENDS) {
+        // Fail now rather than at promotion time
+        validateBucketConfig({ ...bucketConfigFromEnv(), ...bucketConfig });
+      }
+
       const endTime = new Date(
         startTime.getTime() + durationMinutes * 60 * 1000,
       );
 
-      let sorobanRoundId: string | null = null;
+      const overlapping = await prisma.round.findFirst({
+        where: {
+          asset,
+          mode: gameMode,
+          status: { in: ["PENDING", "ACTIVE", "LOCKED"] },
+          startTime: { lt: endTime },
+          endTime: { gt: startTime },
+        },
+      });
 
-      // Mode 0 (UP_DOWN): Create round on Soroban contract
-      if (mode === "UP_DOWN") {
-        // Convert duration to ledgers (~5 seconds per ledger)
-        const durationLedgers = Math.floor((durationMinutes * 60) / 5);
-        sorobanRoundId = await sorobanService.createRound(
-          startPrice,
-          durationLedgers,
+      if (overlapping) {
+        const error: any = new Error(
+          `Round overlaps ${overlapping.status} ${asset} ${mode} round ${overlapping.id} (${overlapping.startTime.toISOString()} - ${overlapping.endTime.toISOString()})`,
         );
+        error.code = "ROUND_SCHEDULE_CONFLICT";
+        throw error;
       }
 
-      // Mode 1 (LEGENDS): Define price ranges
-      let priceRanges: any = null;
-      if (mode === "LEGENDS") {
-        // Create 5 price ranges around the current price
-        const rangeWidth = startPrice * 0.05; // 5% range width
-        priceRanges = [
-          {
-            min: startPrice - rangeWidth * 2,
-            max: startPrice - rangeWidth,
-            pool: 0,
+      const round = await prisma.$transaction(async (tx) => {
+        const created = await tx.round.create({
+          data: {
+            mode: gameMode,
+            asset,
+            status: "PENDING",
+            startTime,
+            endTime,
+            startPrice: 0,
+            bucketConfig:
+              gameMode === GameMode.LEGENDS && bucketConfig
+                ? JSON.parse(JSON.stringify(bucketConfig))
+                : undefined,
           },
-          { min: startPrice - rangeWidth, max: startPrice, pool: 0 },
-          { min: startPrice, max: startPrice + rangeWidth, pool: 0 },
-          {
-            min: startPrice + rangeWidth,
-            max: startPrice + rangeWidth * 2,
-            pool: 0,
-          },
-          {
-            min: startPrice + rangeWidth * 2,
-            max: startPrice + rangeWidth * 3,
-            pool: 0,
-          },
-        ];
-      }
+        });
 
-      // Create round in database
-      const round = await prisma.round.create({
-        data: {
-          mode: gameMode,
-          status: "ACTIVE",
-          startTime,
-          endTime,
-          startPrice,
-          sorobanRoundId,
-          priceRanges: priceRanges
-            ? JSON.parse(JSON.stringify(priceRanges))
-            : null,
-        },
+        await roundStateService.recordCreated(tx, created.id, "PENDING", actor);
+        return created;
       });
 
       logger.info(
-        `Round created: ${round.id}, mode=${mode}, sorobanId=${sorobanRoundId}`,
+        `Round scheduled: ${round.id}, mode=${mode}, asset=${asset}, startTime=${startTime.toISOString()}`,
       );
 
-      // Emit round started event
-      websocketService.emitRoundStarted(round);
+      return round;
+    } catch (error) {
+      logger.error("Failed to schedule round:", error);
+      throw error;
+    }
+  }
 
-      // Create and broadcast ROUND_START notification to all users
+  /**
+   * Promotes every PENDING round whose startTime has arrived. Returns the
+   * number of rounds promoted.
+   */
+  async promoteDueRounds(
+    getPrice: (asset: Asset) => number | null,
+    actor: RoundActor = SCHEDULER_ACTOR,
+  ): Promise<number> {
+    const dueRounds = await prisma.round.findMany({
+      where: {
+        status: "PENDING",
+        startTime: { lte: new Date() },
+      },
+      orderBy: { startTime: "asc" },
+    });
+
+    let promoted = 0;
+    for (const round of dueRounds) {
       try {
-        const users = await prisma.user.findMany({
-          select: { id: true },
+        if (await this.promoteRound(round, getPrice(round.asset), actor)) {
+          promoted += 1;
+        }
+      } catch (error) {
+        logger.error(`Failed to promote round ${round.id}:`, error);
+      }
+    }
+
+    return promoted;
+  }
+
+  /**
+   * Activates a PENDING round at `startPrice`, keeping its scheduled
+   * duration from now. Returns false (to retry later) when there is no
+   * usable price yet or the previous round on the same asset and mode is
+   * still active.
+   */
+  private async promoteRound(
+    round: Round,
+    startPrice: number | null,
+    actor: RoundActor,
+  ): Promise<boolean> {
+    if (!startPrice || startPrice <= 0) {
+      logger.warn(
+        `Cannot promote round ${round.id}: no ${round.asset} price from oracle`,
+      );
+      return false;
+    }
+
+    const active = await prisma.round.findFirst({
+      where: { asset: round.asset, mode: round.mode, status: "ACTIVE" },
+    });
+
+    if (active) {
+      logger.info(
+        `Delaying round ${round.id}: ${round.asset} ${round.mode} round ${active.id} is still active`,
+      );
+      return false;
+    }
+
+    const durationMs = round.endTime.getTime() - round.startTime.getTime();
+    const startTime = new Date();
+    const endTime = new Date(startTime.getTime() + durationMs);
+
+    const durationMinutes = durationMs / 60000;
+    const priceRanges = await this.generatePriceRanges(
+      round.mode,
+      round.asset,
+      startPrice,
+      durationMinutes,
+      (round.bucketConfig as Partial<BucketConfig> | null) ?? undefined,
+    );
+
+    // Claim the round before creating anything on-chain, so a round cancelled
+    // or promoted elsewhere in the meantime never gets an on-chain twin
+    let promoted;
+    try {
+      promoted = await prisma.$transaction(async (tx) => {
+        const from = await roundStateService.transition(round.id, "ACTIVE", actor, {
+          tx,
+          from: ["PENDING"],
+          data: {
+            startPrice,
+            startTime,
+            endTime,
+            lockTime: bettingLockTime(startTime, endTime),
+          },
         });
 
-        for (const user of users) {
-          const notif = await notificationService.createNotification({
-            userId: user.id,
-            type: "ROUND_START",
-            title: "New Round Started!",
-            message: `A new ${mode === "UP_DOWN" ? "Up/Down" : "Legends"} round has started! Place your prediction now. Starting price: $${startPrice.toFixed(4)}`,
-            data: { roundId: round.id, startPrice },
+        if (from && priceRanges) {
+          await tx.roundBucket.createMany({
+            data: toBucketRows(priceRanges).map((bucket) => ({
+              ...bucket,
+              roundId: round.id,
+            })),
           });
-
-          if (notif) {
-            websocketService.emitNotification(user.id, notif);
-          }
         }
-      } catch (error) {
-        logger.error("Failed to send round start notifications:", error);
-        // Don't throw - let the round creation succeed even if notifications fail
+        return from;
+      });
+    } catch (error) {
+      // Another round of the asset and mode went active since the check above
+      if (isActiveRoundConflict(error)) {
+        logger.info(
+          `Delaying round ${round.id}: another ${round.asset} ${round.mode} round went active concurrently`,
+        );
+        return false;
       }
+      throw error;
+    }
 
-      return round;
+    if (!promoted) {
+      // Cancelled or promoted elsewhere in the meantime
+      return false;
+    }
+
+    const sorobanRoundId = await this.launchOnChain(
+      round,
+      startPrice,
+      durationMinutes,
+      actor,
+    );
+
+    const activated = withPriceRanges(
+      await prisma.round.findUniqueOrThrow({
+        where: { id: round.id },
+        include: BUCKETS_INCLUDE,
+      }),
+    );
+
+    logger.info(
+      `Round promoted: ${round.id}, asset=${round.asset}, startPrice=${startPrice}, sorobanId=${sorobanRoundId}`,
+    );
+
+    await this.announceRound(activated);
+
+    return true;
+  }
+
+  /**
+   * Gets PENDING rounds, soonest first
+   */
+  async getUpcomingRounds(
+    options: { asset?: Asset; mode?: GameMode; limit?: number } = {},
+  ): Promise<any[]> {
+    try {
+      return await prisma.round.findMany({
+        where: {
+          status: "PENDING",
+          ...(options.asset && { asset: options.asset }),
+          ...(options.mode && { mode: options.mode }),
+        },
+        orderBy: { startTime: "asc" },
+        take: Math.min(options.limit ?? 20, 100),
+      });
     } catch (error) {
-      logger.error("Failed to start round:", error);
+      logger.error("Failed to get upcoming rounds:", error);
       throw error;
     }
   }
 
+  private async assertNoActiveRound(
+    asset: Asset,
+    mode: GameMode,
+  ): Promise<void> {
+    // Check for existing active round of the same asset and mode
+    const existingActiveRound = await prisma.round.findFirst({
+      where: {
+        asset,
+        mode,
+        status: "ACTIVE",
+      },
+    });
+
+    if (existingActiveRound) {
+      throw activeRoundExists(asset, mode, existingActiveRound.id);
+    }
+  }
+
+  /**
+   * Generates the LEGENDS buckets for a round about to go live; null for
+   * other modes
+   */
+  private async generatePriceRanges(
+    mode: GameMode,
+    asset: Asset,
+    startPrice: number,
+    durationMinutes: number,
+    bucketConfig?: Partial<BucketConfig>,
+  ): Promise<PriceRange[] | null> {
+    if (mode !== GameMode.LEGENDS) {
+      return null;
+    }
+
+    return legendsBucketService.generateBuckets(
+      asset,
+      startPrice,
+      durationMinutes,
+      bucketConfig,
+    );
+  }
+
+  /**
+   * Creates the on-chain twin (XLM Up/Down only) of a round that has just
+   * gone ACTIVE, outside any transaction, and records its id. Bets on the
+   * round are refused until the id is recorded. When the contract call
+   * fails the round is cancelled, since it can never be settled on-chain.
+   * Returns the on-chain round id, or null for rounds kept off-chain.
+   */
+  private async launchOnChain(
+    round: Pick<Round, "id" | "mode" | "asset">,
+    startPrice: number,
+    durationMinutes: number,
+    actor: RoundActor,
+  ): Promise<string | null> {
+    if (round.mode !== GameMode.UP_DOWN || round.asset !== ON_CHAIN_ASSET) {
+      return null;
+    }
+
+    // Convert duration to ledgers (~5 seconds per ledger)
+    const durationLedgers = Math.floor((durationMinutes * 60) / 5);
+
+    let sorobanRoundId: string;
+    try {
+      sorobanRoundId = await sorobanService.createRound(
+        startPrice,
+        durationLedgers,
+      );
+    } catch (error) {
+      await roundStateService.transition(round.id, "CANCELLED", actor, {
+        from: ["ACTIVE"],
+        reason: "On-chain round creation failed",
+      });
+      throw error;
+    }
+
+    try {
+      await prisma.round.update({
+        where: { id: round.id },
+        data: { sorobanRoundId },
+      });
+    } catch (error) {
+      logger.error(
+        `Round ${round.id}: failed to record on-chain round ${sorobanRoundId}`,
+        error,
+      );
+      throw error;
+    }
+
+    return sorobanRoundId;
+  }
+
+  /**
+   * Arms the round's lock timer, emits round:started and sends ROUND_START
+   * notifications to all users
+   */
+  private async announceRound(
+    round: Round & { priceRanges: PriceRange[] | null },
+  ): Promise<void> {
+    const { asset, startPrice } = round;
+
+    this.scheduleLock(round);
+
+    // Emit round started event
+    websocketService.emitRoundStarted(round);
+
+    // Create and broadcast ROUND_START notification to all users
+    try {
+      const users = await prisma.user.findMany({
+        select: { id: true },
+      });
+
+      for (const user of users) {
+        const notif = await notificationService.createNotification({
+          userId: user.id,
+          type: "ROUND_START",
+          title: "New Round Started!",
+          message: `A new ${asset} ${round.mode === GameMode.UP_DOWN ? "Up/Down" : "Legends"} round has started! Place your prediction now. Starting price: ${startPrice.toFixed(4)} ${ASSET_QUOTES[asset]}`,
+          data: { roundId: round.id, asset, startPrice },
+        });
+
+        if (notif) {
+          websocketService.emitNotification(user.id, notif);
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to send round start notifications:", error);
+      // Don't throw - let the round creation succeed even if notifications fail
+    }
+  }
+
   /**
    * Gets a round by ID
    */
@@ -147,10 +596,19 @@ export class RoundService {
               },
             },
           },
+          ...BUCKETS_INCLUDE,
         },
       });
 
-      return round;
+      return (
+        round &&
+        withPriceRanges({
+          ...withAmounts(round, ROUND_AMOUNT_FIELDS),
+          predictions: round.predictions.map((prediction) =>
+            withAmounts(prediction, PREDICTION_AMOUNT_FIELDS),
+          ),
+        })
+      );
     } catch (error) {
       logger.error("Failed to get round:", error);
       throw error;
@@ -158,20 +616,24 @@ export class RoundService {
   }
 
   /**
-   * Gets all active rounds
+   * Gets all active rounds, optionally for a single asset
    */
-  async getActiveRounds(): Promise<any[]> {
+  async getActiveRounds(asset?: Asset): Promise<any[]> {
     try {
       const rounds = await prisma.round.findMany({
         where: {
           status: "ACTIVE",
+          ...(asset && { asset }),
         },
         orderBy: {
           startTime: "desc",
         },
+        include: BUCKETS_INCLUDE,
       });
 
-      return rounds;
+      return rounds.map((round) =>
+        withPriceRanges(withAmounts(round, ROUND_AMOUNT_FIELDS)),
+      );
     } catch (error) {
       logger.error("Failed to get active rounds:", error);
       throw error;
@@ -179,16 +641,32 @@ export class RoundService {
   }
 
   /**
-   * Locks a round (no more predictions allowed)
+   * Locks an active round (no more predictions allowed) and emits
+   * round:locked. Returns false when the round was no longer ACTIVE.
    */
-  async lockRound(roundId: string): Promise<void> {
+  async lockRound(
+    roundId: string,
+    actor: RoundActor = SYSTEM_ACTOR,
+  ): Promise<boolean> {
     try {
-      await prisma.round.update({
-        where: { id: roundId },
-        data: { status: "LOCKED" },
-      });
+      this.clearLockTimer(roundId);
+
+      const from = await roundStateService.transition(
+        roundId,
+        "LOCKED",
+        actor,
+        { from: ["ACTIVE"] },
+      );
+
+      if (from) {
+        logger.info(`Round locked: ${roundId}`);
 
-      logger.info(`Round locked: ${roundId}`);
+        const round = await prisma.round.findUnique({ where: { id: roundId } });
+        if (round) {
+          websocketService.emitRoundLocked(round);
+        }
+      }
+      return from !== null;
     } catch (error) {
       logger.error("Failed to lock round:", error);
       throw error;
@@ -196,30 +674,106 @@ export class RoundService {
   }
 
   /**
-   * Checks if a round should be auto-locked based on time
+   * Locks the round when betting closes (lockTime, or endTime for rounds
+   * without one). Replaces any timer already armed for the round; an overdue
+   * round is locked right away.
    */
-  async autoLockExpiredRounds(): Promise<void> {
-    try {
-      const now = new Date();
+  scheduleLock(round: Pick<Round, "id" | "lockTime" | "endTime">): void {
+    this.clearLockTimer(round.id);
 
-      const expiredRounds = await prisma.round.findMany({
-        where: {
-          status: "ACTIVE",
-          endTime: {
-            lte: now,
-          },
-        },
+    const lockAt = (round.lockTime ?? round.endTime).getTime();
+    const delay = Math.max(0, lockAt - Date.now());
+
+    const timer = setTimeout(() => {
+      this.lockTimers.delete(round.id);
+
+      if (delay > MAX_TIMER_DELAY_MS) {
+        this.scheduleLock(round);
+        return;
+      }
+
+      this.lockRound(round.id, SCHEDULER_ACTOR).catch((error) =>
+        logger.error(`Failed to lock round ${round.id} on its timer:`, error),
+      );
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+
+    // Never keep the process alive just to lock a round
+    timer.unref();
+    this.lockTimers.set(round.id, timer);
+  }
+
+  /**
+   * Arms lock timers for every ACTIVE round, e.g. after a restart. Returns
+   * the number of rounds armed.
+   */
+  async armLockTimers(): Promise<number> {
+    try {
+      const activeRounds = await prisma.round.findMany({
+        where: { status: "ACTIVE" },
+        select: { id: true, lockTime: true, endTime: true },
       });
 
-      for (const round of expiredRounds) {
-        await this.lockRound(round.id);
+      for (const round of activeRounds) {
+        this.scheduleLock(round);
       }
 
-      if (expiredRounds.length > 0) {
-        logger.info(`Auto-locked ${expiredRounds.length} expired rounds`);
+      if (activeRounds.length > 0) {
+        logger.info(`Armed lock timers for ${activeRounds.length} active rounds`);
       }
+      return activeRounds.length;
     } catch (error) {
-      logger.error("Failed to auto-lock expired rounds:", error);
+      logger.error("Failed to arm round lock timers:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Locks every ACTIVE round whose betting window has closed. Backs up the
+   * lock timers for rounds whose timer was lost (armed on another instance,
+   * or cleared on demotion). Returns the number of rounds locked.
+   */
+  async lockOverdueRounds(): Promise<number> {
+    const now = new Date();
+    const overdueRounds = await prisma.round.findMany({
+      where: {
+        status: "ACTIVE",
+        OR: [
+          { lockTime: { lte: now } },
+          { lockTime: null, endTime: { lte: now } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    let locked = 0;
+    for (const round of overdueRounds) {
+      try {
+        if (await this.lockRound(round.id, SCHEDULER_ACTOR)) {
+          locked += 1;
+        }
+      } catch (error) {
+        logger.error(`Failed to lock overdue round ${round.id}:`, error);
+      }
+    }
+
+    return locked;
+  }
+
+  /**
+   * Cancels every pending lock timer
+   */
+  clearLockTimers(): void {
+    for (const timer of this.lockTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.lockTimers.clear();
+  }
+
+  private clearLockTimer(roundId: string): void {
+    const timer = this.lockTimers.get(roundId);
+    if (timer) {
+      clearTimeout(timer);
+      this.lockTimers.delete(roundId);
     }
   }
 
@@ -230,6 +784,7 @@ export class RoundService {
     limit?: number;
     offset?: number;
     mode?: "UP_DOWN" | "LEGENDS";
+    asset?: Asset;
     status?: "RESOLVED" | "CANCELLED";
   }): Promise<{
     rounds: any[];
@@ -253,6 +808,10 @@ export class RoundService {
         where.mode = options.mode;
       }
 
+      if (options.asset) {
+        where.asset = options.asset;
+      }
+
       if (options.status) {
         where.status = options.status;
       }
@@ -269,34 +828,51 @@ export class RoundService {
         skip: offset,
         take: limit,
         include: {
+          // Cashed-out stakes were refunded and are not in the pool
           predictions: {
+            where: { withdrawnAt: null },
             select: {
+              userId: true,
               amount: true,
               won: true,
             },
           },
+          resolution: {
+            select: {
+              feeBps: true,
+              houseFee: true,
+            },
+          },
+          ...BUCKETS_INCLUDE,
         },
       });
 
       // Transform rounds to include aggregate stats
-      const roundsWithStats = rounds.map((round: any) => {
+      const roundsWithStats = rounds.map((round) => {
         const totalPredictions = round.predictions.length;
-        const totalPool = round.predictions.reduce(
-          (sum: number, p: any) => sum + p.amount,
-          0,
+        const totalPool = stroopsToAmount(
+          sumStroops(round.predictions.map((p: any) => p.amount)),
         );
-        const winnerCount = round.predictions.filter(
-          (p: any) => p.won === true,
-        ).length;
+        // Users, not bets: a user may hold several winning bets on a round
+        const winnerCount = new Set(
+          round.predictions
+            .filter((p: any) => p.won === true)
+            .map((p: any) => p.userId),
+        ).size;
 
         // Remove predictions array and add aggregate stats
-        const { predictions, ...roundData } = round;
+        const { predictions, resolution, ...roundData } = withPriceRanges(
+          withAmounts(round, ROUND_AMOUNT_FIELDS),
+        );
 
         return {
           ...roundData,
           totalPredictions,
           totalPool: totalPool.toFixed(2),
           winnerCount,
+          // Cancelled rounds take no fee
+          feeBps: resolution?.feeBps ?? 0,
+          houseFee: resolution ? toAmount(resolution.houseFee) : 0,
         };
       });
 
@@ -1,7 +1,11 @@
 import cron, { ScheduledTask } from "node-cron";
 import resolutionService from "./resolution.service";
 import notificationService from "./notification.service";
-import priceOracle from "./oracle";
+import ledgerService from "./ledger.service";
+import priceHistoryService from "./price-history.service";
+import idempotencyService from "./idempotency.service";
+import roundService from "./round.service";
+import { SCHEDULER_ACTOR } from "./round-state.service";
 import logger from "../utils/logger";
 import { prisma } from "../lib/prisma";
 
@@ -9,30 +13,38 @@ class SchedulerService {
   private cronTasks: ScheduledTask[] = [];
 
   /**
-   * Start the scheduler
+   * Start the scheduler. Maintenance jobs always run; only auto-resolution
+   * depends on AUTO_RESOLVE_ENABLED.
    */
   start(): void {
-    if (process.env.AUTO_RESOLVE_ENABLED !== "true") {
-      logger.info("Auto-resolution scheduler is disabled");
-      return;
-    }
+    if (process.env.AUTO_RESOLVE_ENABLED === "true") {
+      const intervalSeconds = parseInt(
+        process.env.AUTO_RESOLVE_INTERVAL_SECONDS || "30",
+        10,
+      );
 
-    const intervalSeconds = parseInt(
-      process.env.AUTO_RESOLVE_INTERVAL_SECONDS || "30",
-      10,
-    );
+      // Create cron expression for interval (e.g., every 30 seconds)
+      // Note: node-cron supports seconds as the first field
+      const cronExpression = `*/${intervalSeconds} * * * * *`;
 
-    // Create cron expression for interval (e.g., every 30 seconds)
-    // Note: node-cron supports seconds as the first field
-    const cronExpression = `*/${intervalSeconds} * * * * *`;
+      logger.info(
+        `Starting auto-resolution scheduler (interval: ${intervalSeconds}s)`,
+      );
 
-    logger.info(
-      `Starting auto-resolution scheduler (interval: ${intervalSeconds}s)`,
-    );
+      this.cronTasks.push(
+        cron.schedule(cronExpression, async () => {
+          await this.autoResolveRounds();
+        }),
+      );
+    } else {
+      logger.info("Auto-resolution scheduler is disabled");
+    }
 
+    // Lock rounds whose lock timer never fired: Run every 30 seconds
+    logger.info("Starting round lock sweep (every 30s)");
     this.cronTasks.push(
-      cron.schedule(cronExpression, async () => {
-        await this.autoResolveRounds();
+      cron.schedule("*/30 * * * * *", async () => {
+        await this.lockOverdueRounds();
       }),
     );
 
@@ -43,6 +55,30 @@ class SchedulerService {
         await this.cleanupOldNotifications();
       }),
     );
+
+    // Schedule price history cleanup: Run daily at 3 AM
+    logger.info("Starting price history cleanup scheduler (daily at 3:00 AM)");
+    this.cronTasks.push(
+      cron.schedule("0 3 * * *", async () => {
+        await this.cleanupOldPriceSamples();
+      }),
+    );
+
+    // Schedule idempotency key cleanup: Run hourly
+    logger.info("Starting idempotency key cleanup scheduler (hourly)");
+    this.cronTasks.push(
+      cron.schedule("30 * * * *", async () => {
+        await this.cleanupExpiredIdempotencyKeys();
+      }),
+    );
+
+    // Schedule ledger reconciliation: Run hourly
+    logger.info("Starting ledger reconciliation scheduler (hourly)");
+    this.cronTasks.push(
+      cron.schedule("0 * * * *", async () => {
+        await this.reconcileLedger();
+      }),
+    );
   }
 
   /**
@@ -84,23 +120,55 @@ class SchedulerService {
 
       logger.info(`Found ${expiredRounds.length} expired rounds to resolve`);
 
-      // Get current price
-      const currentPrice = priceOracle.getPrice();
-
-      if (!currentPrice || currentPrice <= 0) {
-        logger.warn("Cannot auto-resolve rounds: Invalid price from oracle");
-        return;
-      }
+      const toleranceMs =
+        parseInt(process.env.AUTO_RESOLVE_PRICE_TOLERANCE_SECONDS || "30", 10) *
+        1000;
+      const graceMs =
+        parseInt(process.env.AUTO_CANCEL_GRACE_SECONDS || "600", 10) * 1000;
 
-      // Resolve each round
+      // Resolve each round at the oracle price as of its endTime
       for (const round of expiredRounds) {
         try {
-          await resolutionService.resolveRound(round.id, currentPrice);
+          const sample = await priceHistoryService.getSampleAt(
+            round.asset,
+            round.endTime,
+            toleranceMs,
+          );
+
+          if (!sample || sample.price <= 0) {
+            logger.warn(
+              `Cannot auto-resolve round ${round.id}: no oracle sample within ${toleranceMs / 1000}s before endTime ${round.endTime.toISOString()}`,
+            );
+            await this.cancelIfPastGrace(
+              round,
+              now,
+              graceMs,
+              "No oracle price was available at the round's end time",
+            );
+            continue;
+          }
+
+          await resolutionService.resolveRound(
+            round.id,
+            sample.price,
+            {
+              id: sample.id,
+              timestamp: sample.timestamp,
+              sources: sample.sources,
+            },
+            SCHEDULER_ACTOR,
+          );
           logger.info(
-            `Auto-resolved round ${round.id} with price ${currentPrice}`,
+            `Auto-resolved round ${round.id} with price ${sample.price} (sample ${sample.id} at ${sample.timestamp.toISOString()})`,
           );
         } catch (error) {
           logger.error(`Failed to auto-resolve round ${round.id}:`, error);
+          await this.cancelIfPastGrace(
+            round,
+            now,
+            graceMs,
+            "The round could not be resolved",
+          );
         }
       }
     } catch (error) {
@@ -108,6 +176,94 @@ class SchedulerService {
     }
   }
 
+  /**
+   * Cancels (and refunds) a round that has gone unresolved for longer than
+   * AUTO_CANCEL_GRACE_SECONDS past its endTime. A grace of 0 disables this.
+   */
+  private async cancelIfPastGrace(
+    round: { id: string; endTime: Date },
+    now: Date,
+    graceMs: number,
+    reason: string,
+  ): Promise<void> {
+    if (graceMs <= 0 || now.getTime() - round.endTime.getTime() < graceMs) {
+      return;
+    }
+
+    try {
+      await resolutionService.cancelRound(round.id, reason, SCHEDULER_ACTOR);
+      logger.warn(
+        `Auto-cancelled round ${round.id}: unresolved ${graceMs / 1000}s after endTime (${reason})`,
+      );
+    } catch (error) {
+      logger.error(`Failed to auto-cancel round ${round.id}:`, error);
+    }
+  }
+
+  /**
+   * Lock ACTIVE rounds past their lockTime, e.g. after a leader change
+   */
+  private async lockOverdueRounds(): Promise<void> {
+    try {
+      const locked = await roundService.lockOverdueRounds();
+      if (locked > 0) {
+        logger.info(`Round lock sweep: Locked ${locked} overdue rounds`);
+      }
+    } catch (error) {
+      logger.error("Error in round lock sweep:", error);
+    }
+  }
+
+  /**
+   * Verify that user balances match the ledger
+   */
+  private async reconcileLedger(): Promise<void> {
+    try {
+      const report = await ledgerService.reconcile();
+      if (!report.balanced) {
+        logger.error("Ledger reconciliation mismatch detected", {
+          mismatchedUsers: report.mismatchedUsers.slice(0, 20),
+          unbalancedJournals: report.unbalancedJournals.slice(0, 20),
+        });
+      }
+    } catch (error) {
+      logger.error("Error in ledger reconciliation scheduler:", error);
+    }
+  }
+
+  /**
+   * Cleanup raw price samples past the retention window (candles are kept)
+   */
+  private async cleanupOldPriceSamples(): Promise<void> {
+    try {
+      const retentionDays = parseInt(
+        process.env.PRICE_HISTORY_RETENTION_DAYS || "30",
+        10,
+      );
+      const deletedCount =
+        await priceHistoryService.cleanupOldSamples(retentionDays);
+      logger.info(
+        `Price history cleanup completed: Deleted ${deletedCount} samples`,
+      );
+    } catch (error) {
+      logger.error("Error in price history cleanup scheduler:", error);
+    }
+  }
+
+  /**
+   * Cleanup idempotency keys past IDEMPOTENCY_KEY_TTL_HOURS
+   */
+  private async cleanupExpiredIdempotencyKeys(): Promise<void> {
+    try {
+      const deletedCount = await idempotencyService.cleanupExpired();
+      logger.info(
+        `Idempotency key cleanup completed: Deleted ${deletedCount} keys`,
+      );
+    } catch (error) {
+      logger.error("Error in idempotency key cleanup scheduler:", error);
+    }
+  }
+
   /**
    * Cleanup old notifications (older than 30 days)
    */
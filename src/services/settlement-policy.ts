@@ -0,0 +1,173 @@
+import logger from "../utils/logger";
+
+const MAX_FEE_BPS = 10000n;
+
+/**
+ * What happens to the stakes of an UP_DOWN round whose final price equals
+ * its start price: REFUND every stake (default) or let the HOUSE keep them
+ */
+export type TieRule = "REFUND" | "HOUSE";
+
+/**
+ * Why a round settled the way it did
+ */
+export type SettlementReason =
+  // Stakes on the winning outcome share the losing pool
+  | "WINNERS"
+  // UP_DOWN final price equal to the start price
+  | "TIE"
+  // LEGENDS final price outside every range
+  | "NO_WINNING_RANGE"
+  // Nobody backed the outcome that won
+  | "NO_WINNERS"
+  // Nobody backed any other outcome, so there is nothing to win
+  | "NO_COUNTERPARTY";
+
+export type StakeOutcome = "WIN" | "LOSS" | "REFUND";
+
+/**
+ * A live (not cashed-out) bet of the round being settled. Every amount of a
+ * settlement is in stroops (see money.util), so it adds up exactly.
+ */
+export interface SettlementStake {
+  id: string;
+  amount: bigint;
+  // Backed the outcome that happened (ignored when the round is undecided)
+  winning: boolean;
+}
+
+export interface SettlementInput {
+  stakes: SettlementStake[];
+  // Set when no outcome won the round
+  undecided?: "TIE" | "NO_WINNING_RANGE";
+  // Cash-out penalties, shared by the winners like losing stakes
+  forfeitedPool: bigint;
+  feeBps: number;
+  tieRule: TieRule;
+}
+
+export interface SettlementPlan {
+  reason: SettlementReason;
+  // Every stake was refunded: nobody won or lost the round
+  refunded: boolean;
+  // By stake id; every stake gets an outcome
+  outcomes: Map<string, { outcome: StakeOutcome; payout: bigint }>;
+  // Taken from the losing pool for the house
+  houseFee: bigint;
+  // Left in escrow by rounding payouts down; swept to the house
+  dust: bigint;
+}
+
+/**
+ * Human-readable explanation of each settlement, for notifications
+ */
+export const SETTLEMENT_REASON_TEXT: Record<SettlementReason, string> = {
+  WINNERS: "the round was settled",
+  TIE: "the price closed where it started",
+  NO_WINNING_RANGE: "the price closed outside every range",
+  NO_WINNERS: "nobody backed the winning outcome",
+  NO_COUNTERPARTY: "nobody bet against the winning outcome",
+};
+
+/**
+ * Tie behaviour from SETTLEMENT_TIE_RULE (default REFUND)
+ */
+export function getTieRule(): TieRule {
+  const raw = process.env.SETTLEMENT_TIE_RULE;
+  if (!raw) {
+    return "REFUND";
+  }
+
+  const rule = raw.toUpperCase();
+  if (rule !== "REFUND" && rule !== "HOUSE") {
+    logger.warn(`Ignoring invalid SETTLEMENT_TIE_RULE=${raw}; ties are refunded`);
+    return "REFUND";
+  }
+
+  return rule;
+}
+
+function settleAll(
+  stakes: SettlementStake[],
+  reason: SettlementReason,
+  outcome: "LOSS" | "REFUND",
+): SettlementPlan {
+  return {
+    reason,
+    refunded: outcome === "REFUND",
+    outcomes: new Map(
+      stakes.map((stake) => [
+        stake.id,
+        { outcome, payout: outcome === "REFUND" ? stake.amount : 0n },
+      ]),
+    ),
+    houseFee: 0n,
+    dust: 0n,
+  };
+}
+
+/**
+ * Decides the outcome and payout of every stake of a round, the same way
+ * for both game modes:
+ *
+ * - No outcome won (TIE, NO_WINNING_RANGE): every stake is refunded, except
+ *   that a TIE under the HOUSE tie rule loses every stake to the house
+ * - One side empty (NO_WINNERS, NO_COUNTERPARTY): every stake is refunded,
+ *   as there is nobody to pay or nobody to be paid by
+ * - Otherwise (WINNERS): the house takes `feeBps` of the losing pool
+ *   (losing stakes plus forfeitedPool) and each winning stake gets itself
+ *   back plus its pro-rata share of the rest, rounded down to the stroop
+ *
+ * Forfeited cash-out penalties of a round that is refunded stay in escrow and
+ * are swept to the house.
+ */
+export function planSettlement(input: SettlementInput): SettlementPlan {
+  const { stakes, undecided, forfeitedPool, feeBps, tieRule } = input;
+
+  if (undecided) {
+    return settleAll(
+      stakes,
+      undecided,
+      undecided === "TIE" && tieRule === "HOUSE" ? "LOSS" : "REFUND",
+    );
+  }
+
+  const winningPool = stakes
+    .filter((stake) => stake.winning)
+    .reduce((sum, stake) => sum + stake.amount, 0n);
+  const losingStakes = stakes
+    .filter((stake) => !stake.winning)
+    .reduce((sum, stake) => sum + stake.amount, 0n);
+
+  if (winningPool === 0n) {
+    return settleAll(stakes, "NO_WINNERS", "REFUND");
+  }
+  if (losingStakes === 0n) {
+    return settleAll(stakes, "NO_COUNTERPARTY", "REFUND");
+  }
+
+  // Integer division rounds the fee and every share down to the stroop
+  const losingPool = losingStakes + forfeitedPool;
+  const houseFee = (losingPool * BigInt(feeBps)) / MAX_FEE_BPS;
+  const distributable = losingPool - houseFee;
+
+  const outcomes: SettlementPlan["outcomes"] = new Map();
+  let paid = 0n;
+  for (const stake of stakes) {
+    if (stake.winning) {
+      const payout = stake.amount + (stake.amount * distributable) / winningPool;
+      outcomes.set(stake.id, { outcome: "WIN", payout });
+      paid += payout;
+    } else {
+      outcomes.set(stake.id, { outcome: "LOSS", payout: 0n });
+    }
+  }
+
+  return {
+    reason: "WINNERS",
+    refunded: false,
+    outcomes,
+    houseFee,
+    dust: winningPool + distributable - paid,
+  };
+}
@@ -1,6 +1,7 @@
 // NOTE: @tevalabs/xelma-bindings not yet installed; using local type stubs below
 import { Keypair, Networks } from "@stellar/stellar-sdk";
 import logger from "../utils/logger";
+import { stroopsToAmount, toStroops } from "../utils/money.util";
 
 // Temporary loose typing until bindings are available
 const Client: any = undefined as any;
@@ -67,11 +68,9 @@ export class SorobanService {
         `Creating Soroban round: price=${startPrice}, duration=${durationLedgers}`,
       );
 
-      // Convert price to stroops (1 XLM = 10^7 stroops)
-      const priceInStroops = Math.floor(startPrice * 10_000_000);
-
+      // Prices are sent in stroops, like amounts (1 XLM = 10^7 stroops)
       const result = await this.client!.create_round({
-        start_price: BigInt(priceInStroops),
+        start_price: toStroops(startPrice),
         duration_ledgers: durationLedgers,
       });
 
@@ -97,9 +96,6 @@ export class SorobanService {
         `Placing bet on Soroban: user=${userAddress}, amount=${amount}, side=${side}`,
       );
 
-      // Convert amount to stroops
-      const amountInStroops = Math.floor(amount * 10_000_000);
-
       // BetSide is a type union: {tag: "Up", values: void} | {tag: "Down", values: void}
       const betSide: BetSide =
         side === "UP"
@@ -108,7 +104,7 @@ export class SorobanService {
 
       await this.client!.place_bet({
         user: userAddress,
-        amount: BigInt(amountInStroops),
+        amount: toStroops(amount),
         side: betSide,
       });
 
@@ -120,18 +116,19 @@ export class SorobanService {
   }
 
   /**
-   * Resolves a round on the Soroban contract
+   * Resolves a round on the Soroban contract. `feeBps` is the protocol fee
+   * taken from the losing pool, matching the off-chain settlement.
    */
-  async resolveRound(finalPrice: number): Promise<void> {
+  async resolveRound(finalPrice: number, feeBps = 0): Promise<void> {
     this.ensureInitialized();
     try {
-      logger.info(`Resolving Soroban round: finalPrice=${finalPrice}`);
-
-      // Convert price to stroops
-      const priceInStroops = Math.floor(finalPrice * 10_000_000);
+      logger.info(
+        `Resolving Soroban round: finalPrice=${finalPrice}, feeBps=${feeBps}`,
+      );
 
       await this.client!.resolve_round({
-        final_price: BigInt(priceInStroops),
+        final_price: toStroops(finalPrice),
+        fee_bps: feeBps,
       });
 
       logger.info("Soroban round resolved successfully");
@@ -162,8 +159,7 @@ export class SorobanService {
     this.ensureInitialized();
     try {
       const result = await this.client!.mint_initial({ user: userAddress });
-      // Convert from stroops to XLM
-      return Number(result) / 10_000_000;
+      return stroopsToAmount(BigInt(result));
     } catch (error) {
       logger.error("Failed to mint initial tokens:", error);
       throw new Error(`Soroban contract error: ${error}`);
@@ -177,8 +173,7 @@ export class SorobanService {
     if (!this.initialized) return 0;
     try {
       const balance = await this.client!.balance({ user: userAddress });
-      // Convert from stroops to XLM
-      return Number(balance) / 10_000_000;
+      return stroopsToAmount(BigInt(balance));
     } catch (error) {
       logger.error("Failed to get balance from Soroban:", error);
       return 0;
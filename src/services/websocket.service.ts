@@ -1,5 +1,6 @@
 import { Server as SocketIOServer } from 'socket.io';
 import logger from '../utils/logger';
+import { toAmount } from '../utils/money.util';
 
 class WebSocketService {
   private io: SocketIOServer | null = null;
@@ -31,6 +32,7 @@ class WebSocketService {
     this.io.to('round').emit("round:started", {
       id: round.id,
       mode: round.mode,
+      asset: round.asset,
       status: round.status,
       startTime: round.startTime,
       endTime: round.endTime,
@@ -53,7 +55,7 @@ class WebSocketService {
     this.io.to('round').emit("prediction:placed", {
       roundId,
       predictionId: prediction.id,
-      amount: prediction.amount,
+      amount: toAmount(prediction.amount),
       side: prediction.side,
       priceRange: prediction.priceRange,
     });
@@ -61,6 +63,64 @@ class WebSocketService {
     logger.info(`Emitted prediction:placed for prediction ${prediction.id}`);
   }
 
+  /**
+   * Emit event when a prediction is cashed out, with the round's pools
+   * after the withdrawal
+   */
+  emitPredictionWithdrawn(prediction: any, round: any, fee: number): void {
+    if (!this.io) {
+      logger.warn("WebSocket not initialized, cannot emit prediction:withdrawn");
+      return;
+    }
+
+    this.io.to('round').emit("prediction:withdrawn", {
+      roundId: round.id,
+      predictionId: prediction.id,
+      amount: toAmount(prediction.amount),
+      fee,
+      side: prediction.side,
+      priceRange: prediction.priceRange,
+      poolUp: toAmount(round.poolUp),
+      poolDown: toAmount(round.poolDown),
+      forfeitedPool: toAmount(round.forfeitedPool),
+    });
+
+    logger.info(`Emitted prediction:withdrawn for prediction ${prediction.id}`);
+  }
+
+  /**
+   * Emit a round's live odds after its pools changed
+   */
+  emitRoundOdds(odds: any): void {
+    if (!this.io) {
+      logger.warn("WebSocket not initialized, cannot emit round:odds");
+      return;
+    }
+
+    this.io.to('round').emit("round:odds", odds);
+  }
+
+  /**
+   * Emit event when betting closes on a round
+   */
+  emitRoundLocked(round: any): void {
+    if (!this.io) {
+      logger.warn("WebSocket not initialized, cannot emit round:locked");
+      return;
+    }
+
+    this.io.to('round').emit("round:locked", {
+      id: round.id,
+      mode: round.mode,
+      asset: round.asset,
+      status: round.status,
+      lockedAt: round.lockedAt,
+      endTime: round.endTime,
+    });
+
+    logger.info(`Emitted round:locked for round ${round.id}`);
+  }
+
   /**
    * Emit event when a round is resolved
    */
@@ -83,6 +143,29 @@ class WebSocketService {
     logger.info(`Emitted round:resolved for round ${round.id}`);
   }
 
+  /**
+   * Emit event when a round is cancelled and its stakes refunded
+   */
+  emitRoundCancelled(round: any): void {
+    if (!this.io) {
+      logger.warn("WebSocket not initialized, cannot emit round:cancelled");
+      return;
+    }
+
+    this.io.to('round').emit("round:cancelled", {
+      id: round.id,
+      mode: round.mode,
+      asset: round.asset,
+      status: round.status,
+      reason: round.cancelReason,
+      cancelledAt: round.cancelledAt,
+      // Cashed-out bets get no refund
+      refunds: (round.predictions ?? []).filter((p: any) => !p.withdrawnAt).length,
+    });
+
+    logger.info(`Emitted round:cancelled for round ${round.id}`);
+  }
+
   /**
    * Emit price update event
    */
@@ -92,11 +175,15 @@ class WebSocketService {
       return;
     }
 
-    this.io.to('round').emit("price:update", {
+    const payload = {
       asset,
       price,
       timestamp: new Date().toISOString(),
-    });
+    };
+
+    // The round room receives every asset; price:<asset> rooms only their own
+    this.io.to('round').emit("price:update", payload);
+    this.io.to(`price:${asset}`).emit("price:update", payload);
   }
 
   /**
@@ -3,6 +3,7 @@ import { Server as HTTPServer } from 'http';
 import { verifyToken } from './utils/jwt.util';
 import websocketService from './services/websocket.service';
 import logger from './utils/logger';
+import { SUPPORTED_ASSETS, parseAsset } from './utils/asset.util';
 import { prisma } from './lib/prisma';
 
 // Extended socket interface with user data
@@ -89,6 +90,29 @@ export function initializeSocket(httpServer: HTTPServer): SocketIOServer {
       socket.emit('room:left', { room: 'round' });
     });
 
+    // Join a single asset's price feed (e.g. { asset: "BTC" })
+    socket.on('join:price', (data: { asset?: string }) => {
+      const asset = parseAsset(data?.asset);
+      if (!asset) {
+        socket.emit('error', { message: `asset must be one of ${SUPPORTED_ASSETS.join(', ')}` });
+        return;
+      }
+      socket.join(`price:${asset}`);
+      logger.info(`Socket ${socket.id} joined room: price:${asset}`);
+      socket.emit('room:joined', { room: `price:${asset}` });
+    });
+
+    // Leave an asset's price feed
+    socket.on('leave:price', (data: { asset?: string }) => {
+      const asset = parseAsset(data?.asset);
+      if (!asset) {
+        return;
+      }
+      socket.leave(`price:${asset}`);
+      logger.info(`Socket ${socket.id} left room: price:${asset}`);
+      socket.emit('room:left', { room: `price:${asset}` });
+    });
+
     // Join chat room (requires authentication)
     socket.on('join:chat', () => {
       if (!socket.userId) {
@@ -30,11 +30,11 @@ describe('Concurrent Round Creation Prevention (Issue #66)', () => {
     await prisma.$disconnect();
   });
 
-  describe('POST /api/rounds/start - concurrent round prevention', () => {
+  describe('POST /api/v1/rounds/start - concurrent round prevention', () => {
     it('should prevent creating second active UP_DOWN round', async () => {
       // Create first round
       const res1 = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 0,
@@ -48,7 +48,7 @@ describe('Concurrent Round Creation Prevention (Issue #66)', () => {
 
       // Attempt to create second round immediately
       const res2 = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 0,
@@ -67,7 +67,7 @@ describe('Concurrent Round Creation Prevention (Issue #66)', () => {
     it('should prevent creating second active LEGENDS round', async () => {
       // Create first LEGENDS round
       const res1 = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 1,
@@ -81,7 +81,7 @@ describe('Concurrent Round Creation Prevention (Issue #66)', () => {
 
       // Attempt to create second LEGENDS round
       const res2 = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 1,
@@ -100,7 +100,7 @@ describe('Concurrent Round Creation Prevention (Issue #66)', () => {
     it('should allow creating UP_DOWN and LEGENDS rounds simultaneously', async () => {
       // Create UP_DOWN round
       const res1 = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 0,
@@ -113,7 +113,7 @@ describe('Concurrent Round Creation Prevention (Issue #66)', () => {
 
       // Create LEGENDS round (should succeed - different mode)
       const res2 = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 1,
@@ -134,7 +134,7 @@ describe('Concurrent Round Creation Prevention (Issue #66)', () => {
     it('should allow creating new round after previous is locked', async () => {
       // Create first round
       const res1 = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 0,
@@ -153,7 +153,7 @@ describe('Concurrent Round Creation Prevention (Issue #66)', () => {
 
       // Create second round (should succeed - first is locked)
       const res2 = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 0,
@@ -171,3 +171,117 @@ describe('Concurrent Round Creation Prevention (Issue #66)', () => {
     });
   });
 });
+
+describe('Concurrent Prediction Submission', () => {
+  let app: Express;
+  const users: any[] = [];
+  const roundIds: string[] = [];
+
+  const createUser = async (walletAddress: string, virtualBalance: number) => {
+    const user = await prisma.user.create({ data: { walletAddress, virtualBalance } });
+    users.push(user);
+    return { user, token: generateToken(user.id, user.walletAddress) };
+  };
+
+  // Rounds are created directly so no Soroban call is involved
+  const createRound = async (mode: 'UP_DOWN' | 'LEGENDS', asset: 'BTC' | 'ETH') => {
+    const round = await prisma.round.create({
+      data: {
+        mode,
+        asset,
+        status: 'ACTIVE',
+        startPrice: 1.0,
+        startTime: new Date(),
+        endTime: new Date(Date.now() + 300000),
+        lockTime: new Date(Date.now() + 240000),
+        buckets: mode === 'LEGENDS'
+          ? {
+              create: [
+                { index: 0, min: null, max: 1.0 },
+                { index: 1, min: 1.0, max: null },
+              ],
+            }
+          : undefined,
+      },
+    });
+    roundIds.push(round.id);
+    return round;
+  };
+
+  const submit = (token: string, body: Record<string, unknown>) =>
+    request(app)
+      .post('/api/predictions/submit')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+  beforeAll(() => {
+    app = createApp();
+  });
+
+  afterAll(async () => {
+    await prisma.prediction.deleteMany({ where: { roundId: { in: roundIds } } });
+    await prisma.round.deleteMany({ where: { id: { in: roundIds } } });
+    await prisma.user.deleteMany({ where: { id: { in: users.map((u) => u.id) } } });
+    await prisma.$disconnect();
+  });
+
+  it('never overdraws a balance across simultaneous bets', async () => {
+    const { user, token } = await createUser('GCONCURRENT_BALANCE_AAAAAAAAAAAAA', 100);
+    const upDown = await createRound('UP_DOWN', 'BTC');
+    const legends = await createRound('LEGENDS', 'BTC');
+
+    const responses = await Promise.all([
+      submit(token, { roundId: upDown.id, amount: 80, side: 'UP' }),
+      submit(token, { roundId: legends.id, amount: 80, rangeIndex: 0 }),
+    ]);
+
+    expect(responses.map((r) => r.status).sort()).toEqual([200, 400]);
+    expect(responses.find((r) => r.status === 400)!.body.error).toContain('Insufficient balance');
+
+    const after = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+    expect(after.virtualBalance.toNumber()).toBe(20);
+  });
+
+  it('adds up every stake placed on the same bucket', async () => {
+    const round = await createRound('LEGENDS', 'ETH');
+    const bettors = await Promise.all(
+      Array.from({ length: 8 }, (_, i) =>
+        createUser(`GCONCURRENT_BUCKET_${i}_AAAAAAAAAAAAAA`, 100),
+      ),
+    );
+
+    const responses = await Promise.all(
+      bettors.map(({ token }, i) => submit(token, { roundId: round.id, amount: i + 1, rangeIndex: 1 })),
+    );
+    expect(responses.every((r) => r.status === 200)).toBe(true);
+
+    const bucket = await prisma.roundBucket.findUniqueOrThrow({
+      where: { roundId_index: { roundId: round.id, index: 1 } },
+    });
+    expect(bucket.pool.toNumber()).toBe(36);
+  });
+
+  it('holds the per-user bet cap under simultaneous bets', async () => {
+    process.env.MAX_BETS_PER_USER_PER_ROUND = '3';
+    const { user, token } = await createUser('GCONCURRENT_BET_CAP_AAAAAAAAAAAAA', 100);
+    const round = await createRound('UP_DOWN', 'ETH');
+
+    try {
+      const responses = await Promise.all(
+        Array.from({ length: 5 }, () => submit(token, { roundId: round.id, amount: 10, side: 'DOWN' })),
+      );
+
+      const statuses = responses.map((r) => r.status).sort();
+      expect(statuses).toEqual([200, 200, 200, 409, 409]);
+
+      const [after, stored] = await Promise.all([
+        prisma.user.findUniqueOrThrow({ where: { id: user.id } }),
+        prisma.round.findUniqueOrThrow({ where: { id: round.id } }),
+      ]);
+      expect(after.virtualBalance.toNumber()).toBe(70);
+      expect(stored.poolDown.toNumber()).toBe(30);
+    } finally {
+      delete process.env.MAX_BETS_PER_USER_PER_ROUND;
+    }
+  });
+});
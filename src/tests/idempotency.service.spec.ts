@@ -0,0 +1,209 @@
+import express, { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import { Prisma } from '@prisma/client';
+import { prismaMock } from './singleton';
+import idempotencyService, { CLAIM_HEARTBEAT_MS, requestFingerprint } from '../services/idempotency.service';
+import { idempotent } from '../middleware/idempotency.middleware';
+
+const uniqueViolation = () =>
+  new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: 'test',
+  });
+
+const bet = { roundId: 'round-1', amount: 10, side: 'UP' };
+const request1 = { userId: 'u1', key: 'key-1', method: 'POST', path: '/api/predictions/submit', body: bet };
+
+const stored = (overrides: Record<string, unknown> = {}) => ({
+  id: 'idem-1',
+  userId: 'u1',
+  key: 'key-1',
+  method: 'POST',
+  path: '/api/predictions/submit',
+  requestHash: requestFingerprint(request1),
+  responseStatus: 200,
+  responseBody: { success: true },
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + 60_000),
+  ...overrides,
+});
+
+describe('IdempotencyService.claim', () => {
+  it('claims an unused key', async () => {
+    prismaMock.idempotencyKey.create.mockResolvedValue(stored({ responseStatus: null }) as any);
+
+    await expect(idempotencyService.claim(request1)).resolves.toEqual({ state: 'claimed', id: 'idem-1' });
+    const [{ data }] = prismaMock.idempotencyKey.create.mock.calls[0] as any;
+    expect(data.expiresAt.getTime() - Date.now()).toBeGreaterThan(23 * 60 * 60 * 1000);
+  });
+
+  it('replays the stored response of a completed request', async () => {
+    prismaMock.idempotencyKey.create.mockRejectedValue(uniqueViolation());
+    prismaMock.idempotencyKey.findUnique.mockResolvedValue(stored() as any);
+
+    await expect(
+      // Same body with its keys in a different order
+      idempotencyService.claim({ ...request1, body: { side: 'UP', amount: 10, roundId: 'round-1' } }),
+    ).resolves.toEqual({ state: 'replay', status: 200, body: { success: true } });
+  });
+
+  it('rejects a key reused for a different body', async () => {
+    prismaMock.idempotencyKey.create.mockRejectedValue(uniqueViolation());
+    prismaMock.idempotencyKey.findUnique.mockResolvedValue(stored() as any);
+
+    await expect(
+      idempotencyService.claim({ ...request1, body: { ...bet, amount: 20 } }),
+    ).resolves.toEqual({ state: 'mismatch' });
+  });
+
+  it('reports a request that is still running', async () => {
+    prismaMock.idempotencyKey.create.mockRejectedValue(uniqueViolation());
+    prismaMock.idempotencyKey.findUnique.mockResolvedValue(stored({ responseStatus: null }) as any);
+    prismaMock.idempotencyKey.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(idempotencyService.claim(request1)).resolves.toEqual({ state: 'in_progress' });
+  });
+
+  it('starts over once the key has expired', async () => {
+    prismaMock.idempotencyKey.create
+      .mockRejectedValueOnce(uniqueViolation())
+      .mockResolvedValueOnce(stored({ id: 'idem-2', responseStatus: null }) as any);
+    prismaMock.idempotencyKey.findUnique.mockResolvedValue(
+      stored({ expiresAt: new Date(Date.now() - 1000) }) as any,
+    );
+
+    await expect(idempotencyService.claim(request1)).resolves.toEqual({ state: 'claimed', id: 'idem-2' });
+    expect(prismaMock.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'idem-1', expiresAt: { lte: expect.any(Date) } },
+    });
+  });
+});
+
+describe('idempotent middleware', () => {
+  const handler = jest.fn((req: Request, res: Response) => {
+    res.status(req.body.fail ? 500 : 200).json({ success: !req.body.fail });
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.post(
+    '/bets',
+    (req: Request, _res: Response, next: NextFunction) => {
+      req.user = { userId: 'u1', walletAddress: 'GUSER', role: 'USER' };
+      next();
+    },
+    idempotent,
+    handler,
+  );
+
+  // Answers once the test calls finishSlow
+  let finishSlow: () => void = () => {};
+  const slowHandler = jest.fn((_req: Request, res: Response) => {
+    finishSlow = () => res.json({ success: true });
+  });
+  app.post(
+    '/slow-bets',
+    (req: Request, _res: Response, next: NextFunction) => {
+      req.user = { userId: 'u1', walletAddress: 'GUSER', role: 'USER' };
+      next();
+    },
+    idempotent,
+    slowHandler,
+  );
+
+  beforeEach(() => {
+    handler.mockClear();
+  });
+
+  it('runs requests without the header untouched', async () => {
+    const res = await request(app).post('/bets').send(bet);
+
+    expect(res.status).toBe(200);
+    expect(prismaMock.idempotencyKey.create).not.toHaveBeenCalled();
+  });
+
+  it('stores the response of the first request', async () => {
+    prismaMock.idempotencyKey.create.mockResolvedValue(stored({ responseStatus: null }) as any);
+
+    const res = await request(app).post('/bets').set('Idempotency-Key', 'key-1').send(bet);
+
+    expect(res.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(prismaMock.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: 'idem-1' },
+      data: { responseStatus: 200, responseBody: { success: true } },
+    });
+  });
+
+  it('replays a retry without running the handler', async () => {
+    prismaMock.idempotencyKey.create.mockRejectedValue(uniqueViolation());
+    prismaMock.idempotencyKey.findUnique.mockResolvedValue(
+      stored({ path: '/bets', requestHash: requestFingerprint({ method: 'POST', path: '/bets', body: bet }) }) as any,
+    );
+
+    const res = await request(app).post('/bets').set('Idempotency-Key', 'key-1').send(bet);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true });
+    expect(res.headers['idempotent-replayed']).toBe('true');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('answers 422 to a key reused with a different body', async () => {
+    prismaMock.idempotencyKey.create.mockRejectedValue(uniqueViolation());
+    prismaMock.idempotencyKey.findUnique.mockResolvedValue(stored() as any);
+
+    const res = await request(app).post('/bets').set('Idempotency-Key', 'key-1').send({ ...bet, amount: 99 });
+
+    expect(res.status).toBe(422);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('releases the key when the request fails with a server error', async () => {
+    prismaMock.idempotencyKey.create.mockResolvedValue(stored({ responseStatus: null }) as any);
+
+    const res = await request(app).post('/bets').set('Idempotency-Key', 'key-1').send({ fail: true });
+
+    expect(res.status).toBe(500);
+    expect(prismaMock.idempotencyKey.update).not.toHaveBeenCalled();
+    expect(prismaMock.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'idem-1', responseStatus: null },
+    });
+  });
+
+  it('keeps the claim of a slow request fresh until it answers', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    try {
+      prismaMock.idempotencyKey.create.mockResolvedValue(stored({ responseStatus: null }) as any);
+      prismaMock.idempotencyKey.updateMany.mockResolvedValue({ count: 1 });
+
+      const pending = request(app).post('/slow-bets').set('Idempotency-Key', 'key-1').send(bet).then((res) => res);
+      while (slowHandler.mock.calls.length === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      // Longer than a claim may go unrenewed before a retry takes it over
+      jest.advanceTimersByTime(CLAIM_HEARTBEAT_MS * 5);
+      expect(prismaMock.idempotencyKey.updateMany).toHaveBeenCalledTimes(5);
+      expect(prismaMock.idempotencyKey.updateMany).toHaveBeenCalledWith({
+        where: { id: 'idem-1', responseStatus: null },
+        data: { createdAt: expect.any(Date) },
+      });
+
+      finishSlow();
+      expect((await pending).status).toBe(200);
+
+      jest.advanceTimersByTime(CLAIM_HEARTBEAT_MS * 2);
+      expect(prismaMock.idempotencyKey.updateMany).toHaveBeenCalledTimes(5);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects an overlong key', async () => {
+    const res = await request(app).post('/bets').set('Idempotency-Key', 'k'.repeat(256)).send(bet);
+
+    expect(res.status).toBe(400);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+import { prismaMock } from './singleton';
+import { LeaderElectionService } from '../services/leader-election.service';
+
+describe('LeaderElectionService', () => {
+  let election: LeaderElectionService;
+  const onElected = jest.fn();
+  const onDemoted = jest.fn();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onElected.mockReset();
+    onDemoted.mockReset();
+    election = new LeaderElectionService();
+  });
+
+  afterEach(async () => {
+    await election.stop();
+    jest.useRealTimers();
+  });
+
+  it('runs the schedulers only while it holds the lease', async () => {
+    prismaMock.$executeRaw.mockResolvedValue(0);
+    election.start({ onElected, onDemoted });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(election.isLeader()).toBe(false);
+    expect(onElected).not.toHaveBeenCalled();
+
+    // The previous leader's lease expired: take over on the next renewal
+    prismaMock.$executeRaw.mockResolvedValue(1);
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(election.isLeader()).toBe(true);
+    expect(onElected).toHaveBeenCalledTimes(1);
+
+    // Renewals keep the lease without re-running onElected
+    await jest.advanceTimersByTimeAsync(20_000);
+    expect(onElected).toHaveBeenCalledTimes(1);
+  });
+
+  it('steps down when another instance holds the lease', async () => {
+    prismaMock.$executeRaw.mockResolvedValue(1);
+    election.start({ onElected, onDemoted });
+    await jest.advanceTimersByTimeAsync(0);
+
+    prismaMock.$executeRaw.mockResolvedValue(0);
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(election.isLeader()).toBe(false);
+    expect(onDemoted).toHaveBeenCalledTimes(1);
+  });
+
+  it('steps down before the lease it last renewed expires', async () => {
+    prismaMock.$executeRaw.mockResolvedValue(1);
+    election.start({ onElected, onDemoted });
+    await jest.advanceTimersByTimeAsync(0);
+
+    // A slow renewal: the database sets expiresAt from when it was sent
+    prismaMock.$executeRaw.mockImplementationOnce(
+      () => new Promise((resolve) => setTimeout(() => resolve(1), 5_000)) as any,
+    );
+    await jest.advanceTimersByTimeAsync(10_000);
+    const expiresAt = Date.now() + 30_000;
+    await jest.advanceTimersByTimeAsync(5_000);
+    expect(election.isLeader()).toBe(true);
+
+    prismaMock.$executeRaw.mockRejectedValue(new Error('connection refused'));
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(election.isLeader()).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(5_000);
+    expect(election.isLeader()).toBe(false);
+    expect(onDemoted).toHaveBeenCalledTimes(1);
+    // A full tick before another instance could take the lease
+    expect(Date.now()).toBeLessThanOrEqual(expiresAt - 10_000);
+  });
+
+  it('steps down while a renewal hangs past the lease', async () => {
+    prismaMock.$executeRaw.mockResolvedValue(1);
+    election.start({ onElected, onDemoted });
+    await jest.advanceTimersByTimeAsync(0);
+
+    prismaMock.$executeRaw.mockReturnValue(new Promise(() => undefined) as any);
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(election.isLeader()).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(election.isLeader()).toBe(false);
+    expect(onDemoted).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the lease on shutdown', async () => {
+    prismaMock.$executeRaw.mockResolvedValue(1);
+    election.start({ onElected, onDemoted });
+    await jest.advanceTimersByTimeAsync(0);
+
+    await election.stop();
+
+    expect(prismaMock.schedulerLease.deleteMany).toHaveBeenCalledWith({
+      where: { name: 'scheduler', holderId: election.instanceId },
+    });
+    expect(onDemoted).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the lease holder, expired by the database clock', async () => {
+    // Expired for the database even though this instance's clock is behind
+    prismaMock.$queryRaw.mockResolvedValue([
+      {
+        holderId: 'other-instance',
+        acquiredAt: new Date(Date.now() - 60_000),
+        renewedAt: new Date(Date.now() - 5_000),
+        expiresAt: new Date(Date.now() + 25_000),
+        expired: true,
+      },
+    ]);
+
+    await expect(election.getStatus()).resolves.toMatchObject({
+      instanceId: election.instanceId,
+      isLeader: false,
+      lease: { holderId: 'other-instance', expired: true },
+    });
+    const [sql] = prismaMock.$queryRaw.mock.calls[0] as [TemplateStringsArray];
+    expect(sql.join('?')).toContain(`"expiresAt" <= NOW() AT TIME ZONE 'UTC' AS "expired"`);
+  });
+
+  it('reports no lease before the first election', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([]);
+
+    await expect(election.getStatus()).resolves.toMatchObject({ lease: null });
+  });
+});
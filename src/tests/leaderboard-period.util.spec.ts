@@ -0,0 +1,44 @@
+import { getPeriodEnd, getPeriodStart, parsePeriod } from '../utils/leaderboard-period.util';
+
+// A Sunday evening
+const at = new Date('2026-03-22T23:30:00Z');
+
+describe('leaderboard-period.util', () => {
+  afterEach(() => {
+    delete process.env.LEADERBOARD_SEASON_START;
+    delete process.env.LEADERBOARD_SEASON_DAYS;
+  });
+
+  it('starts periods at UTC midnight, Monday and the 1st', () => {
+    expect(getPeriodStart('DAILY', at)).toEqual(new Date('2026-03-22T00:00:00Z'));
+    expect(getPeriodStart('WEEKLY', at)).toEqual(new Date('2026-03-16T00:00:00Z'));
+    expect(getPeriodStart('WEEKLY', new Date('2026-03-16T00:00:00Z'))).toEqual(new Date('2026-03-16T00:00:00Z'));
+    expect(getPeriodStart('MONTHLY', at)).toEqual(new Date('2026-03-01T00:00:00Z'));
+    expect(getPeriodStart('ALL_TIME', at)).toEqual(new Date(0));
+  });
+
+  it('counts seasons from the first one', () => {
+    // 2026-01-01 plus 90 days
+    expect(getPeriodStart('SEASON', new Date('2026-04-01T00:00:00Z'))).toEqual(new Date('2026-04-01T00:00:00Z'));
+    expect(getPeriodStart('SEASON', at)).toEqual(new Date('2026-01-01T00:00:00Z'));
+    expect(getPeriodStart('SEASON', new Date('2025-12-31T00:00:00Z'))).toEqual(new Date('2025-10-03T00:00:00Z'));
+
+    process.env.LEADERBOARD_SEASON_START = '2026-03-01T00:00:00Z';
+    process.env.LEADERBOARD_SEASON_DAYS = '14';
+    expect(getPeriodStart('SEASON', at)).toEqual(new Date('2026-03-15T00:00:00Z'));
+    expect(getPeriodEnd('SEASON', new Date('2026-03-15T00:00:00Z'))).toEqual(new Date('2026-03-29T00:00:00Z'));
+  });
+
+  it('ends periods where the next one starts', () => {
+    expect(getPeriodEnd('WEEKLY', new Date('2026-03-16T00:00:00Z'))).toEqual(new Date('2026-03-23T00:00:00Z'));
+    expect(getPeriodEnd('MONTHLY', new Date('2026-12-01T00:00:00Z'))).toEqual(new Date('2027-01-01T00:00:00Z'));
+    expect(getPeriodEnd('ALL_TIME', new Date(0))).toBeNull();
+  });
+
+  it('parses period names', () => {
+    expect(parsePeriod('all-time')).toBe('ALL_TIME');
+    expect(parsePeriod('Weekly')).toBe('WEEKLY');
+    expect(parsePeriod('yearly')).toBeNull();
+    expect(parsePeriod(undefined)).toBeNull();
+  });
+});
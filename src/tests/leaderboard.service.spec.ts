@@ -0,0 +1,341 @@
+import { Prisma } from '@prisma/client';
+import { prismaMock } from './singleton';
+import {
+  getBoard,
+  getDefaultMinBets,
+  rebuildUserStats,
+  recordRoundResults,
+  updateUserStatsForRound,
+} from '../services/leaderboard.service';
+
+const decimal = (value: number | string) => new Prisma.Decimal(value);
+
+const round = { id: 'round-1', mode: 'UP_DOWN', asset: 'XLM' } as const;
+const settledAt = new Date('2026-03-19T12:00:00Z');
+
+const position = (userId: string, totalStake: number, payout: number | null) => ({
+  roundId: 'round-1',
+  userId,
+  bets: 1,
+  totalStake,
+  sides: { UP: totalStake, DOWN: 0 },
+  ranges: [],
+  payout,
+  profit: payout === null ? null : payout - totalStake,
+});
+
+describe('recordRoundResults', () => {
+  beforeEach(() => {
+    prismaMock.userRoundResult.createMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('records each user once and adds their real earnings to their stats', async () => {
+    const recorded = await recordRoundResults(
+      round,
+      [position('u1', 20, 26.6666666), position('u2', 10, 0)],
+      settledAt,
+    );
+
+    expect(recorded).toBe(2);
+    expect(prismaMock.userRoundResult.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          userId: 'u1',
+          roundId: 'round-1',
+          mode: 'UP_DOWN',
+          asset: 'XLM',
+          stake: decimal(20),
+          payout: decimal('26.6666666'),
+          profit: decimal('6.6666666'),
+          won: true,
+          settledAt,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    const [winner, loser] = prismaMock.userStats.upsert.mock.calls.map(([args]) => args);
+    expect(winner.update).toMatchObject({
+      correctPredictions: { increment: 1 },
+      totalEarnings: { increment: decimal('6.6666666') },
+      upDownWins: { increment: 1 },
+      upDownEarnings: { increment: decimal('6.6666666') },
+      legendsEarnings: { increment: 0 },
+    });
+    expect(loser.create).toMatchObject({
+      userId: 'u2',
+      totalPredictions: 1,
+      correctPredictions: 0,
+      totalEarnings: decimal(-10),
+      upDownLosses: 1,
+    });
+  });
+
+  it('adds each new result to every board it counts toward in one statement', async () => {
+    await recordRoundResults(round, [position('u1', 20, 30)], settledAt);
+
+    expect(prismaMock.$executeRaw).toHaveBeenCalledTimes(1);
+    const [sql, rows] = prismaMock.$executeRaw.mock.calls[0] as [TemplateStringsArray, Prisma.Sql];
+    expect(sql.join('?')).toContain('ON CONFLICT ("period", "periodStart", "mode", "asset", "userId") DO UPDATE');
+
+    // 5 periods x (all modes, UP_DOWN) x (all assets, XLM)
+    for (const period of ['ALL_TIME', 'DAILY', 'WEEKLY', 'MONTHLY', 'SEASON']) {
+      expect(rows.values.filter((value) => value === period)).toHaveLength(4);
+    }
+    expect(rows.values.filter((value) => value === 'UP_DOWN')).toHaveLength(10);
+    expect(rows.values.filter((value) => value === 'XLM')).toHaveLength(10);
+    // Thursday 19 March 2026: the week starts on Monday the 16th
+    expect(rows.values).toContainEqual(new Date('2026-03-16T00:00:00Z'));
+    expect(rows.values).toContain(0.5);
+  });
+
+  it('passes the stake and profit to the board update as exact decimals', async () => {
+    await recordRoundResults(round, [position('u1', 12345.1234567, 20000.7654321)], settledAt);
+
+    const [, rows] = prismaMock.$executeRaw.mock.calls[0] as [TemplateStringsArray, Prisma.Sql];
+    expect(rows.sql).toContain('?::numeric, ?::numeric');
+    // The ALL_TIME board over every mode and asset comes first
+    expect(rows.values.slice(0, 13)).toEqual([
+      expect.any(String),
+      'ALL_TIME',
+      new Date(0),
+      'ALL',
+      'ALL',
+      'u1',
+      1,
+      '12345.1234567',
+      '7655.6419754',
+      expect.any(Number),
+      100,
+      1,
+      1,
+    ]);
+  });
+
+  it('skips users whose result on the round is already recorded', async () => {
+    prismaMock.userRoundResult.createMany.mockResolvedValue({ count: 0 });
+
+    await expect(recordRoundResults(round, [position('u1', 20, 30)], settledAt)).resolves.toBe(0);
+    expect(prismaMock.userStats.upsert).not.toHaveBeenCalled();
+    expect(prismaMock.$executeRaw).not.toHaveBeenCalled();
+  });
+
+  it('skips unsettled positions', async () => {
+    await expect(recordRoundResults(round, [position('u1', 20, null)], settledAt)).resolves.toBe(0);
+    expect(prismaMock.userRoundResult.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateUserStatsForRound', () => {
+  it('records a resolved round from its settled bets', async () => {
+    prismaMock.userRoundResult.createMany.mockResolvedValue({ count: 1 });
+    prismaMock.round.findUnique.mockResolvedValue({
+      ...round,
+      status: 'RESOLVED',
+      resolvedAt: settledAt,
+      predictions: [
+        { roundId: 'round-1', userId: 'u1', amount: decimal(20), side: 'UP', priceRange: null, payout: decimal(30) },
+        { roundId: 'round-1', userId: 'u1', amount: decimal(5), side: 'DOWN', priceRange: null, payout: null },
+      ],
+    } as any);
+
+    await expect(updateUserStatsForRound('round-1')).resolves.toBe(1);
+
+    expect(prismaMock.round.findUnique).toHaveBeenCalledWith({
+      where: { id: 'round-1' },
+      include: {
+        predictions: { where: { withdrawnAt: null, outcome: { in: ['WIN', 'LOSS'] } } },
+      },
+    });
+    expect(prismaMock.userRoundResult.createMany.mock.calls[0][0]!.data).toEqual([
+      expect.objectContaining({ userId: 'u1', stake: decimal(25), payout: decimal(30), won: true, settledAt }),
+    ]);
+  });
+
+  it('refuses rounds that are not resolved', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ ...round, status: 'CANCELLED', predictions: [] } as any);
+
+    await expect(updateUserStatsForRound('round-1')).rejects.toThrow('Round not found or not resolved');
+  });
+});
+
+describe('rebuildUserStats', () => {
+  it('wipes the stats and replays every resolved round in batches in one transaction', async () => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+    prismaMock.round.findMany
+      .mockResolvedValueOnce([{ id: 'r1' }, { id: 'r2' }] as any)
+      .mockResolvedValueOnce([{ id: 'r3' }] as any);
+    prismaMock.round.findUnique.mockResolvedValue({
+      ...round,
+      status: 'RESOLVED',
+      resolvedAt: settledAt,
+      predictions: [],
+    } as any);
+
+    await expect(rebuildUserStats(2)).resolves.toEqual({ rounds: 3, results: 0 });
+
+    expect(prismaMock.userRoundResult.deleteMany).toHaveBeenCalled();
+    expect(prismaMock.userStats.deleteMany).toHaveBeenCalled();
+    expect(prismaMock.leaderboardStat.deleteMany).toHaveBeenCalled();
+    expect(prismaMock.round.findMany.mock.calls.map(([args]) => args!.cursor)).toEqual([undefined, { id: 'r2' }]);
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds the stats lock exclusively before wiping anything', async () => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+    prismaMock.round.findMany.mockResolvedValue([]);
+
+    await rebuildUserStats();
+
+    const [sql] = prismaMock.$executeRaw.mock.calls[0] as [TemplateStringsArray];
+    expect(sql.join('?')).toBe('SELECT pg_advisory_xact_lock(hashtext(?))');
+    expect(prismaMock.$executeRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      prismaMock.userRoundResult.deleteMany.mock.invocationCallOrder[0],
+    );
+  });
+});
+
+describe('getBoard', () => {
+  const stat = (userId: string, overrides: Record<string, unknown> = {}) => ({
+    id: `stat-${userId}`,
+    period: 'WEEKLY',
+    periodStart: new Date('2026-03-16T00:00:00Z'),
+    mode: 'UP_DOWN',
+    asset: 'ALL',
+    userId,
+    rounds: 4,
+    wins: 3,
+    stake: decimal(40),
+    profit: decimal('22.5'),
+    roi: 0.5625,
+    accuracy: 75,
+    currentStreak: 2,
+    longestStreak: 2,
+    updatedAt: settledAt,
+    user: { walletAddress: `G${userId.toUpperCase().padEnd(55, 'X')}` },
+    ...overrides,
+  });
+
+  const query = {
+    period: 'WEEKLY',
+    mode: 'UP_DOWN',
+    asset: null,
+    metric: 'roi',
+    minBets: 3,
+    at: settledAt,
+  } as const;
+
+  it('reads the board of the period, ranked by the metric', async () => {
+    prismaMock.leaderboardStat.findMany.mockResolvedValue([stat('u1')] as any);
+    prismaMock.leaderboardStat.count.mockResolvedValue(1);
+
+    const result = await getBoard(query, 10, 20);
+
+    const where = {
+      period: 'WEEKLY',
+      periodStart: new Date('2026-03-16T00:00:00Z'),
+      mode: 'UP_DOWN',
+      asset: 'ALL',
+      rounds: { gte: 3 },
+    };
+    expect(prismaMock.leaderboardStat.findMany).toHaveBeenCalledWith({
+      where,
+      orderBy: [{ roi: 'desc' }, { profit: 'desc' }, { userId: 'asc' }],
+      take: 10,
+      skip: 20,
+      include: { user: { select: { walletAddress: true } } },
+    });
+    expect(prismaMock.leaderboardStat.count).toHaveBeenCalledWith({ where });
+    expect(result.board).toEqual({
+      period: 'WEEKLY',
+      periodStart: '2026-03-16T00:00:00.000Z',
+      periodEnd: '2026-03-23T00:00:00.000Z',
+      mode: 'UP_DOWN',
+      asset: null,
+      metric: 'roi',
+      minBets: 3,
+    });
+    expect(result.leaderboard).toEqual([
+      {
+        rank: 21,
+        userId: 'u1',
+        walletAddress: 'GU1XXX...XXXX',
+        rounds: 4,
+        wins: 3,
+        accuracy: 75,
+        totalStake: 40,
+        earnings: 22.5,
+        roi: 0.5625,
+        currentStreak: 2,
+        longestStreak: 2,
+      },
+    ]);
+    expect(result.userPosition).toBeUndefined();
+  });
+
+  it('ranks the requesting user by the users ahead of them on the metric', async () => {
+    prismaMock.leaderboardStat.findMany.mockResolvedValue([]);
+    prismaMock.leaderboardStat.findUnique.mockResolvedValue(stat('u2', { roi: 0.25 }) as any);
+    prismaMock.leaderboardStat.count.mockResolvedValueOnce(4).mockResolvedValueOnce(9);
+
+    const result = await getBoard(query, 10, 0, 'u2');
+
+    expect(prismaMock.leaderboardStat.count.mock.calls[0][0]!.where).toMatchObject({
+      rounds: { gte: 3 },
+      OR: [
+        { roi: { gt: 0.25 } },
+        { roi: 0.25, profit: { gt: decimal('22.5') } },
+        { roi: 0.25, profit: decimal('22.5'), userId: { lt: 'u2' } },
+      ],
+    });
+    expect(result.userPosition).toMatchObject({ rank: 5, userId: 'u2', roi: 0.25 });
+    expect(result.totalUsers).toBe(9);
+  });
+
+  it('ranks tied users in the order they are listed', async () => {
+    // u1, u2 and u3 have the same ROI; u1 earned more, u2 and u3 the same
+    const stats = [stat('u1', { profit: decimal(30) }), stat('u2'), stat('u3')];
+    const ahead = (candidate: ReturnType<typeof stat>, where: any) =>
+      where.OR.some((branch: any) =>
+        Object.entries(branch).every(([key, condition]: [string, any]) => {
+          const value = (candidate as any)[key];
+          if (Prisma.Decimal.isDecimal(condition) || typeof condition !== 'object') {
+            return String(value) === String(condition);
+          }
+          return 'gt' in condition ? Number(value) > Number(condition.gt) : value < condition.lt;
+        }),
+      );
+    prismaMock.leaderboardStat.findMany.mockResolvedValue(stats as any);
+    prismaMock.leaderboardStat.count.mockImplementation(((args: any) =>
+      Promise.resolve(args.where.OR ? stats.filter((candidate) => ahead(candidate, args.where)).length : stats.length)) as any);
+
+    for (const [index, { userId }] of stats.entries()) {
+      prismaMock.leaderboardStat.findUnique.mockResolvedValueOnce(stats[index] as any);
+      const { leaderboard, userPosition } = await getBoard(query, 10, 0, userId);
+      expect(userPosition!.rank).toBe(leaderboard[index].rank);
+    }
+  });
+
+  it('leaves off a user below the minimum bets', async () => {
+    prismaMock.leaderboardStat.findMany.mockResolvedValue([]);
+    prismaMock.leaderboardStat.findUnique.mockResolvedValue(stat('u2', { rounds: 2 }) as any);
+    prismaMock.leaderboardStat.count.mockResolvedValue(0);
+
+    await expect(getBoard(query, 10, 0, 'u2')).resolves.toMatchObject({ userPosition: undefined });
+  });
+});
+
+describe('getDefaultMinBets', () => {
+  afterEach(() => {
+    delete process.env.LEADERBOARD_MIN_BETS;
+  });
+
+  it('takes LEADERBOARD_MIN_BETS rounds for accuracy and one otherwise', () => {
+    expect(getDefaultMinBets('accuracy')).toBe(10);
+    expect(getDefaultMinBets('earnings')).toBe(1);
+
+    process.env.LEADERBOARD_MIN_BETS = '25';
+    expect(getDefaultMinBets('accuracy')).toBe(25);
+    expect(getDefaultMinBets('streak')).toBe(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { prismaMock } from './singleton';
+import ledgerService, { ledgerAccounts } from '../services/ledger.service';
+
+const decimal = (value: number | string) => new Prisma.Decimal(value);
+
+describe('LedgerService', () => {
+  beforeEach(() => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+  });
+
+  describe('transfer', () => {
+    it('writes a balanced pair of entries and debits the wallet conditionally', async () => {
+      prismaMock.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await ledgerService.transfer({
+        from: ledgerAccounts.wallet('user-1'),
+        to: ledgerAccounts.escrow('round-1'),
+        amount: 25,
+        type: 'BET',
+        roundId: 'round-1',
+      });
+
+      expect(prismaMock.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', virtualBalance: { gte: decimal(25) } },
+        data: { virtualBalance: { decrement: decimal(25) } },
+      });
+
+      const { data } = prismaMock.ledgerEntry.createMany.mock.calls[0][0] as any;
+      expect(data).toHaveLength(2);
+      expect(data[0].journalId).toBe(data[1].journalId);
+      expect(data[0]).toMatchObject({ accountType: 'USER_WALLET', accountId: 'user-1', amount: decimal(-25) });
+      expect(data[1]).toMatchObject({ accountType: 'ROUND_ESCROW', accountId: 'round-1', amount: decimal(25) });
+
+      expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', amount: decimal(-25), type: 'BET', roundId: 'round-1' }),
+      });
+    });
+
+    it('credits the wallet when paying out of escrow', async () => {
+      await ledgerService.transfer({
+        from: ledgerAccounts.escrow('round-1'),
+        to: ledgerAccounts.wallet('user-1'),
+        amount: 40,
+        type: 'WIN',
+      });
+
+      expect(prismaMock.user.updateMany).not.toHaveBeenCalled();
+      expect(prismaMock.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { virtualBalance: { increment: decimal(40) } },
+      });
+    });
+
+    it('rounds amounts down to the stroop', async () => {
+      await ledgerService.transfer({
+        from: ledgerAccounts.escrow('round-1'),
+        to: ledgerAccounts.wallet('user-1'),
+        amount: '1.234567891',
+        type: 'WIN',
+      });
+
+      expect(prismaMock.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { virtualBalance: { increment: decimal('1.2345678') } },
+      });
+      await expect(
+        ledgerService.transfer({
+          from: ledgerAccounts.escrow('round-1'),
+          to: ledgerAccounts.wallet('user-1'),
+          amount: '0.00000001',
+          type: 'WIN',
+        }),
+      ).rejects.toThrow('Transfer amount must be positive');
+    });
+
+    it('rejects a debit the wallet cannot cover without writing entries', async () => {
+      prismaMock.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        ledgerService.transfer({
+          from: ledgerAccounts.wallet('user-1'),
+          to: ledgerAccounts.escrow('round-1'),
+          amount: 5000,
+          type: 'BET',
+        }),
+      ).rejects.toThrow('Insufficient balance');
+
+      expect(prismaMock.ledgerEntry.createMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects non-positive amounts', async () => {
+      await expect(
+        ledgerService.transfer({
+          from: ledgerAccounts.bonusPool(),
+          to: ledgerAccounts.wallet('user-1'),
+          amount: 0,
+          type: 'BONUS',
+        }),
+      ).rejects.toThrow('Transfer amount must be positive');
+    });
+  });
+
+  describe('reconcile', () => {
+    it('reports wallets whose balance drifted from the ledger', async () => {
+      (prismaMock.ledgerEntry.groupBy as jest.Mock)
+        .mockResolvedValueOnce([
+          { accountId: 'user-1', _sum: { amount: 1100 } },
+          { accountId: 'user-2', _sum: { amount: 900 } },
+        ])
+        .mockResolvedValueOnce([
+          { journalId: 'j1', _sum: { amount: 0 } },
+          { journalId: 'j2', _sum: { amount: 5 } },
+        ]);
+      prismaMock.user.findMany.mockResolvedValue([
+        { id: 'user-1', virtualBalance: decimal(1100) },
+        { id: 'user-2', virtualBalance: decimal(950) },
+      ] as any);
+
+      const report = await ledgerService.reconcile();
+
+      expect(report.balanced).toBe(false);
+      expect(report.checkedUsers).toBe(2);
+      expect(report.mismatchedUsers).toEqual([
+        { userId: 'user-2', virtualBalance: 950, ledgerBalance: 900 },
+      ]);
+      expect(report.unbalancedJournals).toEqual([{ journalId: 'j2', sum: 5 }]);
+    });
+  });
+});
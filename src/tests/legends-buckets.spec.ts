@@ -0,0 +1,93 @@
+import { prismaMock } from './singleton';
+import legendsBucketService, { buildBuckets, realizedVolatility } from '../services/legends-buckets';
+import { findRangeIndex } from '../utils/price-range.util';
+
+describe('buildBuckets', () => {
+  it('centres an odd number of buckets on the start price with open-ended tails', () => {
+    const buckets = buildBuckets(100, 10, 5);
+
+    expect(buckets).toEqual([
+      { min: null, max: 85, pool: 0 },
+      { min: 85, max: 95, pool: 0 },
+      { min: 95, max: 105, pool: 0 },
+      { min: 105, max: 115, pool: 0 },
+      { min: 115, max: null, pool: 0 },
+    ]);
+  });
+
+  it('puts the start price on a boundary for an even number of buckets', () => {
+    const buckets = buildBuckets(100, 10, 4);
+
+    expect(buckets.map((b) => [b.min, b.max])).toEqual([
+      [null, 90],
+      [90, 100],
+      [100, 110],
+      [110, null],
+    ]);
+  });
+
+  it('places every price in exactly one bucket', () => {
+    const buckets = buildBuckets(0.12, 0.006, 7);
+
+    for (const price of [0.000001, 0.1, 0.119, 0.12, 0.121, 0.2, 1000]) {
+      expect(findRangeIndex(buckets, price)).not.toBe(-1);
+    }
+  });
+
+  it('keeps the lowest bound above zero for very wide buckets', () => {
+    const buckets = buildBuckets(1, 5, 7);
+
+    expect(buckets[0].max).toBeGreaterThan(0);
+  });
+});
+
+describe('realizedVolatility', () => {
+  const samplesAt = (prices: number[]) =>
+    prices.map((price, i) => ({ price, timestamp: new Date(i * 60000) }));
+
+  it('returns null with too little history', () => {
+    expect(realizedVolatility(samplesAt([1, 1.01, 1]))).toBeNull();
+  });
+
+  it('measures log-return deviation per square-root minute', () => {
+    const prices = Array.from({ length: 11 }, (_, i) => (i % 2 === 0 ? 1 : Math.exp(0.01)));
+
+    expect(realizedVolatility(samplesAt(prices))).toBeCloseTo(0.01);
+  });
+});
+
+describe('LegendsBucketService.generateBuckets', () => {
+  it('scales bucket width to recent volatility', async () => {
+    const prices = Array.from({ length: 11 }, (_, i) => (i % 2 === 0 ? 1 : Math.exp(0.01)));
+    prismaMock.priceHistory.findMany.mockResolvedValue(
+      prices.map((price, i) => ({ price, timestamp: new Date(i * 60000) })) as any,
+    );
+
+    const buckets = await legendsBucketService.generateBuckets('XLM', 100, 4, {
+      strategy: 'volatility',
+      count: 3,
+    });
+
+    // 1% per sqrt(minute) over 4 minutes => 2% of the start price
+    expect(buckets[1].min).toBeCloseTo(99);
+    expect(buckets[1].max).toBeCloseTo(101);
+  });
+
+  it('falls back to widthPct when there is no price history', async () => {
+    prismaMock.priceHistory.findMany.mockResolvedValue([]);
+
+    const buckets = await legendsBucketService.generateBuckets('BTC', 100, 1, {
+      strategy: 'volatility',
+      count: 3,
+      widthPct: 4,
+    });
+
+    expect(buckets[1]).toEqual({ min: 98, max: 102, pool: 0 });
+  });
+
+  it('rejects an invalid bucket count', async () => {
+    await expect(
+      legendsBucketService.generateBuckets('XLM', 100, 1, { count: 1 }),
+    ).rejects.toMatchObject({ code: 'INVALID_BUCKET_CONFIG' });
+  });
+});
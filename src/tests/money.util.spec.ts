@@ -0,0 +1,60 @@
+import { Prisma } from '@prisma/client';
+import {
+  fromStroops,
+  isStroopPrecise,
+  stroopsToAmount,
+  sumStroops,
+  toAmount,
+  toStroops,
+  withAmounts,
+} from '../utils/money.util';
+// The app's Prisma client setup must leave Decimal serialization alone
+import '../lib/prisma';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(),
+}));
+
+describe('money.util', () => {
+  it('converts amounts to stroops without float error', () => {
+    // 0.29 * 1e7 is 2899999.9999999995 in floating point
+    expect(toStroops(0.29)).toBe(2_900_000n);
+    expect(toStroops('1000')).toBe(10_000_000_000n);
+    expect(toStroops(new Prisma.Decimal('26.6666666'))).toBe(266_666_666n);
+  });
+
+  it('drops anything below a stroop', () => {
+    expect(toStroops('1.23456789')).toBe(12_345_678n);
+    expect(toStroops(-0.00000015)).toBe(-1n);
+  });
+
+  it('converts stroops back to exact decimals and numbers', () => {
+    expect(fromStroops(266_666_666n)).toEqual(new Prisma.Decimal('26.6666666'));
+    expect(stroopsToAmount(1n)).toBe(0.0000001);
+    expect(toAmount(new Prisma.Decimal('39.9999999'))).toBe(39.9999999);
+  });
+
+  it('adds amounts up exactly', () => {
+    // 0.1 + 0.2 !== 0.3 in floating point
+    expect(sumStroops([0.1, 0.2])).toBe(toStroops(0.3));
+    expect(sumStroops([])).toBe(0n);
+  });
+
+  it('accepts at most 7 decimals', () => {
+    expect(isStroopPrecise(0.0000001)).toBe(true);
+    expect(isStroopPrecise('12.5')).toBe(true);
+    expect(isStroopPrecise(0.00000001)).toBe(false);
+  });
+
+  it('maps money columns to numbers for responses', () => {
+    const row = { id: 'p1', amount: new Prisma.Decimal('12.5000001'), payout: null, side: 'UP' };
+
+    expect(withAmounts(row, ['amount', 'payout'])).toEqual({ id: 'p1', amount: 12.5000001, payout: null, side: 'UP' });
+  });
+
+  it('keeps Decimals exact when serialized', () => {
+    // Prisma serializes raw query parameters through toJSON
+    expect(JSON.stringify(new Prisma.Decimal('12345678901234.1234567'))).toBe('"12345678901234.1234567"');
+  });
+});
@@ -0,0 +1,108 @@
+import { prismaMock } from './singleton';
+
+jest.mock('../services/websocket.service', () => ({
+  __esModule: true,
+  default: { emitRoundOdds: jest.fn() },
+}));
+
+import oddsService from '../services/odds.service';
+import websocketService from '../services/websocket.service';
+
+const upDownRound = {
+  id: 'round-1',
+  mode: 'UP_DOWN',
+  status: 'ACTIVE',
+  poolUp: 100,
+  poolDown: 50,
+  forfeitedPool: 0,
+  buckets: [],
+};
+
+describe('OddsService.getRoundOdds', () => {
+  afterEach(() => {
+    delete process.env.HOUSE_FEE_BPS_UP_DOWN;
+  });
+
+  it('prices each side from the pools after the house fee', async () => {
+    process.env.HOUSE_FEE_BPS_UP_DOWN = '200';
+    prismaMock.round.findUnique.mockResolvedValue(upDownRound as any);
+
+    const odds = await oddsService.getRoundOdds('round-1');
+
+    expect(odds).toMatchObject({ roundId: 'round-1', feeBps: 200, totalPool: 150 });
+    expect(odds.outcomes).toEqual([
+      { side: 'UP', pool: 100, impliedProbability: 100 / 150, multiplier: expect.closeTo(1.49) },
+      { side: 'DOWN', pool: 50, impliedProbability: 50 / 150, multiplier: expect.closeTo(2.96) },
+    ]);
+  });
+
+  it('shares forfeited stakes and leaves empty buckets unpriced', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({
+      ...upDownRound,
+      mode: 'LEGENDS',
+      forfeitedPool: 10,
+      buckets: [
+        { id: 'b0', roundId: 'round-1', index: 0, min: null, max: 1.0, pool: 30 },
+        { id: 'b1', roundId: 'round-1', index: 1, min: 1.0, max: 1.1, pool: 0 },
+        { id: 'b2', roundId: 'round-1', index: 2, min: 1.1, max: null, pool: 20 },
+      ],
+    } as any);
+
+    const odds = await oddsService.getRoundOdds('round-1');
+
+    expect(odds.totalPool).toBe(60);
+    expect(odds.outcomes).toEqual([
+      { index: 0, min: null, max: 1.0, pool: 30, impliedProbability: 30 / 50, multiplier: 2 },
+      { index: 1, min: 1.0, max: 1.1, pool: 0, impliedProbability: 0, multiplier: null },
+      { index: 2, min: 1.1, max: null, pool: 20, impliedProbability: 20 / 50, multiplier: 3 },
+    ]);
+  });
+
+  it('prices a lone backed outcome at a refund, forfeits included', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ ...upDownRound, poolDown: 0, forfeitedPool: 10 } as any);
+
+    const odds = await oddsService.getRoundOdds('round-1');
+
+    expect(odds.outcomes).toEqual([
+      { side: 'UP', pool: 100, impliedProbability: 1, multiplier: 1 },
+      { side: 'DOWN', pool: 0, impliedProbability: 0, multiplier: null },
+    ]);
+  });
+
+  it('reports a missing round with ROUND_NOT_FOUND', async () => {
+    prismaMock.round.findUnique.mockResolvedValue(null);
+
+    await expect(oddsService.getRoundOdds('missing')).rejects.toMatchObject({ code: 'ROUND_NOT_FOUND' });
+  });
+});
+
+describe('OddsService.schedulePoolsBroadcast', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    prismaMock.round.findUnique.mockResolvedValue(upDownRound as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends one round:odds per interval however many bets land', async () => {
+    oddsService.schedulePoolsBroadcast('round-1');
+    oddsService.schedulePoolsBroadcast('round-1');
+    oddsService.schedulePoolsBroadcast('round-1');
+
+    expect(websocketService.emitRoundOdds).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(prismaMock.round.findUnique).toHaveBeenCalledTimes(1);
+    expect(websocketService.emitRoundOdds).toHaveBeenCalledTimes(1);
+    expect(websocketService.emitRoundOdds).toHaveBeenCalledWith(
+      expect.objectContaining({ roundId: 'round-1', totalPool: 150 }),
+    );
+
+    // The next change starts a new window
+    oddsService.schedulePoolsBroadcast('round-1');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(websocketService.emitRoundOdds).toHaveBeenCalledTimes(2);
+  });
+});
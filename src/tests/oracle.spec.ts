@@ -0,0 +1,135 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PriceOracle, aggregatePrices } from '../services/oracle';
+import { FixturePriceProvider } from '../services/price-providers';
+import { PriceProvider } from '../types/oracle.types';
+
+const failingProvider = (name: string): PriceProvider => ({
+  name,
+  supports: () => true,
+  fetchPrice: () => Promise.reject(new Error('upstream timeout')),
+});
+
+describe('aggregatePrices', () => {
+  const options = { aggregation: 'median' as const, maxDeviation: 0.05, minSources: 1 };
+
+  it('returns the median of the accepted samples', () => {
+    const result = aggregatePrices(
+      [
+        { source: 'a', price: 0.1 },
+        { source: 'b', price: 0.102 },
+        { source: 'c', price: 0.101 },
+      ],
+      options,
+    );
+
+    expect(result?.price).toBe(0.101);
+    expect(result?.rejected).toEqual([]);
+  });
+
+  it('rejects outliers before aggregating', () => {
+    const result = aggregatePrices(
+      [
+        { source: 'a', price: 0.1 },
+        { source: 'b', price: 0.1 },
+        { source: 'c', price: 0.1 },
+        { source: 'bad', price: 0.5 },
+      ],
+      { ...options, aggregation: 'trimmed-mean' },
+    );
+
+    expect(result?.price).toBeCloseTo(0.1);
+    expect(result?.rejected).toEqual(['bad']);
+    expect(result?.sources).toEqual(['a', 'b', 'c']);
+  });
+
+  it('returns null when too few sources agree', () => {
+    const result = aggregatePrices([{ source: 'a', price: 0.1 }], { ...options, minSources: 2 });
+
+    expect(result).toBeNull();
+  });
+});
+
+describe('PriceOracle', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('aggregates prices from several providers and tracks their health', async () => {
+    const oracle = new PriceOracle(
+      [
+        new FixturePriceProvider('one', 0.1),
+        new FixturePriceProvider('two', 0.12),
+        new FixturePriceProvider('three', 0.11),
+        failingProvider('down'),
+      ],
+      { aggregation: 'median', maxDeviation: 0.5, minSources: 1 },
+    );
+
+    await oracle.refresh();
+
+    expect(oracle.getPrice()).toBe(0.11);
+
+    const status = oracle.getStatus()!;
+    expect(status.available).toBe(true);
+    const down = status.sources.find((s) => s.source === 'down');
+    expect(down?.healthy).toBe(false);
+    expect(down?.consecutiveFailures).toBe(1);
+    expect(down?.lastError).toBe('upstream timeout');
+  });
+
+  it('reports the price as unavailable once it is stale', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+    const oracle = new PriceOracle([new FixturePriceProvider('one', 0.1)], {
+      stalenessThresholdMs: 30000,
+    });
+
+    await oracle.refresh();
+    expect(oracle.getPrice()).toBe(0.1);
+
+    jest.setSystemTime(new Date('2026-01-01T00:00:31Z'));
+    expect(oracle.getPrice()).toBeNull();
+    expect(oracle.getStatus()!.available).toBe(false);
+  });
+
+  it('tracks each asset separately and only polls sources that quote it', async () => {
+    const xlmOnly: PriceProvider = {
+      name: 'xlm-only',
+      supports: (asset) => asset === 'XLM',
+      fetchPrice: jest.fn().mockResolvedValue(0.1),
+    };
+    const oracle = new PriceOracle([xlmOnly, new FixturePriceProvider('fixture', 65000)], {
+      assets: ['XLM', 'BTC'],
+      maxDeviation: 1,
+    });
+
+    await oracle.refresh();
+
+    expect(xlmOnly.fetchPrice).toHaveBeenCalledTimes(1);
+    expect(xlmOnly.fetchPrice).toHaveBeenCalledWith('XLM');
+    expect(oracle.getPrice('BTC')).toBe(65000);
+    expect(oracle.getStatus('BTC')!.sources.map((s) => s.source)).toEqual(['fixture']);
+    expect(oracle.getPrice('ETH')).toBeNull();
+    expect(oracle.getStatus('ETH')).toBeNull();
+  });
+
+  it('reads prices from a fixture file on every poll', async () => {
+    const file = path.join(os.tmpdir(), `oracle-fixture-${process.pid}.json`);
+    fs.writeFileSync(file, JSON.stringify({ price: 0.2 }));
+
+    try {
+      const oracle = new PriceOracle([new FixturePriceProvider('fixture', file)]);
+
+      await oracle.refresh();
+      expect(oracle.getPrice()).toBe(0.2);
+
+      fs.writeFileSync(file, JSON.stringify({ price: 0.25 }));
+      await oracle.refresh();
+      expect(oracle.getPrice()).toBe(0.25);
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+});
@@ -0,0 +1,514 @@
+import { Prisma } from '@prisma/client';
+import { prismaMock } from './singleton';
+
+jest.mock('../services/soroban.service', () => ({
+  __esModule: true,
+  default: { placeBet: jest.fn() },
+}));
+
+jest.mock('../services/ledger.service', () => ({
+  __esModule: true,
+  ...jest.requireActual('../services/ledger.service'),
+  default: { transfer: jest.fn() },
+}));
+
+jest.mock('../services/websocket.service', () => ({
+  __esModule: true,
+  default: { emitPredictionWithdrawn: jest.fn() },
+}));
+
+jest.mock('../services/odds.service', () => ({
+  __esModule: true,
+  default: { getRoundOdds: jest.fn(), schedulePoolsBroadcast: jest.fn() },
+}));
+
+import predictionService from '../services/prediction.service';
+import ledgerService from '../services/ledger.service';
+import websocketService from '../services/websocket.service';
+import oddsService from '../services/odds.service';
+import sorobanService from '../services/soroban.service';
+
+const decimal = (value: number) => new Prisma.Decimal(value);
+
+const legendsRound = {
+  id: 'round-1',
+  mode: 'LEGENDS',
+  asset: 'XLM',
+  status: 'ACTIVE',
+  startPrice: 1.0,
+  endTime: new Date(Date.now() + 60_000),
+  lockTime: new Date(Date.now() + 45_000),
+  minStake: null,
+  maxStake: null,
+};
+
+const buckets = [
+  { id: 'b0', roundId: 'round-1', index: 0, min: 0.9, max: 1.0, pool: 0 },
+  { id: 'b1', roundId: 'round-1', index: 1, min: 1.0, max: 1.1, pool: 5 },
+];
+
+// What prediction.aggregate reports for the user's earlier bets on the round
+const placed = (count: number, amount: number) =>
+  ({ _count: { _all: count }, _sum: { amount: count ? amount : null } }) as any;
+
+describe('PredictionService.submitPrediction', () => {
+  afterEach(() => {
+    delete process.env.MAX_BETS_PER_USER_PER_ROUND;
+    delete process.env.MAX_STAKE_PER_USER_PER_ROUND;
+  });
+
+  beforeEach(() => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+    prismaMock.round.findUnique.mockResolvedValue(legendsRound as any);
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue(legendsRound as any);
+    prismaMock.roundBucket.findMany.mockResolvedValue(buckets as any);
+    prismaMock.prediction.aggregate.mockResolvedValue(placed(0, 0));
+    prismaMock.user.findUnique.mockResolvedValue({ id: 'u1', walletAddress: 'GU1', virtualBalance: decimal(100) } as any);
+    prismaMock.prediction.create.mockResolvedValue({ id: 'p1' } as any);
+  });
+
+  it('places a LEGENDS bet on a range by index', async () => {
+    await predictionService.submitPrediction('u1', 'round-1', 10, undefined, 1);
+
+    expect(prismaMock.prediction.create).toHaveBeenCalledWith({
+      data: {
+        roundId: 'round-1',
+        userId: 'u1',
+        amount: 10,
+        side: undefined,
+        priceRange: { index: 1, min: 1.0, max: 1.1 },
+      },
+    });
+    // Incremented in place rather than rewriting every bucket
+    expect(prismaMock.roundBucket.update).toHaveBeenCalledWith({
+      where: { roundId_index: { roundId: 'round-1', index: 1 } },
+      data: { pool: { increment: 10 } },
+    });
+    expect(prismaMock.round.update).not.toHaveBeenCalled();
+    expect(ledgerService.transfer).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 10, type: 'BET', roundId: 'round-1' }),
+      prismaMock,
+    );
+    expect(oddsService.schedulePoolsBroadcast).toHaveBeenCalledWith('round-1');
+  });
+
+  it('rejects a range index outside the round', async () => {
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 10, undefined, 2),
+    ).rejects.toMatchObject({ code: 'INVALID_RANGE' });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects a side on a LEGENDS round', async () => {
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 10, 'UP', 0),
+    ).rejects.toMatchObject({ code: 'INVALID_SIDE' });
+  });
+
+  it('requires a side on an UP_DOWN round', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ ...legendsRound, mode: 'UP_DOWN', asset: 'BTC' } as any);
+
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 10),
+    ).rejects.toMatchObject({ code: 'INVALID_SIDE' });
+  });
+
+  it('re-checks the round under its row lock before taking the stake', async () => {
+    // Locked between the first read and the transaction
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue({ ...legendsRound, status: 'LOCKED' } as any);
+
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 10, undefined, 1),
+    ).rejects.toMatchObject({ code: 'ROUND_NOT_ACTIVE' });
+    expect(prismaMock.$queryRaw).toHaveBeenCalled();
+    expect(prismaMock.prediction.create).not.toHaveBeenCalled();
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+  });
+
+  it('takes the round row lock before re-reading the round', async () => {
+    await predictionService.submitPrediction('u1', 'round-1', 10, undefined, 1);
+
+    const [sql, roundId] = prismaMock.$queryRaw.mock.calls[0] as [TemplateStringsArray, string];
+    expect(sql.join('?')).toBe('SELECT "id" FROM "Round" WHERE "id" = ? FOR UPDATE');
+    expect(roundId).toBe('round-1');
+    expect(prismaMock.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      prismaMock.round.findUniqueOrThrow.mock.invocationCallOrder[0],
+    );
+    expect(prismaMock.round.findUniqueOrThrow.mock.invocationCallOrder[0]).toBeLessThan(
+      prismaMock.prediction.create.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('leaves the pools alone when a concurrent bet spent the balance first', async () => {
+    // The balance read before the transaction was stale
+    const spent: any = new Error('Insufficient balance');
+    spent.code = 'INSUFFICIENT_BALANCE';
+    (ledgerService.transfer as jest.Mock).mockRejectedValueOnce(spent);
+
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 10, undefined, 1),
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+    expect(prismaMock.roundBucket.update).not.toHaveBeenCalled();
+    expect(oddsService.schedulePoolsBroadcast).not.toHaveBeenCalled();
+  });
+
+  it('tops up a position with another bet on the round', async () => {
+    prismaMock.prediction.aggregate.mockResolvedValue(placed(2, 30));
+
+    await predictionService.submitPrediction('u1', 'round-1', 10, undefined, 1);
+
+    expect(prismaMock.prediction.create).toHaveBeenCalled();
+  });
+
+  it('caps the number of bets per user on a round', async () => {
+    process.env.MAX_BETS_PER_USER_PER_ROUND = '3';
+    prismaMock.prediction.aggregate.mockResolvedValue(placed(3, 30));
+
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 10, undefined, 1),
+    ).rejects.toMatchObject({ code: 'BET_LIMIT_REACHED' });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('re-checks the limits under the round lock', async () => {
+    process.env.MAX_STAKE_PER_USER_PER_ROUND = '50';
+    // A concurrent bet landed between the first check and the transaction
+    prismaMock.prediction.aggregate
+      .mockResolvedValueOnce(placed(1, 30))
+      .mockResolvedValueOnce(placed(2, 45));
+
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 10, undefined, 1),
+    ).rejects.toMatchObject({ code: 'STAKE_LIMIT_EXCEEDED' });
+    expect(prismaMock.prediction.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects bets once the lock window has started', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({
+      ...legendsRound,
+      lockTime: new Date(Date.now() - 1000),
+    } as any);
+
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 10, undefined, 1),
+    ).rejects.toMatchObject({ code: 'ROUND_LOCKED' });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('enforces the round stake limits', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ ...legendsRound, minStake: decimal(5), maxStake: decimal(50) } as any);
+
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 1, undefined, 1),
+    ).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 60, undefined, 1),
+    ).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects amounts finer than a stroop', async () => {
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 0.00000001, undefined, 1),
+    ).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+    await expect(
+      predictionService.submitPrediction('u1', 'round-1', 0.0000001, undefined, 1),
+    ).resolves.toBeDefined();
+  });
+
+  it('reports a missing round with ROUND_NOT_FOUND', async () => {
+    prismaMock.round.findUnique.mockResolvedValue(null);
+
+    await expect(
+      predictionService.submitPrediction('u1', 'missing', 10, 'UP'),
+    ).rejects.toMatchObject({ code: 'ROUND_NOT_FOUND' });
+  });
+
+  describe('on XLM Up/Down rounds', () => {
+    const onChainRound = { ...legendsRound, mode: 'UP_DOWN', sorobanRoundId: '42' };
+
+    beforeEach(() => {
+      prismaMock.round.findUnique.mockResolvedValue(onChainRound as any);
+      prismaMock.round.findUniqueOrThrow.mockResolvedValue(onChainRound as any);
+    });
+
+    it('places the bet on the contract after the checks and writes under the lock', async () => {
+      await predictionService.submitPrediction('u1', 'round-1', 10, 'UP');
+
+      expect(sorobanService.placeBet).toHaveBeenCalledWith('GU1', 10, 'UP');
+      expect((sorobanService.placeBet as jest.Mock).mock.invocationCallOrder[0]).toBeGreaterThan(
+        (ledgerService.transfer as jest.Mock).mock.invocationCallOrder[0],
+      );
+      expect((sorobanService.placeBet as jest.Mock).mock.invocationCallOrder[0]).toBeGreaterThan(
+        prismaMock.round.update.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('refuses bets until the on-chain round is recorded', async () => {
+      prismaMock.round.findUnique.mockResolvedValue({ ...onChainRound, sorobanRoundId: null } as any);
+
+      await expect(
+        predictionService.submitPrediction('u1', 'round-1', 10, 'UP'),
+      ).rejects.toMatchObject({ code: 'ROUND_NOT_ACTIVE' });
+      expect(sorobanService.placeBet).not.toHaveBeenCalled();
+    });
+
+    it('skips the contract when a check under the lock fails', async () => {
+      prismaMock.round.findUniqueOrThrow.mockResolvedValue({ ...onChainRound, status: 'LOCKED' } as any);
+
+      await expect(
+        predictionService.submitPrediction('u1', 'round-1', 10, 'UP'),
+      ).rejects.toMatchObject({ code: 'ROUND_NOT_ACTIVE' });
+      expect(sorobanService.placeBet).not.toHaveBeenCalled();
+    });
+
+    it('skips the contract when the stake cannot be taken', async () => {
+      const spent: any = new Error('Insufficient balance');
+      spent.code = 'INSUFFICIENT_BALANCE';
+      (ledgerService.transfer as jest.Mock).mockRejectedValueOnce(spent);
+
+      await expect(
+        predictionService.submitPrediction('u1', 'round-1', 10, 'UP'),
+      ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+      expect(sorobanService.placeBet).not.toHaveBeenCalled();
+    });
+
+    it('refuses a second bet by the same user', async () => {
+      prismaMock.prediction.aggregate.mockResolvedValue(placed(1, 10));
+
+      await expect(
+        predictionService.submitPrediction('u1', 'round-1', 10, 'UP'),
+      ).rejects.toMatchObject({ code: 'ON_CHAIN_BET' });
+      expect(prismaMock.$transaction).not.toHaveBeenCalled();
+      expect(sorobanService.placeBet).not.toHaveBeenCalled();
+    });
+
+    it('refuses a second bet that landed concurrently', async () => {
+      prismaMock.prediction.aggregate
+        .mockResolvedValueOnce(placed(0, 0))
+        .mockResolvedValueOnce(placed(1, 10));
+
+      await expect(
+        predictionService.submitPrediction('u1', 'round-1', 10, 'UP'),
+      ).rejects.toMatchObject({ code: 'ON_CHAIN_BET' });
+      expect(prismaMock.prediction.create).not.toHaveBeenCalled();
+      expect(sorobanService.placeBet).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('PredictionService.cashOut', () => {
+  const upDownRound = { ...legendsRound, mode: 'UP_DOWN', asset: 'BTC' };
+  const bet = {
+    id: 'p1',
+    userId: 'u1',
+    roundId: 'round-1',
+    amount: decimal(20),
+    side: 'UP',
+    priceRange: null,
+    withdrawnAt: null,
+  };
+
+  beforeEach(() => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+    prismaMock.prediction.findUnique.mockResolvedValue(bet as any);
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue(upDownRound as any);
+    prismaMock.prediction.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.round.update.mockResolvedValue(upDownRound as any);
+  });
+
+  afterEach(() => {
+    delete process.env.CASH_OUT_FEE_PERCENT;
+  });
+
+  it('refunds the stake minus the fee and forfeits the fee to the round', async () => {
+    process.env.CASH_OUT_FEE_PERCENT = '5';
+
+    const result = await predictionService.cashOut('u1', 'p1');
+
+    expect(result).toMatchObject({ id: 'p1', roundId: 'round-1', amount: 20, fee: 1, refund: 19 });
+    expect(prismaMock.$queryRaw).toHaveBeenCalled();
+    expect(prismaMock.prediction.updateMany).toHaveBeenCalledWith({
+      where: { id: 'p1', withdrawnAt: null },
+      data: { withdrawnAt: expect.any(Date), withdrawalFee: decimal(1) },
+    });
+    expect(prismaMock.round.update).toHaveBeenCalledWith({
+      where: { id: 'round-1' },
+      data: { poolUp: { decrement: decimal(20) }, poolDown: undefined, forfeitedPool: { increment: decimal(1) } },
+    });
+    expect(ledgerService.transfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: { type: 'ROUND_ESCROW', id: 'round-1' },
+        to: { type: 'USER_WALLET', id: 'u1' },
+        amount: decimal(19),
+        type: 'CASH_OUT',
+      }),
+      prismaMock,
+    );
+    expect(websocketService.emitPredictionWithdrawn).toHaveBeenCalledWith(bet, upDownRound, 1);
+    expect(oddsService.schedulePoolsBroadcast).toHaveBeenCalledWith('round-1');
+  });
+
+  it('takes a LEGENDS stake out of its bucket', async () => {
+    prismaMock.prediction.findUnique.mockResolvedValue({
+      ...bet,
+      side: null,
+      priceRange: { index: 1, min: 1.0, max: 1.1 },
+    } as any);
+
+    await predictionService.cashOut('u1', 'p1');
+
+    expect(prismaMock.roundBucket.update).toHaveBeenCalledWith({
+      where: { roundId_index: { roundId: 'round-1', index: 1 } },
+      data: { pool: { decrement: decimal(20) } },
+    });
+  });
+
+  it('rounds the fee down to the stroop', async () => {
+    process.env.CASH_OUT_FEE_PERCENT = '10';
+    prismaMock.prediction.findUnique.mockResolvedValue({ ...bet, amount: decimal(0.0000015) } as any);
+
+    await expect(predictionService.cashOut('u1', 'p1')).resolves.toMatchObject({
+      amount: 0.0000015,
+      fee: 0.0000001,
+      refund: 0.0000014,
+    });
+  });
+
+  it('refuses once betting has closed', async () => {
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue({
+      ...upDownRound,
+      lockTime: new Date(Date.now() - 1000),
+    } as any);
+
+    await expect(predictionService.cashOut('u1', 'p1')).rejects.toMatchObject({ code: 'ROUND_LOCKED' });
+    expect(prismaMock.prediction.updateMany).not.toHaveBeenCalled();
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+  });
+
+  it('refuses bets mirrored on the contract', async () => {
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue({ ...upDownRound, asset: 'XLM', sorobanRoundId: '42' } as any);
+
+    await expect(predictionService.cashOut('u1', 'p1')).rejects.toMatchObject({ code: 'ON_CHAIN_BET' });
+    expect(prismaMock.prediction.updateMany).not.toHaveBeenCalled();
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+  });
+
+  it('cashes a bet out only once', async () => {
+    prismaMock.prediction.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(predictionService.cashOut('u1', 'p1')).rejects.toMatchObject({ code: 'ALREADY_WITHDRAWN' });
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+  });
+
+  it("hides other users' bets", async () => {
+    await expect(predictionService.cashOut('u2', 'p1')).rejects.toMatchObject({ code: 'PREDICTION_NOT_FOUND' });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('PredictionService.quote', () => {
+  const upDownRound = { ...legendsRound, mode: 'UP_DOWN', asset: 'BTC' };
+
+  beforeEach(() => {
+    prismaMock.round.findUnique.mockResolvedValue(upDownRound as any);
+    (oddsService.getRoundOdds as jest.Mock).mockResolvedValue({
+      roundId: 'round-1',
+      mode: 'UP_DOWN',
+      status: 'ACTIVE',
+      feeBps: 1000,
+      totalPool: 150,
+      forfeitedPool: 0,
+      outcomes: [
+        { side: 'UP', pool: 100, impliedProbability: 2 / 3, multiplier: 1.45 },
+        { side: 'DOWN', pool: 50, impliedProbability: 1 / 3, multiplier: 2.8 },
+      ],
+    });
+  });
+
+  it('counts the stake in its own pool', async () => {
+    const quote = await predictionService.quote('round-1', 50, 'DOWN');
+
+    // DOWN grows to 100 and would win UP's 100 less the 10% fee
+    expect(quote).toEqual({
+      roundId: 'round-1',
+      amount: 50,
+      side: 'DOWN',
+      rangeIndex: null,
+      feeBps: 1000,
+      outcomePool: 100,
+      multiplier: 1.9,
+      payout: 95,
+      profit: 45,
+    });
+    expect(prismaMock.prediction.create).not.toHaveBeenCalled();
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+  });
+
+  it('quotes a refund while the other side has no stake', async () => {
+    (oddsService.getRoundOdds as jest.Mock).mockResolvedValue({
+      roundId: 'round-1',
+      mode: 'UP_DOWN',
+      status: 'ACTIVE',
+      feeBps: 1000,
+      totalPool: 110,
+      forfeitedPool: 10,
+      outcomes: [
+        { side: 'UP', pool: 100, impliedProbability: 1, multiplier: 1 },
+        { side: 'DOWN', pool: 0, impliedProbability: 0, multiplier: null },
+      ],
+    });
+
+    // Settled as NO_COUNTERPARTY, which refunds every stake
+    await expect(predictionService.quote('round-1', 50, 'UP')).resolves.toMatchObject({
+      outcomePool: 150,
+      multiplier: 1,
+      payout: 50,
+      profit: 0,
+    });
+  });
+
+  it('validates the stake like a real bet', async () => {
+    await expect(predictionService.quote('round-1', 10)).rejects.toMatchObject({ code: 'INVALID_SIDE' });
+    await expect(predictionService.quote('round-1', -1, 'UP')).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+
+    prismaMock.round.findUnique.mockResolvedValue({ ...upDownRound, status: 'LOCKED' } as any);
+    await expect(predictionService.quote('round-1', 10, 'UP')).rejects.toMatchObject({ code: 'ROUND_NOT_ACTIVE' });
+  });
+});
+
+describe('PredictionService.getPosition', () => {
+  it('combines the user\'s bets on a round', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ id: 'round-1' } as any);
+    prismaMock.prediction.findMany.mockResolvedValue([
+      { roundId: 'round-1', userId: 'u1', amount: 20, side: 'UP', priceRange: null, payout: 36 },
+      { roundId: 'round-1', userId: 'u1', amount: 5, side: 'UP', priceRange: null, payout: 9 },
+      { roundId: 'round-1', userId: 'u1', amount: 10, side: 'DOWN', priceRange: null, payout: 0 },
+    ] as any);
+
+    await expect(predictionService.getPosition('round-1', 'u1')).resolves.toEqual({
+      roundId: 'round-1',
+      userId: 'u1',
+      bets: 3,
+      totalStake: 35,
+      sides: { UP: 25, DOWN: 10 },
+      ranges: [],
+      payout: 45,
+      profit: 10,
+    });
+  });
+
+  it('leaves payout and profit unset until every bet is settled', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ id: 'round-1' } as any);
+    prismaMock.prediction.findMany.mockResolvedValue([
+      { roundId: 'round-1', userId: 'u1', amount: 10, side: null, priceRange: { index: 2 }, payout: null },
+      { roundId: 'round-1', userId: 'u1', amount: 5, side: null, priceRange: { index: 0 }, payout: null },
+    ] as any);
+
+    const position = await predictionService.getPosition('round-1', 'u1');
+
+    expect(position.ranges).toEqual([{ index: 0, stake: 5 }, { index: 2, stake: 10 }]);
+    expect(position.payout).toBeNull();
+    expect(position.profit).toBeNull();
+  });
+});
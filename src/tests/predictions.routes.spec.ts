@@ -85,7 +85,7 @@ describe('Predictions Routes - Auth Identity Binding (Issue #64)', () => {
       const updatedUserA = await prisma.user.findUnique({
         where: { id: userA.id },
       });
-      expect(updatedUserA!.virtualBalance).toBe(900); // 1000 - 100
+      expect(updatedUserA!.virtualBalance.toNumber()).toBe(900); // 1000 - 100
     });
 
     it('should ignore userId in request body if provided', async () => {
@@ -120,8 +120,8 @@ describe('Predictions Routes - Auth Identity Binding (Issue #64)', () => {
         where: { id: userB.id },
       });
 
-      expect(updatedUserA!.virtualBalance).toBe(850); // 900 - 50 (from previous test)
-      expect(updatedUserB!.virtualBalance).toBe(500); // Unchanged
+      expect(updatedUserA!.virtualBalance.toNumber()).toBe(850); // 900 - 50 (from previous test)
+      expect(updatedUserB!.virtualBalance.toNumber()).toBe(500); // Unchanged
     });
 
     it('should prevent user from making predictions on behalf of others', async () => {
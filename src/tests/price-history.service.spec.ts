@@ -0,0 +1,87 @@
+import { prismaMock } from './singleton';
+import priceHistoryService, { candleOpenTime } from '../services/price-history.service';
+
+describe('PriceHistoryService', () => {
+  describe('candleOpenTime', () => {
+    const at = new Date('2026-01-01T10:37:42.500Z');
+
+    it('buckets timestamps to the start of each interval', () => {
+      expect(candleOpenTime(at, '1m').toISOString()).toBe('2026-01-01T10:37:00.000Z');
+      expect(candleOpenTime(at, '5m').toISOString()).toBe('2026-01-01T10:35:00.000Z');
+      expect(candleOpenTime(at, '1h').toISOString()).toBe('2026-01-01T10:00:00.000Z');
+    });
+  });
+
+  describe('recordSample', () => {
+    it('stores the raw sample and upserts one candle per interval', async () => {
+      const timestamp = new Date('2026-01-01T10:37:42.500Z');
+
+      await priceHistoryService.recordSample('XLM', 0.12, ['coingecko', 'kraken'], timestamp);
+
+      expect(prismaMock.priceHistory.create).toHaveBeenCalledWith({
+        data: { asset: 'XLM', price: 0.12, sources: ['coingecko', 'kraken'], timestamp },
+      });
+      expect(prismaMock.$executeRaw).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getSampleAt', () => {
+    it('looks up the latest sample not after the given time within the tolerance', async () => {
+      const at = new Date('2026-01-01T10:40:00.000Z');
+      prismaMock.priceHistory.findFirst.mockResolvedValue(null);
+
+      const sample = await priceHistoryService.getSampleAt('XLM', at, 30000);
+
+      expect(sample).toBeNull();
+      expect(prismaMock.priceHistory.findFirst).toHaveBeenCalledWith({
+        where: {
+          asset: 'XLM',
+          timestamp: { lte: at, gte: new Date('2026-01-01T10:39:30.000Z') },
+        },
+        orderBy: { timestamp: 'desc' },
+      });
+    });
+  });
+
+  describe('getCandles', () => {
+    it('returns candles in the API shape', async () => {
+      prismaMock.priceCandle.findMany.mockResolvedValue([
+        {
+          id: 'c1',
+          asset: 'XLM',
+          interval: '1m',
+          openTime: new Date('2026-01-01T10:37:00.000Z'),
+          open: 0.1,
+          high: 0.13,
+          low: 0.09,
+          close: 0.12,
+          sampleCount: 6,
+          updatedAt: new Date(),
+        },
+      ]);
+
+      const candles = await priceHistoryService.getCandles(
+        'XLM',
+        '1m',
+        new Date('2026-01-01T10:37:30.000Z'),
+        new Date('2026-01-01T10:40:00.000Z'),
+      );
+
+      expect(prismaMock.priceCandle.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            asset: 'XLM',
+            interval: '1m',
+            openTime: {
+              gte: new Date('2026-01-01T10:37:00.000Z'),
+              lte: new Date('2026-01-01T10:40:00.000Z'),
+            },
+          },
+        }),
+      );
+      expect(candles).toEqual([
+        { openTime: '2026-01-01T10:37:00.000Z', open: 0.1, high: 0.13, low: 0.09, close: 0.12, samples: 6 },
+      ]);
+    });
+  });
+});
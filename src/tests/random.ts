@@ -0,0 +1,13 @@
+/**
+ * Deterministic PRNG (mulberry32) for randomized tests, so a failing case
+ * can be replayed from its seed
+ * @returns A generator of floats in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
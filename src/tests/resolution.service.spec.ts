@@ -0,0 +1,611 @@
+import { prismaMock } from './singleton';
+import { Prisma } from '@prisma/client';
+
+jest.mock('../services/soroban.service', () => ({
+  __esModule: true,
+  default: { resolveRound: jest.fn() },
+}));
+
+jest.mock('../services/notification.service', () => ({
+  __esModule: true,
+  default: { createNotification: jest.fn().mockResolvedValue(null) },
+}));
+
+jest.mock('../services/websocket.service', () => ({
+  __esModule: true,
+  default: { emitNotification: jest.fn(), emitRoundCancelled: jest.fn() },
+}));
+
+jest.mock('../services/education-tip.service', () => ({
+  __esModule: true,
+  default: { generateTip: jest.fn().mockResolvedValue({ category: 'price-action', message: 'tip' }) },
+}));
+
+jest.mock('../services/leaderboard.service', () => ({
+  __esModule: true,
+  lockUserStats: jest.fn(),
+  recordRoundResults: jest.fn(),
+}));
+
+jest.mock('../services/ledger.service', () => ({
+  __esModule: true,
+  ...jest.requireActual('../services/ledger.service'),
+  default: {
+    transfer: jest.fn(),
+    getAccountBalance: jest.fn(),
+  },
+}));
+
+import resolutionService, { houseFeeBps } from '../services/resolution.service';
+import sorobanService from '../services/soroban.service';
+import notificationService from '../services/notification.service';
+import ledgerService from '../services/ledger.service';
+import websocketService from '../services/websocket.service';
+import { lockUserStats, recordRoundResults } from '../services/leaderboard.service';
+import { fromStroops, sumStroops, toStroops } from '../utils/money.util';
+import { seededRandom } from './random';
+
+const decimal = (value: number | string) => new Prisma.Decimal(value);
+
+const lockedRound = {
+  id: 'round-1',
+  mode: 'UP_DOWN',
+  asset: 'XLM',
+  status: 'LOCKED',
+  startPrice: 1.0,
+  poolUp: 30,
+  poolDown: 10,
+  forfeitedPool: 0,
+};
+
+const predictions = [
+  { id: 'p1', userId: 'u1', roundId: 'round-1', side: 'UP', amount: 20 },
+  { id: 'p2', userId: 'u2', roundId: 'round-1', side: 'UP', amount: 10 },
+  { id: 'p3', userId: 'u3', roundId: 'round-1', side: 'DOWN', amount: 10 },
+];
+
+describe('ResolutionService.resolveRound', () => {
+  beforeEach(() => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+    (ledgerService.getAccountBalance as jest.Mock).mockResolvedValue(decimal(0));
+    prismaMock.round.findUnique.mockResolvedValue(lockedRound as any);
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue(lockedRound as any);
+    prismaMock.prediction.findMany.mockResolvedValue(predictions as any);
+    (notificationService.createNotification as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('settles the round, pays winners and records the resolution in one transaction', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    await resolutionService.resolveRound('round-1', 1.5);
+
+    // The contract call is claimed and confirmed outside the settlement transaction
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+    expect(prismaMock.round.updateMany).toHaveBeenCalledWith({
+      where: { id: 'round-1', status: { in: ['ACTIVE', 'LOCKED'] }, sorobanClaimedAt: null },
+      data: { sorobanClaimedAt: expect.any(Date) },
+    });
+    expect(sorobanService.resolveRound).toHaveBeenCalledWith(1.5, 0);
+    expect(prismaMock.round.update).toHaveBeenCalledWith({
+      where: { id: 'round-1' },
+      data: { sorobanResolvedAt: expect.any(Date) },
+    });
+    expect((sorobanService.resolveRound as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+      prismaMock.$transaction.mock.invocationCallOrder[0],
+    );
+    expect(prismaMock.round.updateMany).toHaveBeenCalledWith({
+      where: { id: 'round-1', status: 'LOCKED' },
+      data: { status: 'RESOLVED', endPrice: 1.5, resolvedAt: expect.any(Date) },
+    });
+    expect(prismaMock.roundEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ roundId: 'round-1', fromStatus: 'LOCKED', toStatus: 'RESOLVED' }),
+    });
+    expect(prismaMock.roundResolution.create).toHaveBeenCalledWith({
+      data: { roundId: 'round-1', finalPrice: 1.5, winnerCount: 2, totalPayout: decimal('39.9999999'), feeBps: 0, houseFee: decimal(0) },
+    });
+
+    // Rounded down to the stroop; the dust is swept to the house
+    const payouts = prismaMock.prediction.update.mock.calls.map((call: any) => [
+      call[0].where.id,
+      call[0].data.outcome,
+      Number(call[0].data.payout),
+    ]);
+    expect(payouts).toEqual([
+      ['p1', 'WIN', 26.6666666],
+      ['p2', 'WIN', 13.3333333],
+      ['p3', 'LOSS', 0],
+    ]);
+
+    expect(ledgerService.transfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: { type: 'ROUND_ESCROW', id: 'round-1' },
+        to: { type: 'USER_WALLET', id: 'u1' },
+        type: 'WIN',
+      }),
+      prismaMock,
+    );
+
+    // Notifications go out only after the transaction has committed
+    expect(notificationService.createNotification).toHaveBeenCalledTimes(3);
+  });
+
+  it('counts a user with several bets as one winner or loser', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.prediction.findMany.mockResolvedValue([
+      // u1 tops up on UP and hedges on DOWN; u2 only bets DOWN
+      { id: 'p1', userId: 'u1', roundId: 'round-1', side: 'UP', amount: 20 },
+      { id: 'p2', userId: 'u1', roundId: 'round-1', side: 'UP', amount: 10 },
+      { id: 'p3', userId: 'u1', roundId: 'round-1', side: 'DOWN', amount: 5 },
+      { id: 'p4', userId: 'u2', roundId: 'round-1', side: 'DOWN', amount: 5 },
+    ] as any);
+
+    await resolutionService.resolveRound('round-1', 1.5);
+
+    // u1 is paid 40 (less rounding dust) on a 35 stake
+    expect(prismaMock.roundResolution.create).toHaveBeenCalledWith({
+      data: { roundId: 'round-1', finalPrice: 1.5, winnerCount: 1, totalPayout: decimal('39.9999999'), feeBps: 0, houseFee: decimal(0) },
+    });
+    expect(prismaMock.user.update.mock.calls.map((call: any) => call[0])).toEqual([
+      { where: { id: 'u1' }, data: { wins: { increment: 1 }, streak: { increment: 1 } } },
+      { where: { id: 'u2' }, data: { streak: 0 } },
+    ]);
+    // Leaderboard stats get the same per-user positions, in the transaction
+    expect(recordRoundResults).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'round-1' }),
+      [
+        expect.objectContaining({ userId: 'u1', totalStake: 35, payout: 39.9999999 }),
+        expect.objectContaining({ userId: 'u2', totalStake: 5, payout: 0 }),
+      ],
+      expect.any(Date),
+      prismaMock,
+    );
+    // After any stats rebuild in progress
+    expect(lockUserStats).toHaveBeenCalledWith(prismaMock);
+    expect((lockUserStats as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+      (recordRoundResults as jest.Mock).mock.invocationCallOrder[0],
+    );
+    expect(notificationService.createNotification).toHaveBeenCalledTimes(2);
+    expect(notificationService.createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'u1', type: 'WIN', data: { roundId: 'round-1', amount: 39.9999999 } }),
+    );
+  });
+
+  it('ignores cashed-out bets and pays their penalties to the winners', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue({ ...lockedRound, forfeitedPool: 2 } as any);
+
+    await resolutionService.resolveRound('round-1', 1.5);
+
+    expect(prismaMock.prediction.findMany).toHaveBeenCalledWith({
+      where: { roundId: 'round-1', withdrawnAt: null },
+    });
+    expect(prismaMock.roundResolution.create).toHaveBeenCalledWith({
+      data: { roundId: 'round-1', finalPrice: 1.5, winnerCount: 2, totalPayout: decimal(42), feeBps: 0, houseFee: decimal(0) },
+    });
+  });
+
+  it('takes the house fee from the losing pool before paying winners', async () => {
+    process.env.HOUSE_FEE_BPS_UP_DOWN = '1000';
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    try {
+      await resolutionService.resolveRound('round-1', 1.5);
+    } finally {
+      delete process.env.HOUSE_FEE_BPS_UP_DOWN;
+    }
+
+    // The contract applies the same fee
+    expect(sorobanService.resolveRound).toHaveBeenCalledWith(1.5, 1000);
+    expect(ledgerService.transfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: { type: 'ROUND_ESCROW', id: 'round-1' },
+        to: { type: 'HOUSE', id: 'house' },
+        amount: decimal(1),
+        type: 'FEE',
+      }),
+      prismaMock,
+    );
+
+    // 9 of the 10 losing stake is shared by the UP bettors
+    const payouts = prismaMock.prediction.update.mock.calls.map((call: any) => Number(call[0].data.payout));
+    expect(payouts).toEqual([20 + (20 / 30) * 9, 10 + (10 / 30) * 9, 0]);
+    expect(prismaMock.roundResolution.create).toHaveBeenCalledWith({
+      data: { roundId: 'round-1', finalPrice: 1.5, winnerCount: 2, totalPayout: decimal(39), feeBps: 1000, houseFee: decimal(1) },
+    });
+  });
+
+  it('settles rounds on other assets off-chain', async () => {
+    const btcRound = { ...lockedRound, asset: 'BTC', startPrice: 65000 };
+    prismaMock.round.findUnique.mockResolvedValue(btcRound as any);
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue(btcRound as any);
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    await resolutionService.resolveRound('round-1', 66000);
+
+    expect(sorobanService.resolveRound).not.toHaveBeenCalled();
+    expect(prismaMock.roundResolution.create).toHaveBeenCalledWith({
+      data: { roundId: 'round-1', finalPrice: 66000, winnerCount: 2, totalPayout: decimal('39.9999999'), feeBps: 0, houseFee: decimal(0) },
+    });
+  });
+
+  it('locks a still-active round before resolving it', async () => {
+    const activeRound = { ...lockedRound, status: 'ACTIVE' };
+    prismaMock.round.findUnique
+      .mockResolvedValueOnce(activeRound as any) // pre-check
+      .mockResolvedValueOnce(activeRound as any) // ACTIVE -> LOCKED
+      .mockResolvedValueOnce(lockedRound as any); // LOCKED -> RESOLVED
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    await resolutionService.resolveRound('round-1', 1.5, undefined, { type: 'SCHEDULER' });
+
+    const transitions = prismaMock.roundEvent.create.mock.calls.map(([args]: any) => [
+      args.data.fromStatus,
+      args.data.toStatus,
+      args.data.actorType,
+    ]);
+    expect(transitions).toEqual([
+      ['ACTIVE', 'LOCKED', 'SCHEDULER'],
+      ['LOCKED', 'RESOLVED', 'SCHEDULER'],
+    ]);
+  });
+
+  it('is a no-op when the round already has a resolution record', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue({ id: 'res-1', roundId: 'round-1' } as any);
+
+    await resolutionService.resolveRound('round-1', 1.5);
+
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    expect(sorobanService.resolveRound).not.toHaveBeenCalled();
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+  });
+
+  it('skips payouts when another resolver claimed the round first', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 0 });
+
+    await resolutionService.resolveRound('round-1', 1.5);
+
+    expect(prismaMock.prediction.update).not.toHaveBeenCalled();
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+    expect(prismaMock.roundResolution.create).not.toHaveBeenCalled();
+    expect(notificationService.createNotification).not.toHaveBeenCalled();
+  });
+
+  it('treats a unique violation on the resolution record as a concurrent resolution', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.$transaction.mockImplementationOnce((fn: any) => fn(prismaMock));
+    prismaMock.$transaction.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      }),
+    );
+
+    await expect(resolutionService.resolveRound('round-1', 1.5)).resolves.toBeDefined();
+    expect(notificationService.createNotification).not.toHaveBeenCalled();
+  });
+
+  it('does not call the contract again when a settlement that failed after it is retried', async () => {
+    // Stand-in for the Round row, so the on-chain marker outlives the failed settlement
+    let row: any = { ...lockedRound, sorobanClaimedAt: null, sorobanResolvedAt: null };
+    prismaMock.round.findUnique.mockImplementation((async () => row) as any);
+    prismaMock.round.findUniqueOrThrow.mockImplementation((async () => row) as any);
+    prismaMock.round.update.mockImplementation((async ({ data }: any) => {
+      row = { ...row, ...data };
+      return row;
+    }) as any);
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.roundResolution.create.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(resolutionService.resolveRound('round-1', 1.5)).rejects.toThrow('connection lost');
+    expect(sorobanService.resolveRound).toHaveBeenCalledTimes(1);
+    expect(row.sorobanResolvedAt).toEqual(expect.any(Date));
+
+    await expect(resolutionService.resolveRound('round-1', 1.5)).resolves.toBeDefined();
+    expect(sorobanService.resolveRound).toHaveBeenCalledTimes(1);
+    expect(prismaMock.roundResolution.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves the contract alone when a concurrent resolver settled the round first', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue({ ...lockedRound, status: 'RESOLVED' } as any);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 0 });
+
+    await resolutionService.resolveRound('round-1', 1.5);
+
+    expect(sorobanService.resolveRound).not.toHaveBeenCalled();
+    expect(prismaMock.round.update).not.toHaveBeenCalled();
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+  });
+
+  it('stops rather than calling the contract again when an earlier call was never confirmed', async () => {
+    const claimed = { ...lockedRound, sorobanClaimedAt: new Date(), sorobanResolvedAt: null };
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.findUnique.mockResolvedValue(claimed as any);
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue(claimed as any);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(resolutionService.resolveRound('round-1', 1.5)).rejects.toMatchObject({
+      code: 'ON_CHAIN_RESOLUTION_PENDING',
+    });
+    expect(sorobanService.resolveRound).not.toHaveBeenCalled();
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('keeps the claim when the contract resolved the round but the marker was not written', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.round.update.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(resolutionService.resolveRound('round-1', 1.5)).rejects.toThrow('connection lost');
+    expect(sorobanService.resolveRound).toHaveBeenCalledTimes(1);
+    expect(prismaMock.round.update).toHaveBeenCalledTimes(1);
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('releases the claim when the contract call fails', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+    (sorobanService.resolveRound as jest.Mock).mockRejectedValueOnce(new Error('Soroban contract error'));
+
+    await expect(resolutionService.resolveRound('round-1', 1.5)).rejects.toThrow('Soroban contract error');
+    expect(prismaMock.round.update).toHaveBeenCalledWith({
+      where: { id: 'round-1' },
+      data: { sorobanClaimedAt: null },
+    });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('pays LEGENDS winners by the index of the range the final price fell in', async () => {
+    const legendsRound = { ...lockedRound, mode: 'LEGENDS' };
+    prismaMock.round.findUnique.mockResolvedValue(legendsRound as any);
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue(legendsRound as any);
+    prismaMock.roundBucket.findMany.mockResolvedValue([
+      { id: 'b1', roundId: 'round-1', index: 1, min: 1.0, max: 1.1, pool: 30 },
+      { id: 'b0', roundId: 'round-1', index: 0, min: 0.9, max: 1.0, pool: 10 },
+    ] as any);
+    prismaMock.prediction.findMany.mockResolvedValue([
+      { id: 'p1', userId: 'u1', roundId: 'round-1', amount: 30, priceRange: { index: 1, min: 1.0, max: 1.1 } },
+      // Placed before ranges were addressed by index
+      { id: 'p2', userId: 'u2', roundId: 'round-1', amount: 10, priceRange: { min: 0.9, max: 1.0 } },
+    ] as any);
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    await resolutionService.resolveRound('round-1', 1.05);
+
+    const payouts = prismaMock.prediction.update.mock.calls.map((call: any) => [
+      call[0].where.id,
+      call[0].data.won,
+      Number(call[0].data.payout),
+    ]);
+    expect(payouts).toEqual([
+      ['p1', true, 40],
+      ['p2', false, 0],
+    ]);
+    expect((notificationService.createNotification as jest.Mock).mock.calls.map(([input]) => [input.userId, input.type])).toEqual([
+      ['u1', 'WIN'],
+      ['u2', 'LOSS'],
+    ]);
+  });
+
+  it('refunds every stake and notifies each participant when nobody backed the winning side', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    // Every bet is on UP and the price fell
+    prismaMock.prediction.findMany.mockResolvedValue(
+      predictions.map((prediction) => ({ ...prediction, side: 'UP' })) as any,
+    );
+
+    await resolutionService.resolveRound('round-1', 0.5);
+
+    const outcomes = prismaMock.prediction.update.mock.calls.map((call: any) => call[0].data);
+    expect(outcomes).toEqual([
+      { won: null, payout: decimal(20), outcome: 'REFUND' },
+      { won: null, payout: decimal(10), outcome: 'REFUND' },
+      { won: null, payout: decimal(10), outcome: 'REFUND' },
+    ]);
+    expect(ledgerService.transfer).toHaveBeenCalledWith(
+      expect.objectContaining({ to: { type: 'USER_WALLET', id: 'u1' }, amount: decimal(20), type: 'REFUND' }),
+      prismaMock,
+    );
+    // Refunds leave wins, streaks and stats alone
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+    expect(recordRoundResults).not.toHaveBeenCalled();
+    expect(notificationService.createNotification).toHaveBeenCalledTimes(3);
+    expect(notificationService.createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'u1',
+        type: 'ROUND_REFUNDED',
+        data: { roundId: 'round-1', amount: 20, reason: 'NO_WINNERS' },
+      }),
+    );
+  });
+
+  it('lets the house keep tied stakes under the HOUSE tie rule', async () => {
+    process.env.SETTLEMENT_TIE_RULE = 'house';
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    try {
+      await resolutionService.resolveRound('round-1', 1.0);
+    } finally {
+      delete process.env.SETTLEMENT_TIE_RULE;
+    }
+
+    const outcomes = prismaMock.prediction.update.mock.calls.map((call: any) => call[0].data.outcome);
+    expect(outcomes).toEqual(['LOSS', 'LOSS', 'LOSS']);
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+    // A tie the house keeps is a loss on the leaderboard, not a DOWN win
+    expect((recordRoundResults as jest.Mock).mock.calls[0][1].map((position: any) => position.payout)).toEqual([0, 0, 0]);
+    expect(prismaMock.roundResolution.create).toHaveBeenCalledWith({
+      data: { roundId: 'round-1', finalPrice: 1.0, winnerCount: 0, totalPayout: decimal(0), feeBps: 0, houseFee: decimal(0) },
+    });
+  });
+
+  it('moves every stroop of random rounds out of escrow to the users or the house', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    const transfers = () => (ledgerService.transfer as jest.Mock).mock.calls.map(([input]) => input);
+    const total = (type: string) =>
+      sumStroops(transfers().filter((input) => input.type === type).map((input) => input.amount));
+
+    try {
+      for (let seed = 1; seed <= 100; seed++) {
+        jest.clearAllMocks();
+        const next = seededRandom(seed);
+
+        const bets = Array.from({ length: 1 + Math.floor(next() * 8) }, (_, i) => ({
+          id: `p${i}`,
+          userId: `u${i % 3}`,
+          roundId: 'round-1',
+          side: next() < 0.5 ? 'UP' : 'DOWN',
+          // Up to 1000 XLM, to the stroop
+          amount: fromStroops(1n + BigInt(Math.floor(next() * 1e10))),
+        }));
+        const round = { ...lockedRound, asset: 'BTC', forfeitedPool: fromStroops(BigInt(Math.floor(next() * 1e8))) };
+        process.env.HOUSE_FEE_BPS_UP_DOWN = String(Math.floor(next() * 1001));
+
+        prismaMock.round.findUnique.mockResolvedValue(round as any);
+        prismaMock.round.findUniqueOrThrow.mockResolvedValue(round as any);
+        prismaMock.prediction.findMany.mockResolvedValue(bets as any);
+
+        // The escrow holds the stakes and forfeits until transfers move them out
+        const escrowed = sumStroops(bets.map((bet) => bet.amount)) + toStroops(round.forfeitedPool);
+        const movedOut = () =>
+          sumStroops(transfers().filter((input) => input.from.type === 'ROUND_ESCROW').map((input) => input.amount));
+        (ledgerService.getAccountBalance as jest.Mock).mockImplementation(async () =>
+          fromStroops(escrowed - movedOut()),
+        );
+
+        await resolutionService.resolveRound('round-1', [0.5, 1.0, 1.5][Math.floor(next() * 3)]);
+
+        // Payouts, the house fee and the swept dust add up to the stakes and
+        // forfeits exactly, and nothing is paid into the escrow
+        const paid = total('WIN') + total('REFUND');
+        expect([seed, paid + total('FEE') + total('LOSS')]).toEqual([seed, escrowed]);
+        expect(transfers().every((input) => input.from.type === 'ROUND_ESCROW')).toBe(true);
+
+        const { data } = prismaMock.roundResolution.create.mock.calls[0][0] as any;
+        expect([seed, toStroops(data.totalPayout), toStroops(data.houseFee)]).toEqual([seed, paid, total('FEE')]);
+      }
+    } finally {
+      delete process.env.HOUSE_FEE_BPS_UP_DOWN;
+    }
+  });
+
+  it('propagates failures inside the transaction without sending notifications', async () => {
+    prismaMock.roundResolution.findUnique.mockResolvedValue(null);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.user.update.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(resolutionService.resolveRound('round-1', 1.5)).rejects.toThrow('connection lost');
+    expect(prismaMock.roundResolution.create).not.toHaveBeenCalled();
+    expect(notificationService.createNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe('ResolutionService.cancelRound', () => {
+  beforeEach(() => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+    (ledgerService.getAccountBalance as jest.Mock).mockResolvedValue(decimal(0));
+    prismaMock.round.findUnique.mockResolvedValue(lockedRound as any);
+    prismaMock.prediction.findMany.mockResolvedValue([
+      ...predictions,
+      { id: 'p4', userId: 'u1', roundId: 'round-1', side: 'UP', amount: 5 },
+    ] as any);
+    (notificationService.createNotification as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('cancels the round and refunds every stake in one transaction', async () => {
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    await resolutionService.cancelRound('round-1', 'Oracle outage');
+
+    expect(prismaMock.round.updateMany).toHaveBeenCalledWith({
+      where: { id: 'round-1', status: 'LOCKED' },
+      data: { status: 'CANCELLED', cancelledAt: expect.any(Date), cancelReason: 'Oracle outage' },
+    });
+
+    const refunds = (ledgerService.transfer as jest.Mock).mock.calls.map(([input]) => [
+      input.to.id,
+      input.amount,
+      input.type,
+    ]);
+    expect(refunds).toEqual([
+      ['u1', 20, 'REFUND'],
+      ['u2', 10, 'REFUND'],
+      ['u3', 10, 'REFUND'],
+      ['u1', 5, 'REFUND'],
+    ]);
+    expect(sorobanService.resolveRound).not.toHaveBeenCalled();
+    expect(prismaMock.roundResolution.create).not.toHaveBeenCalled();
+
+    // One notification per participant, with their total refund
+    const notified = (notificationService.createNotification as jest.Mock).mock.calls.map(
+      ([input]) => [input.userId, input.type, input.data.amount],
+    );
+    expect(notified).toEqual([
+      ['u1', 'ROUND_CANCELLED', 25],
+      ['u2', 'ROUND_CANCELLED', 10],
+      ['u3', 'ROUND_CANCELLED', 10],
+    ]);
+    expect(websocketService.emitRoundCancelled).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to cancel a round that is already settled', async () => {
+    prismaMock.round.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.round.findUnique.mockResolvedValue({ ...lockedRound, status: 'RESOLVED' } as any);
+
+    await expect(resolutionService.cancelRound('round-1', 'Too late')).rejects.toMatchObject({
+      code: 'ROUND_NOT_CANCELLABLE',
+    });
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+    expect(websocketService.emitRoundCancelled).not.toHaveBeenCalled();
+  });
+
+  it('refuses to cancel a round already resolved on the contract', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ ...lockedRound, sorobanResolvedAt: new Date() } as any);
+
+    await expect(resolutionService.cancelRound('round-1', 'Oracle outage')).rejects.toMatchObject({
+      code: 'ROUND_NOT_CANCELLABLE',
+    });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    expect(ledgerService.transfer).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown rounds', async () => {
+    prismaMock.round.findUnique.mockResolvedValue(null);
+
+    await expect(resolutionService.cancelRound('missing', 'Oracle outage')).rejects.toMatchObject({
+      code: 'ROUND_NOT_FOUND',
+    });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('houseFeeBps', () => {
+  afterEach(() => {
+    delete process.env.HOUSE_FEE_BPS_LEGENDS;
+  });
+
+  it('reads the fee for each mode and ignores invalid values', () => {
+    expect(houseFeeBps('LEGENDS')).toBe(0);
+
+    process.env.HOUSE_FEE_BPS_LEGENDS = '250';
+    expect(houseFeeBps('LEGENDS')).toBe(250);
+    expect(houseFeeBps('UP_DOWN')).toBe(0);
+
+    process.env.HOUSE_FEE_BPS_LEGENDS = '12000';
+    expect(houseFeeBps('LEGENDS')).toBe(0);
+  });
+});
@@ -0,0 +1,215 @@
+import { prismaMock } from './singleton';
+
+const tasks: Array<{ expression: string; run: () => Promise<void>; stop: jest.Mock }> = [];
+
+jest.mock('node-cron', () => ({
+  __esModule: true,
+  default: {
+    schedule: jest.fn((expression: string, run: () => Promise<void>) => {
+      const task = { expression, run, stop: jest.fn() };
+      tasks.push(task);
+      return task;
+    }),
+  },
+}));
+
+jest.mock('../services/round-template.service', () => ({
+  __esModule: true,
+  default: { getEnabledTemplates: jest.fn() },
+}));
+
+jest.mock('../services/round.service', () => ({
+  __esModule: true,
+  default: { startRound: jest.fn(), promoteDueRounds: jest.fn() },
+}));
+
+jest.mock('../services/oracle', () => ({
+  __esModule: true,
+  default: { getPrice: jest.fn().mockReturnValue(0.12) },
+}));
+
+import roundSchedulerService from '../services/round-scheduler.service';
+import roundTemplateService from '../services/round-template.service';
+import roundService from '../services/round.service';
+
+const mockedTemplates = roundTemplateService as jest.Mocked<typeof roundTemplateService>;
+
+function template(id: string, cadence: string, updatedAt = new Date('2026-03-09T12:00:00Z')) {
+  return {
+    id,
+    name: `series-${id}`,
+    mode: 'UP_DOWN',
+    asset: 'XLM',
+    durationSeconds: 90,
+    lockBeforeEndSeconds: 30,
+    cadence,
+    bucketConfig: null,
+    minStake: 1,
+    maxStake: null,
+    enabled: true,
+    createdAt: updatedAt,
+    updatedAt,
+  } as any;
+}
+
+function seriesTask(expression: string) {
+  return tasks.find((task) => task.expression === expression)!;
+}
+
+describe('RoundSchedulerService series', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tasks.length = 0;
+    process.env.ROUND_SCHEDULER_ENABLED = 'true';
+    prismaMock.roundTemplate.count.mockResolvedValue(1);
+    mockedTemplates.getEnabledTemplates.mockResolvedValue([]);
+    roundSchedulerService.start();
+  });
+
+  afterEach(() => {
+    roundSchedulerService.stop();
+    jest.useRealTimers();
+    delete process.env.ROUND_SCHEDULER_ENABLED;
+  });
+
+  it('runs one series per enabled template', async () => {
+    mockedTemplates.getEnabledTemplates.mockResolvedValue([
+      template('t1', '0 */4 * * * *'),
+      template('t2', '30 */2 * * * *'),
+    ]);
+
+    await roundSchedulerService.reloadTemplates();
+
+    expect(roundSchedulerService.getActiveSeries()).toEqual(['t1', 't2']);
+
+    prismaMock.round.findFirst.mockResolvedValue(null);
+    (roundService.startRound as jest.Mock).mockResolvedValue({ id: 'round-1' });
+    await seriesTask('0 */4 * * * *').run();
+
+    expect(roundService.startRound).toHaveBeenCalledWith(
+      'UP_DOWN',
+      0.12,
+      1.5,
+      'XLM',
+      undefined,
+      { type: 'SCHEDULER' },
+      { templateId: 't1', lockBeforeEndSeconds: 30, minStake: 1, maxStake: null },
+    );
+  });
+
+  it('reschedules edited templates and stops removed ones', async () => {
+    mockedTemplates.getEnabledTemplates.mockResolvedValue([
+      template('t1', '0 */4 * * * *'),
+      template('t2', '30 */2 * * * *'),
+    ]);
+    await roundSchedulerService.reloadTemplates();
+
+    mockedTemplates.getEnabledTemplates.mockResolvedValue([
+      template('t1', '0 */5 * * * *', new Date('2026-03-09T13:00:00Z')),
+    ]);
+    await roundSchedulerService.reloadTemplates();
+
+    expect(seriesTask('0 */4 * * * *').stop).toHaveBeenCalled();
+    expect(seriesTask('30 */2 * * * *').stop).toHaveBeenCalled();
+    expect(seriesTask('0 */5 * * * *').stop).not.toHaveBeenCalled();
+    expect(roundSchedulerService.getActiveSeries()).toEqual(['t1']);
+  });
+
+  it('leaves unchanged templates running', async () => {
+    mockedTemplates.getEnabledTemplates.mockResolvedValue([template('t1', '0 */4 * * * *')]);
+    await roundSchedulerService.reloadTemplates();
+    await roundSchedulerService.reloadTemplates();
+
+    expect(tasks.filter((task) => task.expression === '0 */4 * * * *')).toHaveLength(1);
+    expect(seriesTask('0 */4 * * * *').stop).not.toHaveBeenCalled();
+  });
+
+  it('schedules nothing when stopped while the templates load', async () => {
+    await roundSchedulerService.reloadTemplates();
+    let resolveTemplates!: (templates: any[]) => void;
+    mockedTemplates.getEnabledTemplates.mockReturnValueOnce(
+      new Promise((resolve) => {
+        resolveTemplates = resolve;
+      }),
+    );
+    mockedTemplates.getEnabledTemplates.mockResolvedValue([template('t2', '30 */2 * * * *')]);
+
+    const loading = roundSchedulerService.reloadTemplates();
+    // Queued behind the pending one
+    const queued = roundSchedulerService.reloadTemplates();
+    await jest.advanceTimersByTimeAsync(0);
+
+    // Demoted meanwhile
+    roundSchedulerService.stop();
+    resolveTemplates([template('t1', '0 */4 * * * *')]);
+    await Promise.all([loading, queued]);
+
+    expect(roundSchedulerService.getActiveSeries()).toEqual([]);
+    expect(tasks.filter((task) => task.expression === '0 */4 * * * *')).toHaveLength(0);
+    expect(tasks.filter((task) => task.expression === '30 */2 * * * *')).toHaveLength(0);
+  });
+
+  it('picks up template changes on the reload interval', async () => {
+    mockedTemplates.getEnabledTemplates.mockResolvedValue([template('t1', '0 */4 * * * *')]);
+
+    await jest.advanceTimersByTimeAsync(30_000);
+
+    expect(roundSchedulerService.getActiveSeries()).toEqual(['t1']);
+  });
+});
+
+describe('RoundSchedulerService default series', () => {
+  beforeEach(() => {
+    tasks.length = 0;
+    process.env.ROUND_SCHEDULER_ENABLED = 'true';
+    mockedTemplates.getEnabledTemplates.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    roundSchedulerService.stop();
+    delete process.env.ROUND_SCHEDULER_ENABLED;
+    delete process.env.ROUND_SCHEDULER_MODE;
+    delete process.env.ROUND_SCHEDULER_ASSETS;
+    delete process.env.ROUND_SCHEDULER_AUTO_CREATE;
+  });
+
+  it('seeds the series from ROUND_SCHEDULER_MODE and ROUND_SCHEDULER_ASSETS on an empty table', async () => {
+    process.env.ROUND_SCHEDULER_MODE = 'LEGENDS';
+    process.env.ROUND_SCHEDULER_ASSETS = 'XLM,BTC';
+    prismaMock.roundTemplate.count.mockResolvedValue(0);
+
+    roundSchedulerService.start();
+    await roundSchedulerService.reloadTemplates();
+
+    expect(prismaMock.roundTemplate.createMany).toHaveBeenCalledWith({
+      data: [
+        { name: 'xlm-legends-1m', mode: 'LEGENDS', asset: 'XLM', durationSeconds: 60, cadence: '0 */4 * * * *' },
+        { name: 'btc-legends-1m', mode: 'LEGENDS', asset: 'BTC', durationSeconds: 60, cadence: '0 */4 * * * *' },
+      ],
+      skipDuplicates: true,
+    });
+    // Seeded before the first reload reads the templates
+    expect(prismaMock.roundTemplate.createMany.mock.invocationCallOrder[0]).toBeLessThan(
+      mockedTemplates.getEnabledTemplates.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('keeps existing templates', async () => {
+    prismaMock.roundTemplate.count.mockResolvedValue(2);
+
+    roundSchedulerService.start();
+    await roundSchedulerService.reloadTemplates();
+
+    expect(prismaMock.roundTemplate.createMany).not.toHaveBeenCalled();
+  });
+
+  it('seeds nothing with ROUND_SCHEDULER_AUTO_CREATE=false', async () => {
+    process.env.ROUND_SCHEDULER_AUTO_CREATE = 'false';
+    prismaMock.roundTemplate.count.mockResolvedValue(0);
+
+    roundSchedulerService.start();
+    await roundSchedulerService.reloadTemplates();
+
+    expect(prismaMock.roundTemplate.createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { prismaMock } from './singleton';
+import roundStateService, {
+  SCHEDULER_ACTOR,
+  canTransition,
+  userActor,
+} from '../services/round-state.service';
+
+describe('round state machine', () => {
+  it('only allows the documented lifecycle', () => {
+    expect(canTransition('PENDING', 'ACTIVE')).toBe(true);
+    expect(canTransition('ACTIVE', 'LOCKED')).toBe(true);
+    expect(canTransition('LOCKED', 'RESOLVED')).toBe(true);
+    expect(canTransition('ACTIVE', 'CANCELLED')).toBe(true);
+
+    expect(canTransition('ACTIVE', 'RESOLVED')).toBe(false);
+    expect(canTransition('PENDING', 'LOCKED')).toBe(false);
+    expect(canTransition('RESOLVED', 'CANCELLED')).toBe(false);
+    expect(canTransition('CANCELLED', 'ACTIVE')).toBe(false);
+  });
+
+  it('maps authenticated users to ADMIN or ORACLE actors', () => {
+    expect(userActor({ userId: 'u1', role: 'ADMIN' })).toEqual({ type: 'ADMIN', id: 'u1' });
+    expect(userActor({ userId: 'o1', role: 'ORACLE' })).toEqual({ type: 'ORACLE', id: 'o1' });
+  });
+});
+
+describe('RoundStateService.transition', () => {
+  beforeEach(() => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+  });
+
+  it('stamps the status timestamp and records the actor', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ status: 'ACTIVE' } as any);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    const from = await roundStateService.transition('round-1', 'LOCKED', SCHEDULER_ACTOR);
+
+    expect(from).toBe('ACTIVE');
+    expect(prismaMock.round.updateMany).toHaveBeenCalledWith({
+      where: { id: 'round-1', status: 'ACTIVE' },
+      data: { status: 'LOCKED', lockedAt: expect.any(Date) },
+    });
+    expect(prismaMock.roundEvent.create).toHaveBeenCalledWith({
+      data: {
+        roundId: 'round-1',
+        fromStatus: 'ACTIVE',
+        toStatus: 'LOCKED',
+        actorType: 'SCHEDULER',
+        actorId: undefined,
+        reason: undefined,
+      },
+    });
+  });
+
+  it('rejects illegal transitions', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ status: 'RESOLVED' } as any);
+
+    await expect(
+      roundStateService.transition('round-1', 'CANCELLED', { type: 'ADMIN', id: 'admin-1' }),
+    ).rejects.toMatchObject({ code: 'INVALID_ROUND_TRANSITION' });
+    expect(prismaMock.round.updateMany).not.toHaveBeenCalled();
+    expect(prismaMock.roundEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the round is not in an expected status', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ status: 'LOCKED' } as any);
+
+    const from = await roundStateService.transition('round-1', 'LOCKED', SCHEDULER_ACTOR, {
+      from: ['ACTIVE'],
+    });
+
+    expect(from).toBeNull();
+    expect(prismaMock.round.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('returns null without an event when a concurrent writer wins', async () => {
+    prismaMock.round.findUnique.mockResolvedValue({ status: 'ACTIVE' } as any);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 0 });
+
+    const from = await roundStateService.transition('round-1', 'LOCKED', SCHEDULER_ACTOR);
+
+    expect(from).toBeNull();
+    expect(prismaMock.roundEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown rounds', async () => {
+    prismaMock.round.findUnique.mockResolvedValue(null);
+
+    await expect(
+      roundStateService.transition('missing', 'LOCKED', SCHEDULER_ACTOR),
+    ).rejects.toMatchObject({ code: 'ROUND_NOT_FOUND' });
+  });
+});
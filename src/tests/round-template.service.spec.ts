@@ -0,0 +1,87 @@
+import { Prisma } from '@prisma/client';
+import { prismaMock } from './singleton';
+import roundTemplateService, { validateTemplate } from '../services/round-template.service';
+import { RoundTemplateInput } from '../types/round.types';
+
+const input: RoundTemplateInput = {
+  name: 'btc-legends-5m',
+  mode: 'LEGENDS',
+  asset: 'BTC',
+  durationSeconds: 300,
+  lockBeforeEndSeconds: 60,
+  cadence: '0 */10 * * * *',
+  bucketConfig: { count: 5 },
+  minStake: 1,
+  maxStake: 500,
+  enabled: true,
+};
+
+describe('validateTemplate', () => {
+  it('accepts a complete template', () => {
+    expect(() => validateTemplate(input)).not.toThrow();
+  });
+
+  it.each([
+    ['an invalid cadence', { cadence: 'every 4 minutes' }],
+    ['a lock offset as long as the round', { lockBeforeEndSeconds: 300 }],
+    ['a too short duration', { durationSeconds: 5 }],
+    ['minStake above maxStake', { minStake: 600 }],
+    ['buckets on an UP_DOWN template', { mode: 'UP_DOWN' as const }],
+    ['a blank name', { name: '  ' }],
+  ])('rejects %s', (_, changes) => {
+    expect(() => validateTemplate({ ...input, ...changes })).toThrow(
+      expect.objectContaining({ code: 'INVALID_TEMPLATE' }),
+    );
+  });
+
+  it('rejects invalid bucket overrides', () => {
+    expect(() => validateTemplate({ ...input, bucketConfig: { count: 1 } })).toThrow(
+      expect.objectContaining({ code: 'INVALID_BUCKET_CONFIG' }),
+    );
+  });
+});
+
+describe('RoundTemplateService', () => {
+  it('reports a duplicate name with TEMPLATE_NAME_TAKEN', async () => {
+    prismaMock.roundTemplate.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      }),
+    );
+
+    await expect(roundTemplateService.createTemplate(input)).rejects.toMatchObject({
+      code: 'TEMPLATE_NAME_TAKEN',
+    });
+  });
+
+  it('validates an update merged with the stored template', async () => {
+    prismaMock.roundTemplate.findUnique.mockResolvedValue({
+      id: 'template-1',
+      ...input,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as any);
+
+    await expect(
+      roundTemplateService.updateTemplate('template-1', { durationSeconds: 60 }),
+    ).rejects.toMatchObject({ code: 'INVALID_TEMPLATE' });
+    expect(prismaMock.roundTemplate.update).not.toHaveBeenCalled();
+
+    prismaMock.roundTemplate.update.mockResolvedValue({ id: 'template-1' } as any);
+    await roundTemplateService.updateTemplate('template-1', { enabled: false });
+
+    expect(prismaMock.roundTemplate.update).toHaveBeenCalledWith({
+      where: { id: 'template-1' },
+      data: expect.objectContaining({ name: 'btc-legends-5m', cadence: '0 */10 * * * *', enabled: false }),
+    });
+  });
+
+  it('reports unknown templates with TEMPLATE_NOT_FOUND', async () => {
+    prismaMock.roundTemplate.findUnique.mockResolvedValue(null);
+
+    await expect(
+      roundTemplateService.updateTemplate('missing', { enabled: false }),
+    ).rejects.toMatchObject({ code: 'TEMPLATE_NOT_FOUND' });
+  });
+});
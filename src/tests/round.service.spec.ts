@@ -0,0 +1,394 @@
+import { Prisma } from '@prisma/client';
+import { prismaMock } from './singleton';
+
+jest.mock('../services/soroban.service', () => ({
+  __esModule: true,
+  default: { createRound: jest.fn().mockResolvedValue('42') },
+}));
+
+jest.mock('../services/notification.service', () => ({
+  __esModule: true,
+  default: { createNotification: jest.fn().mockResolvedValue(null) },
+}));
+
+jest.mock('../services/websocket.service', () => ({
+  __esModule: true,
+  default: { emitRoundStarted: jest.fn(), emitRoundLocked: jest.fn(), emitNotification: jest.fn() },
+}));
+
+import roundService, { bettingLockTime } from '../services/round.service';
+import sorobanService from '../services/soroban.service';
+import websocketService from '../services/websocket.service';
+
+const ADMIN = { type: 'ADMIN' as const, id: 'admin-1' };
+
+// What Prisma throws when a second round of an asset and mode goes ACTIVE
+const activeRoundConflict = () =>
+  new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: 'test',
+    meta: { target: ['asset', 'mode'] },
+  });
+
+describe('RoundService.startRound', () => {
+  const created = {
+    id: 'round-1',
+    mode: 'UP_DOWN',
+    asset: 'XLM',
+    status: 'ACTIVE',
+    startPrice: 1.5,
+    endTime: new Date(Date.now() + 300_000),
+    lockTime: new Date(Date.now() + 225_000),
+    buckets: [],
+  };
+
+  beforeEach(() => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+    prismaMock.round.findFirst.mockResolvedValue(null);
+  });
+
+  it('reports a concurrent start caught by the active round index as ACTIVE_ROUND_EXISTS', async () => {
+    prismaMock.round.create.mockRejectedValue(activeRoundConflict());
+
+    await expect(
+      roundService.startRound('UP_DOWN', 1.5, 5, 'XLM'),
+    ).rejects.toMatchObject({ code: 'ACTIVE_ROUND_EXISTS' });
+    expect(sorobanService.createRound).not.toHaveBeenCalled();
+    expect(websocketService.emitRoundStarted).not.toHaveBeenCalled();
+  });
+
+  it('creates the on-chain round once the round is stored', async () => {
+    prismaMock.round.create.mockResolvedValue(created as any);
+    prismaMock.user.findMany.mockResolvedValue([]);
+
+    const round = await roundService.startRound('UP_DOWN', 1.5, 5, 'XLM');
+    roundService.clearLockTimers();
+
+    expect(round.sorobanRoundId).toBe('42');
+    expect(prismaMock.round.create.mock.invocationCallOrder[0]).toBeLessThan(
+      (sorobanService.createRound as jest.Mock).mock.invocationCallOrder[0],
+    );
+    expect(prismaMock.round.update).toHaveBeenCalledWith({
+      where: { id: 'round-1' },
+      data: { sorobanRoundId: '42' },
+    });
+  });
+
+  it('cancels the round when the on-chain round cannot be created', async () => {
+    prismaMock.round.create.mockResolvedValue(created as any);
+    prismaMock.round.findUnique.mockResolvedValue({ status: 'ACTIVE' } as any);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+    (sorobanService.createRound as jest.Mock).mockRejectedValueOnce(new Error('RPC unavailable'));
+
+    await expect(
+      roundService.startRound('UP_DOWN', 1.5, 5, 'XLM'),
+    ).rejects.toThrow('RPC unavailable');
+    expect(prismaMock.round.updateMany).toHaveBeenCalledWith({
+      where: { id: 'round-1', status: 'ACTIVE' },
+      data: expect.objectContaining({ status: 'CANCELLED' }),
+    });
+    expect(prismaMock.round.update).not.toHaveBeenCalled();
+    expect(websocketService.emitRoundStarted).not.toHaveBeenCalled();
+  });
+});
+
+describe('RoundService.scheduleRound', () => {
+  beforeEach(() => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+  });
+
+  it('stores a PENDING round and records who scheduled it', async () => {
+    const startTime = new Date(Date.now() + 60_000);
+    prismaMock.round.findFirst.mockResolvedValue(null);
+    prismaMock.round.create.mockResolvedValue({ id: 'round-1', status: 'PENDING' } as any);
+
+    await roundService.scheduleRound('UP_DOWN', startTime, 5, 'BTC', undefined, ADMIN);
+
+    expect(prismaMock.round.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        mode: 'UP_DOWN',
+        asset: 'BTC',
+        status: 'PENDING',
+        startTime,
+        endTime: new Date(startTime.getTime() + 5 * 60_000),
+        startPrice: 0,
+      }),
+    });
+    expect(prismaMock.roundEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromStatus: null, toStatus: 'PENDING', actorType: 'ADMIN', actorId: 'admin-1' }),
+    });
+    expect(sorobanService.createRound).not.toHaveBeenCalled();
+  });
+
+  it('rejects a start time in the past', async () => {
+    await expect(
+      roundService.scheduleRound('UP_DOWN', new Date(Date.now() - 1000), 5),
+    ).rejects.toMatchObject({ code: 'INVALID_START_TIME' });
+    expect(prismaMock.round.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a round overlapping another of the same asset and mode', async () => {
+    prismaMock.round.findFirst.mockResolvedValue({
+      id: 'round-0',
+      status: 'PENDING',
+      startTime: new Date(),
+      endTime: new Date(),
+    } as any);
+
+    await expect(
+      roundService.scheduleRound('UP_DOWN', new Date(Date.now() + 60_000), 5),
+    ).rejects.toMatchObject({ code: 'ROUND_SCHEDULE_CONFLICT' });
+  });
+});
+
+describe('RoundService.promoteDueRounds', () => {
+  const scheduledStart = new Date(Date.now() - 2000);
+  const pending = {
+    id: 'round-1',
+    mode: 'UP_DOWN',
+    asset: 'XLM',
+    status: 'PENDING',
+    startTime: scheduledStart,
+    endTime: new Date(scheduledStart.getTime() + 300_000),
+    startPrice: 0,
+    bucketConfig: null,
+  };
+
+  beforeEach(() => {
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+    prismaMock.round.findMany.mockResolvedValueOnce([pending] as any);
+    prismaMock.user.findMany.mockResolvedValue([]);
+  });
+
+  it('activates due rounds at the oracle price and keeps their duration', async () => {
+    prismaMock.round.findFirst.mockResolvedValue(null);
+    prismaMock.round.findUnique.mockResolvedValue({ status: 'PENDING' } as any);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.round.findUniqueOrThrow.mockResolvedValue({ ...pending, status: 'ACTIVE', startPrice: 0.12 } as any);
+
+    const promoted = await roundService.promoteDueRounds(() => 0.12);
+
+    expect(promoted).toBe(1);
+    expect(sorobanService.createRound).toHaveBeenCalledWith(0.12, 60);
+
+    const [{ where, data }] = prismaMock.round.updateMany.mock.calls[0] as any;
+    expect(where).toEqual({ id: 'round-1', status: 'PENDING' });
+    expect(data).toMatchObject({ status: 'ACTIVE', startPrice: 0.12 });
+    expect(prismaMock.round.update).toHaveBeenCalledWith({
+      where: { id: 'round-1' },
+      data: { sorobanRoundId: '42' },
+    });
+    // Created on-chain only once the round is claimed
+    expect(prismaMock.round.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      (sorobanService.createRound as jest.Mock).mock.invocationCallOrder[0],
+    );
+    expect(data.endTime.getTime() - data.startTime.getTime()).toBe(300_000);
+    expect(data.startTime.getTime()).toBeGreaterThan(scheduledStart.getTime());
+
+    expect(prismaMock.roundEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromStatus: 'PENDING', toStatus: 'ACTIVE', actorType: 'SCHEDULER' }),
+    });
+    expect(websocketService.emitRoundStarted).toHaveBeenCalledTimes(1);
+  });
+
+  it('creates nothing on-chain for a round cancelled in the meantime', async () => {
+    prismaMock.round.findFirst.mockResolvedValue(null);
+    prismaMock.round.findUnique.mockResolvedValue({ status: 'CANCELLED' } as any);
+
+    const promoted = await roundService.promoteDueRounds(() => 0.12);
+
+    expect(promoted).toBe(0);
+    expect(sorobanService.createRound).not.toHaveBeenCalled();
+    expect(websocketService.emitRoundStarted).not.toHaveBeenCalled();
+  });
+
+  it('waits for an oracle price', async () => {
+    const promoted = await roundService.promoteDueRounds(() => null);
+
+    expect(promoted).toBe(0);
+    expect(prismaMock.round.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('waits when another round went active after the check', async () => {
+    prismaMock.round.findFirst.mockResolvedValue(null);
+    prismaMock.round.findUnique.mockResolvedValue({ status: 'PENDING' } as any);
+    prismaMock.round.updateMany.mockRejectedValue(activeRoundConflict());
+
+    const promoted = await roundService.promoteDueRounds(() => 0.12);
+
+    expect(promoted).toBe(0);
+    expect(sorobanService.createRound).not.toHaveBeenCalled();
+    expect(websocketService.emitRoundStarted).not.toHaveBeenCalled();
+  });
+
+  it('waits while the previous round on the asset and mode is active', async () => {
+    prismaMock.round.findFirst.mockResolvedValue({ id: 'round-0', status: 'ACTIVE' } as any);
+
+    const promoted = await roundService.promoteDueRounds(() => 0.12);
+
+    expect(promoted).toBe(0);
+    expect(sorobanService.createRound).not.toHaveBeenCalled();
+    expect(prismaMock.round.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('betting lock window', () => {
+  const startTime = new Date('2026-03-10T12:00:00Z');
+  const endTime = new Date('2026-03-10T12:04:00Z');
+
+  afterEach(() => {
+    delete process.env.BETTING_LOCK_PERCENT;
+    roundService.clearLockTimers();
+    jest.useRealTimers();
+  });
+
+  it('closes betting for the last BETTING_LOCK_PERCENT of the round', () => {
+    expect(bettingLockTime(startTime, endTime)).toEqual(new Date('2026-03-10T12:03:00Z'));
+
+    process.env.BETTING_LOCK_PERCENT = '50';
+    expect(bettingLockTime(startTime, endTime)).toEqual(new Date('2026-03-10T12:02:00Z'));
+  });
+
+  it('prefers an explicit lock offset', () => {
+    expect(bettingLockTime(startTime, endTime, 10)).toEqual(new Date('2026-03-10T12:03:50Z'));
+    expect(bettingLockTime(startTime, endTime, 0)).toEqual(endTime);
+  });
+
+  it('locks the round and emits round:locked when its timer fires', async () => {
+    jest.useFakeTimers();
+    prismaMock.$transaction.mockImplementation((fn: any) => fn(prismaMock));
+    prismaMock.round.findUnique
+      .mockResolvedValueOnce({ status: 'ACTIVE' } as any)
+      .mockResolvedValueOnce({ id: 'round-1', status: 'LOCKED' } as any);
+    prismaMock.round.updateMany.mockResolvedValue({ count: 1 });
+
+    roundService.scheduleLock({
+      id: 'round-1',
+      lockTime: new Date(Date.now() + 15_000),
+      endTime: new Date(Date.now() + 60_000),
+    });
+
+    await jest.advanceTimersByTimeAsync(14_000);
+    expect(prismaMock.round.updateMany).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(prismaMock.round.updateMany).toHaveBeenCalledWith({
+      where: { id: 'round-1', status: 'ACTIVE' },
+      data: { status: 'LOCKED', lockedAt: expect.any(Date) },
+    });
+    expect(prismaMock.roundEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ toStatus: 'LOCKED', actorType: 'SCHEDULER' }),
+    });
+    expect(websocketService.emitRoundLocked).toHaveBeenCalledWith({ id: 'round-1', status: 'LOCKED' });
+  });
+
+  it('re-arms every active round after a restart', async () => {
+    jest.useFakeTimers();
+    prismaMock.round.findMany.mockResolvedValue([
+      { id: 'round-1', lockTime: null, endTime: new Date(Date.now() + 5_000) },
+    ] as any);
+    const lockRound = jest.spyOn(roundService, 'lockRound').mockResolvedValue(true);
+
+    await expect(roundService.armLockTimers()).resolves.toBe(1);
+    await jest.advanceTimersByTimeAsync(5_000);
+
+    expect(lockRound).toHaveBeenCalledWith('round-1', { type: 'SCHEDULER' });
+    lockRound.mockRestore();
+  });
+
+  it('leaves nothing armed once the timers are cleared', async () => {
+    jest.useFakeTimers();
+    const lockRound = jest.spyOn(roundService, 'lockRound').mockResolvedValue(true);
+
+    roundService.scheduleLock({ id: 'round-1', lockTime: null, endTime: new Date(Date.now() + 5_000) });
+    roundService.clearLockTimers();
+    await jest.advanceTimersByTimeAsync(5_000);
+
+    expect(lockRound).not.toHaveBeenCalled();
+    lockRound.mockRestore();
+  });
+
+  it('sweeps active rounds past their lock time', async () => {
+    prismaMock.round.findMany.mockResolvedValue([{ id: 'round-1' }, { id: 'round-2' }] as any);
+    const lockRound = jest
+      .spyOn(roundService, 'lockRound')
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+
+    await expect(roundService.lockOverdueRounds()).resolves.toBe(1);
+
+    const [{ where }] = prismaMock.round.findMany.mock.calls[0] as any;
+    expect(where).toEqual({
+      status: 'ACTIVE',
+      OR: [
+        { lockTime: { lte: expect.any(Date) } },
+        { lockTime: null, endTime: { lte: expect.any(Date) } },
+      ],
+    });
+    expect(lockRound).toHaveBeenCalledWith('round-1', { type: 'SCHEDULER' });
+    expect(lockRound).toHaveBeenCalledWith('round-2', { type: 'SCHEDULER' });
+    lockRound.mockRestore();
+  });
+});
+
+describe('RoundService.getRoundsHistory', () => {
+  it('leaves cashed-out predictions out of the pool', async () => {
+    prismaMock.round.count.mockResolvedValue(1);
+    prismaMock.round.findMany.mockResolvedValue([
+      {
+        id: 'round-1',
+        mode: 'LEGENDS',
+        status: 'RESOLVED',
+        poolUp: 0,
+        poolDown: 0,
+        predictions: [
+          { userId: 'u1', amount: '10.5', won: true },
+          { userId: 'u2', amount: '4.25', won: false },
+        ],
+        resolution: { feeBps: 200, houseFee: '0.295' },
+        buckets: [],
+      },
+    ] as any);
+
+    const { rounds } = await roundService.getRoundsHistory({});
+
+    expect(prismaMock.round.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        include: expect.objectContaining({
+          predictions: expect.objectContaining({ where: { withdrawnAt: null } }),
+        }),
+      }),
+    );
+    expect(rounds[0]).toMatchObject({
+      totalPredictions: 2,
+      totalPool: '14.75',
+      winnerCount: 1,
+      houseFee: 0.295,
+    });
+  });
+
+  it('counts each winning user once', async () => {
+    prismaMock.round.count.mockResolvedValue(1);
+    prismaMock.round.findMany.mockResolvedValue([
+      {
+        id: 'round-1',
+        mode: 'UP_DOWN',
+        status: 'RESOLVED',
+        poolUp: 0,
+        poolDown: 0,
+        predictions: [
+          { userId: 'u1', amount: '5', won: true },
+          { userId: 'u1', amount: '5', won: true },
+          { userId: 'u2', amount: '10', won: true },
+          { userId: 'u3', amount: '10', won: false },
+        ],
+        resolution: null,
+        buckets: [],
+      },
+    ] as any);
+
+    const { rounds } = await roundService.getRoundsHistory({});
+
+    expect(rounds[0]).toMatchObject({ totalPredictions: 4, winnerCount: 2 });
+  });
+});
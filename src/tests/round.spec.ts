@@ -2,9 +2,9 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/glo
 import { prisma } from '../lib/prisma';
 import request from 'supertest';
 import app from '../index';
-import { GameMode, BetSide } from '../types/round.types';
+import { GameMode } from '../types/round.types';
+import { findRangeIndex } from '../utils/price-range.util';
 import { generateToken } from '../utils/jwt.util';
-import * as StellarSdk from '@stellar/stellar-sdk';
 
 describe('Round Prediction Flow - End-to-End Test', () => {
   let adminUser: any;
@@ -19,6 +19,7 @@ describe('Round Prediction Flow - End-to-End Test', () => {
       data: {
         walletAddress: 'GADMINAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
         publicKey: 'GADMINAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+        role: 'ADMIN',
       },
     });
 
@@ -54,291 +55,237 @@ describe('Round Prediction Flow - End-to-End Test', () => {
 
   describe('Full Round Lifecycle (Up/Down Mode)', () => {
     it('should complete a full Up/Down round: start -> predict -> resolve', async () => {
-      const startPrice = '1.23';
-      const durationLedgers = 60;
-      const finalPrice = '1.45';
-
       let roundId: string | undefined;
-      let predictionAId: string | undefined;
-      let predictionBId: string | undefined;
-      let resolveTxHash: string | undefined;
 
       await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
-          startPrice,
-          durationLedgers,
+          startPrice: 1.23,
+          duration: 300,
           mode: GameMode.UP_DOWN,
         })
-        .expect(201)
+        .expect(200)
         .expect((res) => {
-          expect(res.body).toHaveProperty('roundId');
-          expect(res.body).toHaveProperty('startPrice');
-          expect(res.body).toHaveProperty('endLedger');
-          expect(res.body).toHaveProperty('mode');
-          expect(res.body).toHaveProperty('createdAt');
-          expect(res.body.mode).toBe(GameMode.UP_DOWN);
-          expect(res.body.startPrice).toBeGreaterThan(0n);
-          expect(res.body.endLedger).toBeGreaterThan(0);
-          roundId = res.body.roundId;
+          expect(res.body.success).toBe(true);
+          expect(res.body.round.mode).toBe('UP_DOWN');
+          expect(res.body.round.status).toBe('ACTIVE');
+          expect(res.body.round.startPrice).toBe(1.23);
+          roundId = res.body.round.id;
         });
 
       await request(app)
-        .get('/api/rounds/active')
+        .get('/api/v1/rounds/active')
         .expect(200)
         .expect((res) => {
-          expect(res.body.roundId).toBe(roundId);
-          expect(res.body).toHaveProperty('startPrice');
-          expect(res.body).toHaveProperty('poolUp');
-          expect(res.body).toHaveProperty('poolDown');
-          expect(res.body).toHaveProperty('endLedger');
-          expect(res.body).toHaveProperty('mode');
-          expect(res.body.mode).toBe(GameMode.UP_DOWN);
+          expect(res.body.rounds.map((r: any) => r.id)).toContain(roundId);
         });
 
-      const userASecret = 'S' + 'A'.repeat(55);
       await request(app)
-        .post('/api/rounds/predict')
+        .post(`/api/v1/rounds/${roundId}/predictions`)
         .set('Authorization', `Bearer ${userAToken}`)
-        .set('x-signature', userASecret)
-        .send({
-          roundId,
-          side: BetSide.UP,
-          amount: 100,
-          mode: GameMode.UP_DOWN,
-        })
-        .expect(201)
+        .send({ side: 'UP', amount: 100 })
+        .expect(200)
         .expect((res) => {
-          expect(res.body).toHaveProperty('predictionId');
-          expect(res.body).toHaveProperty('roundId');
-          expect(res.body).toHaveProperty('side');
-          expect(res.body).toHaveProperty('amount');
-          expect(res.body).toHaveProperty('txHash');
-          expect(res.body.roundId).toBe(roundId);
-          expect(res.body.side).toBe(BetSide.UP);
-          expect(res.body.amount).toBe(100);
-          predictionAId = res.body.predictionId;
+          expect(res.body.prediction.roundId).toBe(roundId);
+          expect(res.body.prediction.side).toBe('UP');
+          expect(res.body.prediction.amount).toBe(100);
         });
 
-      const userBSecret = 'S' + 'B'.repeat(55);
       await request(app)
-        .post('/api/rounds/predict')
+        .post(`/api/v1/rounds/${roundId}/predictions`)
         .set('Authorization', `Bearer ${userBToken}`)
-        .set('x-signature', userBSecret)
-        .send({
-          roundId,
-          side: BetSide.DOWN,
-          amount: 150,
-          mode: GameMode.UP_DOWN,
-        })
-        .expect(201)
-        .expect((res) => {
-          expect(res.body).toHaveProperty('predictionId');
-          expect(res.body.roundId).toBe(roundId);
-          expect(res.body.side).toBe(BetSide.DOWN);
-          expect(res.body.amount).toBe(150);
-          predictionBId = res.body.predictionId;
-        });
+        .send({ side: 'DOWN', amount: 150 })
+        .expect(200);
 
-      await request(app)
-        .get('/api/rounds/active')
-        .expect(200)
-        .expect((res) => {
-          const poolUp = BigInt(res.body.poolUp);
-          const poolDown = BigInt(res.body.poolDown);
-          expect(poolUp).toBeGreaterThan(0n);
-          expect(poolDown).toBeGreaterThan(0n);
-        });
+      // Stakes are debited and pooled
+      const pooled = await prisma.round.findUnique({ where: { id: roundId } });
+      expect(pooled!.poolUp.toNumber()).toBe(100);
+      expect(pooled!.poolDown.toNumber()).toBe(150);
+
+      const debited = await prisma.user.findUnique({ where: { id: userA.id } });
+      expect(debited!.virtualBalance.toNumber()).toBe(900);
 
       await request(app)
-        .post('/api/rounds/resolve')
+        .post(`/api/v1/rounds/${roundId}/resolve`)
         .set('Authorization', `Bearer ${adminToken}`)
-        .send({
-          roundId,
-          finalPrice,
-          mode: GameMode.UP_DOWN,
-        })
+        .send({ finalPrice: 1.45 })
         .expect(200)
         .expect((res) => {
-          expect(res.body).toHaveProperty('roundId');
-          expect(res.body).toHaveProperty('outcome');
-          expect(res.body).toHaveProperty('winnersCount');
-          expect(res.body).toHaveProperty('losersCount');
-          expect(res.body).toHaveProperty('txHash');
-          expect(res.body.roundId).toBe(roundId);
-          expect(res.body.outcome).toBe(BetSide.UP);
-          expect(res.body.winnersCount).toBe(1);
-          expect(res.body.losersCount).toBe(1);
-          resolveTxHash = res.body.txHash;
+          expect(res.body.round.id).toBe(roundId);
+          expect(res.body.round.status).toBe('RESOLVED');
+          expect(res.body.round.predictions).toBe(2);
+          expect(res.body.round.winners).toBe(1);
         });
-
-      expect(roundId).toBeDefined();
-      expect(predictionAId).toBeDefined();
-      expect(predictionBId).toBeDefined();
-      expect(resolveTxHash).toBeDefined();
     });
   });
 
   describe('Validation Tests', () => {
     it('should reject start round without authentication', async () => {
       await request(app)
-        .post('/api/rounds/start')
-        .send({
-          startPrice: '1.23',
-          durationLedgers: 60,
-          mode: GameMode.UP_DOWN,
-        })
+        .post('/api/v1/rounds/start')
+        .send({ startPrice: 1.23, duration: 300, mode: GameMode.UP_DOWN })
         .expect(401);
     });
 
+    it('should reject start round for non-admin users', async () => {
+      await request(app)
+        .post('/api/v1/rounds/start')
+        .set('Authorization', `Bearer ${userAToken}`)
+        .send({ startPrice: 1.23, duration: 300, mode: GameMode.UP_DOWN })
+        .expect(403);
+    });
+
+    it('should reject resolve for non-oracle users', async () => {
+      await request(app)
+        .post('/api/v1/rounds/test-round-id/resolve')
+        .set('Authorization', `Bearer ${userAToken}`)
+        .send({ finalPrice: 1.45 })
+        .expect(403);
+    });
+
     it('should reject prediction without authentication', async () => {
       await request(app)
-        .post('/api/rounds/predict')
-        .send({
-          roundId: 'test-round-id',
-          side: BetSide.UP,
-          amount: 100,
-          mode: GameMode.UP_DOWN,
-        })
+        .post('/api/v1/rounds/test-round-id/predictions')
+        .send({ side: 'UP', amount: 100 })
         .expect(401);
     });
 
     it('should reject prediction for non-existent round', async () => {
       await request(app)
-        .post('/api/rounds/predict')
+        .post('/api/v1/rounds/non-existent-round/predictions')
         .set('Authorization', `Bearer ${userAToken}`)
-        .set('x-signature', 'S' + 'A'.repeat(55))
-        .send({
-          roundId: 'non-existent-round',
-          side: BetSide.UP,
-          amount: 100,
-          mode: GameMode.UP_DOWN,
-        })
+        .send({ side: 'UP', amount: 100 })
         .expect(404);
     });
 
     it('should reject invalid bet amount', async () => {
       const { body: roundBody } = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
-        .send({
-          startPrice: '1.23',
-          durationLedgers: 60,
-          mode: GameMode.UP_DOWN,
-        })
-        .expect(201);
+        .send({ startPrice: 1.23, duration: 300, mode: GameMode.UP_DOWN })
+        .expect(200);
 
       await request(app)
-        .post('/api/rounds/predict')
+        .post(`/api/v1/rounds/${roundBody.round.id}/predictions`)
         .set('Authorization', `Bearer ${userAToken}`)
-        .set('x-signature', 'S' + 'A'.repeat(55))
-        .send({
-          roundId: roundBody.roundId,
-          side: BetSide.UP,
-          amount: -10,
-          mode: GameMode.UP_DOWN,
-        })
+        .send({ side: 'UP', amount: -10 })
         .expect(400);
     });
 
     it('should reject invalid side', async () => {
       const { body: roundBody } = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
-        .send({
-          startPrice: '1.23',
-          durationLedgers: 60,
-          mode: GameMode.UP_DOWN,
-        })
-        .expect(201);
+        .send({ startPrice: 1.23, duration: 300, mode: GameMode.UP_DOWN })
+        .expect(200);
 
       await request(app)
-        .post('/api/rounds/predict')
+        .post(`/api/v1/rounds/${roundBody.round.id}/predictions`)
         .set('Authorization', `Bearer ${userAToken}`)
-        .set('x-signature', 'S' + 'A'.repeat(55))
-        .send({
-          roundId: roundBody.roundId,
-          side: 'invalid',
-          amount: 100,
-          mode: GameMode.UP_DOWN,
-        })
+        .send({ side: 'invalid', amount: 100 })
         .expect(400);
     });
   });
 
-  describe('Legends Mode (Stubbed)', () => {
-    it.skip('should handle Legends mode predictions - AWAITING CONTRACT SUPPORT', async () => {
-      await request(app)
-        .post('/api/rounds/start')
+  describe('Full Round Lifecycle (Legends Mode)', () => {
+    it('should complete a full Legends round: start -> predict by range index -> resolve', async () => {
+      const { body: roundBody } = await request(app)
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
-        .send({
-          startPrice: '1.23',
-          durationLedgers: 60,
-          mode: GameMode.LEGENDS,
-        })
-        .expect(201);
-    });
+        .send({ startPrice: 1.0, duration: 300, mode: GameMode.LEGENDS })
+        .expect(200);
+
+      const { id: roundId, priceRanges } = roundBody.round;
+      expect(roundBody.round.mode).toBe('LEGENDS');
+      expect(priceRanges.length).toBeGreaterThan(1);
+
+      const winningIndex = findRangeIndex(priceRanges, 1.02);
+      const losingIndex = winningIndex === 0 ? 1 : 0;
 
-    it('should return 501 for Legends mode start request', async () => {
       await request(app)
-        .post('/api/rounds/start')
+        .post(`/api/v1/rounds/${roundId}/predictions`)
+        .set('Authorization', `Bearer ${userAToken}`)
+        .send({ rangeIndex: winningIndex, amount: 100 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.prediction.priceRange.index).toBe(winningIndex);
+          expect(res.body.prediction.side).toBeNull();
+        });
+
+      await request(app)
+        .post(`/api/v1/rounds/${roundId}/predictions`)
+        .set('Authorization', `Bearer ${userBToken}`)
+        .send({ rangeIndex: losingIndex, amount: 50 })
+        .expect(200);
+
+      await request(app)
+        .post(`/api/v1/rounds/${roundId}/resolve`)
         .set('Authorization', `Bearer ${adminToken}`)
-        .send({
-          startPrice: '1.23',
-          durationLedgers: 60,
-          mode: GameMode.LEGENDS,
-        })
-        .expect(501)
+        .send({ finalPrice: 1.02 })
+        .expect(200)
         .expect((res) => {
-          expect(res.body).toHaveProperty('error');
-          expect(res.body.error).toBe('Not Implemented');
-          expect(res.body.message).toContain('Legends mode');
-          expect(res.body.message).toContain('Xelma-Blockchain');
+          expect(res.body.round.predictions).toBe(2);
+          expect(res.body.round.winners).toBe(1);
         });
     });
 
-    it('should return 501 for Legends mode prediction request', async () => {
+    it('should reject a Legends prediction with an out-of-range index', async () => {
+      const { body: roundBody } = await request(app)
+        .post('/api/v1/rounds/start')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ startPrice: 1.0, duration: 300, mode: GameMode.LEGENDS })
+        .expect(200);
+
       await request(app)
-        .post('/api/rounds/predict')
+        .post(`/api/v1/rounds/${roundBody.round.id}/predictions`)
         .set('Authorization', `Bearer ${userAToken}`)
-        .set('x-signature', 'S' + 'A'.repeat(55))
-        .send({
-          roundId: 'test-round-id',
-          side: BetSide.UP,
-          amount: 100,
-          mode: GameMode.LEGENDS,
-        })
-        .expect(501)
+        .send({ rangeIndex: roundBody.round.priceRanges.length, amount: 100 })
+        .expect(400)
         .expect((res) => {
-          expect(res.body.error).toBe('Not Implemented');
-          expect(res.body.message).toContain('Legends mode');
+          expect(res.body.error).toContain('rangeIndex');
         });
     });
 
-    it('should return 501 for Legends mode resolve request', async () => {
+    it('should reject a Legends prediction without a range index', async () => {
+      const { body: roundBody } = await request(app)
+        .post('/api/v1/rounds/start')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ startPrice: 1.0, duration: 300, mode: GameMode.LEGENDS })
+        .expect(200);
+
+      await request(app)
+        .post(`/api/v1/rounds/${roundBody.round.id}/predictions`)
+        .set('Authorization', `Bearer ${userAToken}`)
+        .send({ side: 'UP', amount: 100 })
+        .expect(400);
+    });
+  });
+
+  describe('Legacy /api/rounds compatibility', () => {
+    it('should accept the old body-addressed shapes with deprecation headers', async () => {
+      const { body: roundBody } = await request(app)
+        .post('/api/rounds/start')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ startPrice: '1.23', durationLedgers: 60, mode: GameMode.UP_DOWN })
+        .expect(200)
+        .expect('Deprecation', 'true');
+
+      await request(app)
+        .post('/api/rounds/predict')
+        .set('Authorization', `Bearer ${userAToken}`)
+        .send({ roundId: roundBody.round.id, side: 'up', amount: 100, mode: GameMode.UP_DOWN })
+        .expect(200)
+        .expect('Deprecation', 'true');
+
       await request(app)
         .post('/api/rounds/resolve')
         .set('Authorization', `Bearer ${adminToken}`)
-        .send({
-          roundId: 'test-round-id',
-          finalPrice: '1.45',
-          mode: GameMode.LEGENDS,
-        })
-        .expect(501)
+        .send({ roundId: roundBody.round.id, finalPrice: '1.45', mode: GameMode.UP_DOWN })
+        .expect(200)
         .expect((res) => {
-          expect(res.body.error).toBe('Not Implemented');
-          expect(res.body.message).toContain('Legends mode');
+          expect(res.body.round.status).toBe('RESOLVED');
         });
     });
   });
-
-  describe('Sample Request/Response Payloads', () => {
-    it('should provide correct sample payloads as documented', () => {
-      expect(GameMode.UP_DOWN).toBe(0);
-      expect(GameMode.LEGENDS).toBe(1);
-      expect(BetSide.UP).toBe('up');
-      expect(BetSide.DOWN).toBe('down');
-    });
-  });
 });
@@ -0,0 +1,257 @@
+import { prismaMock } from './singleton';
+import request from 'supertest';
+import express from 'express';
+import { Prisma } from '@prisma/client';
+import roundsRoutes from '../routes/rounds.routes';
+import roundsLegacyRoutes from '../routes/rounds-legacy.routes';
+import roundService from '../services/round.service';
+import predictionService from '../services/prediction.service';
+import resolutionService from '../services/resolution.service';
+import { generateToken } from '../utils/jwt.util';
+import { BetSide, GameMode } from '../types/round.types';
+
+jest.mock('../services/round.service', () => ({
+  __esModule: true,
+  default: {
+    startRound: jest.fn(),
+    getRound: jest.fn(),
+    getActiveRounds: jest.fn(),
+  },
+}));
+
+jest.mock('../services/prediction.service', () => ({
+  __esModule: true,
+  ...jest.requireActual('../services/prediction.service'),
+  default: { submitPrediction: jest.fn() },
+}));
+
+jest.mock('../services/resolution.service', () => ({
+  __esModule: true,
+  default: { resolveRound: jest.fn(), cancelRound: jest.fn() },
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/v1/rounds', roundsRoutes);
+app.use('/api/rounds', roundsLegacyRoutes);
+
+const mockedRoundService = roundService as jest.Mocked<typeof roundService>;
+const mockedPredictionService = predictionService as jest.Mocked<typeof predictionService>;
+const mockedResolutionService = resolutionService as jest.Mocked<typeof resolutionService>;
+
+function authAs(role: 'USER' | 'ADMIN') {
+  prismaMock.user.findUnique.mockResolvedValue({
+    id: 'user-1',
+    walletAddress: 'GUSER',
+    role,
+  } as any);
+  return `Bearer ${generateToken('user-1', 'GUSER')}`;
+}
+
+describe('Rounds API', () => {
+  beforeEach(() => {
+    delete process.env.LEGACY_API_SUNSET;
+  });
+
+  it('serves /api/v1/rounds without deprecation headers', async () => {
+    mockedRoundService.getActiveRounds.mockResolvedValue([]);
+
+    const res = await request(app).get('/api/v1/rounds/active');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ success: true, rounds: [] });
+    expect(res.headers.deprecation).toBeUndefined();
+  });
+
+  it('marks legacy /api/rounds responses as deprecated', async () => {
+    process.env.LEGACY_API_SUNSET = '2027-01-01';
+    mockedRoundService.getActiveRounds.mockResolvedValue([]);
+
+    const res = await request(app).get('/api/rounds/active');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.deprecation).toBe('true');
+    expect(res.headers.link).toBe('</api/v1/rounds>; rel="successor-version"');
+    expect(res.headers.sunset).toBe('Fri, 01 Jan 2027 00:00:00 GMT');
+  });
+
+  it('requires admin to start a round, including through the shim', async () => {
+    const token = authAs('USER');
+
+    const res = await request(app)
+      .post('/api/rounds/start')
+      .set('Authorization', token)
+      .send({ startPrice: '1.23', durationLedgers: 60, mode: GameMode.UP_DOWN });
+
+    expect(res.status).toBe(403);
+    expect(mockedRoundService.startRound).not.toHaveBeenCalled();
+  });
+
+  it('translates a ledger-based legacy start into seconds', async () => {
+    const token = authAs('ADMIN');
+    mockedRoundService.startRound.mockResolvedValue({ id: 'round-1', mode: 'UP_DOWN' });
+
+    const res = await request(app)
+      .post('/api/rounds/start')
+      .set('Authorization', token)
+      .send({ startPrice: '1.23', durationLedgers: 60, mode: GameMode.UP_DOWN });
+
+    expect(res.status).toBe(200);
+    // 60 ledgers * 5s = 300s = 5 minutes
+    expect(mockedRoundService.startRound).toHaveBeenCalledWith('UP_DOWN', 1.23, 5, 'XLM', undefined, {
+      type: 'ADMIN',
+      id: 'user-1',
+    });
+  });
+
+  it('routes legacy /predict through PredictionService', async () => {
+    const token = authAs('USER');
+    mockedPredictionService.submitPrediction.mockResolvedValue({
+      id: 'prediction-1',
+      roundId: 'round-1',
+      amount: 100,
+      side: 'UP',
+      priceRange: null,
+    });
+
+    const res = await request(app)
+      .post('/api/rounds/predict')
+      .set('Authorization', token)
+      .send({ roundId: 'round-1', side: BetSide.UP, amount: 100, mode: GameMode.UP_DOWN });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.deprecation).toBe('true');
+    expect(mockedPredictionService.submitPrediction).toHaveBeenCalledWith(
+      'user-1',
+      'round-1',
+      100,
+      'UP',
+      undefined,
+    );
+  });
+
+  it('refuses to replay a legacy /predict Idempotency-Key for another round', async () => {
+    const token = authAs('USER');
+    mockedPredictionService.submitPrediction.mockResolvedValue({
+      id: 'prediction-1',
+      roundId: 'round-1',
+      amount: 100,
+      side: 'UP',
+      priceRange: null,
+    });
+
+    // Stand-in for the IdempotencyKey table
+    let row: any = null;
+    prismaMock.idempotencyKey.create.mockImplementation((async ({ data }: any) => {
+      if (row) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        });
+      }
+      row = { id: 'idem-1', responseStatus: null, responseBody: null, createdAt: new Date(), ...data };
+      return row;
+    }) as any);
+    prismaMock.idempotencyKey.findUnique.mockImplementation((async () => row) as any);
+    prismaMock.idempotencyKey.update.mockImplementation((async ({ data }: any) => {
+      row = { ...row, ...data };
+      return row;
+    }) as any);
+
+    const first = await request(app)
+      .post('/api/rounds/predict')
+      .set('Authorization', token)
+      .set('Idempotency-Key', 'key-1')
+      .send({ roundId: 'round-1', side: BetSide.UP, amount: 100 });
+    expect(first.status).toBe(200);
+    expect(row.path).toBe('/api/rounds/round-1/predictions');
+
+    const reused = await request(app)
+      .post('/api/rounds/predict')
+      .set('Authorization', token)
+      .set('Idempotency-Key', 'key-1')
+      .send({ roundId: 'round-2', side: BetSide.UP, amount: 100 });
+
+    expect(reused.status).toBe(422);
+    expect(reused.headers['idempotent-replayed']).toBeUndefined();
+    expect(mockedPredictionService.submitPrediction).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps prediction service errors to their status codes', async () => {
+    const token = authAs('USER');
+    const error: any = new Error('Insufficient balance');
+    error.code = 'INSUFFICIENT_BALANCE';
+    mockedPredictionService.submitPrediction.mockRejectedValue(error);
+
+    const res = await request(app)
+      .post('/api/v1/rounds/round-1/predictions')
+      .set('Authorization', token)
+      .send({ amount: 100, side: 'UP' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Insufficient balance');
+  });
+
+  it('requires oracle or admin to resolve through legacy /resolve', async () => {
+    const token = authAs('USER');
+
+    const res = await request(app)
+      .post('/api/rounds/resolve')
+      .set('Authorization', token)
+      .send({ roundId: 'round-1', finalPrice: '1.45', mode: GameMode.UP_DOWN });
+
+    expect(res.status).toBe(403);
+    expect(mockedResolutionService.resolveRound).not.toHaveBeenCalled();
+  });
+
+  it('routes legacy /resolve to the round resolve endpoint', async () => {
+    const token = authAs('ADMIN');
+    mockedResolutionService.resolveRound.mockResolvedValue({
+      id: 'round-1',
+      status: 'RESOLVED',
+      predictions: [{ won: true }, { won: false }],
+    });
+
+    const res = await request(app)
+      .post('/api/rounds/resolve')
+      .set('Authorization', token)
+      .send({ roundId: 'round-1', finalPrice: '1.45', mode: GameMode.UP_DOWN });
+
+    expect(res.status).toBe(200);
+    expect(res.body.round.winners).toBe(1);
+    expect(mockedResolutionService.resolveRound).toHaveBeenCalledWith('round-1', 1.45, undefined, {
+      type: 'ADMIN',
+      id: 'user-1',
+    });
+  });
+
+  it('cancels a round with a reason through /:id/cancel', async () => {
+    const token = authAs('ADMIN');
+    mockedResolutionService.cancelRound.mockResolvedValue({
+      id: 'round-1',
+      status: 'CANCELLED',
+      cancelReason: 'Oracle outage',
+      cancelledAt: new Date('2026-01-29T00:10:00.000Z'),
+      // The cashed-out bet is not refunded
+      predictions: [{ withdrawnAt: null }, { withdrawnAt: null }, { withdrawnAt: new Date() }],
+    });
+
+    const missing = await request(app)
+      .post('/api/rounds/round-1/cancel')
+      .set('Authorization', token)
+      .send({});
+    expect(missing.status).toBe(400);
+
+    const res = await request(app)
+      .post('/api/rounds/round-1/cancel')
+      .set('Authorization', token)
+      .send({ reason: ' Oracle outage ' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.round).toMatchObject({ status: 'CANCELLED', refunds: 2 });
+    expect(mockedResolutionService.cancelRound).toHaveBeenCalledWith('round-1', 'Oracle outage', {
+      type: 'ADMIN',
+      id: 'user-1',
+    });
+  });
+});
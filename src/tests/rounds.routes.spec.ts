@@ -30,10 +30,10 @@ describe('Rounds Routes - Mode Validation (Issue #63)', () => {
     await prisma.$disconnect();
   });
 
-  describe('POST /api/rounds/start - mode validation', () => {
+  describe('POST /api/v1/rounds/start - mode validation', () => {
     it('should accept mode=0 (UP_DOWN) without falsy rejection', async () => {
       const res = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 0,
@@ -52,7 +52,7 @@ describe('Rounds Routes - Mode Validation (Issue #63)', () => {
 
     it('should accept mode=1 (LEGENDS)', async () => {
       const res = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 1,
@@ -71,7 +71,7 @@ describe('Rounds Routes - Mode Validation (Issue #63)', () => {
 
     it('should reject mode=-1 as invalid', async () => {
       const res = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: -1,
@@ -85,7 +85,7 @@ describe('Rounds Routes - Mode Validation (Issue #63)', () => {
 
     it('should reject mode=2 as out of range', async () => {
       const res = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 2,
@@ -99,7 +99,7 @@ describe('Rounds Routes - Mode Validation (Issue #63)', () => {
 
     it('should reject mode as string', async () => {
       const res = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 'UP_DOWN',
@@ -113,7 +113,7 @@ describe('Rounds Routes - Mode Validation (Issue #63)', () => {
 
     it('should reject missing mode (undefined)', async () => {
       const res = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           startPrice: 0.1234,
@@ -126,7 +126,7 @@ describe('Rounds Routes - Mode Validation (Issue #63)', () => {
 
     it('should reject mode=null', async () => {
       const res = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: null,
@@ -139,10 +139,10 @@ describe('Rounds Routes - Mode Validation (Issue #63)', () => {
     });
   });
 
-  describe('POST /api/rounds/start - startPrice and duration validation', () => {
+  describe('POST /api/v1/rounds/start - startPrice and duration validation', () => {
     it('should reject startPrice=0 (edge case for falsy check)', async () => {
       const res = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 0,
@@ -156,7 +156,7 @@ describe('Rounds Routes - Mode Validation (Issue #63)', () => {
 
     it('should reject duration=0 (edge case for falsy check)', async () => {
       const res = await request(app)
-        .post('/api/rounds/start')
+        .post('/api/v1/rounds/start')
         .set('Authorization', `Bearer ${adminToken}`)
         .send({
           mode: 0,
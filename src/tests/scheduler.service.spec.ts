@@ -0,0 +1,79 @@
+import './singleton';
+
+const tasks: Array<{ expression: string; run: () => Promise<void>; stop: jest.Mock }> = [];
+
+jest.mock('node-cron', () => ({
+  __esModule: true,
+  default: {
+    schedule: jest.fn((expression: string, run: () => Promise<void>) => {
+      const task = { expression, run, stop: jest.fn() };
+      tasks.push(task);
+      return task;
+    }),
+  },
+}));
+
+jest.mock('../services/soroban.service', () => ({
+  __esModule: true,
+  default: { resolveRound: jest.fn() },
+}));
+
+jest.mock('../services/ledger.service', () => ({
+  __esModule: true,
+  default: {
+    reconcile: jest.fn().mockResolvedValue({ balanced: true, mismatchedUsers: [], unbalancedJournals: [] }),
+  },
+}));
+
+jest.mock('../services/round.service', () => ({
+  __esModule: true,
+  default: { lockOverdueRounds: jest.fn().mockResolvedValue(0) },
+}));
+
+import schedulerService from '../services/scheduler.service';
+import ledgerService from '../services/ledger.service';
+import roundService from '../services/round.service';
+
+describe('SchedulerService.start', () => {
+  afterEach(() => {
+    schedulerService.stop();
+    tasks.length = 0;
+    delete process.env.AUTO_RESOLVE_ENABLED;
+  });
+
+  it('schedules maintenance jobs with auto-resolution disabled', async () => {
+    process.env.AUTO_RESOLVE_ENABLED = 'false';
+
+    schedulerService.start();
+
+    expect(tasks.map((task) => task.expression)).toEqual([
+      '*/30 * * * * *',
+      '0 2 * * *',
+      '0 3 * * *',
+      '30 * * * *',
+      '0 * * * *',
+    ]);
+
+    await tasks.find((task) => task.expression === '0 * * * *')!.run();
+    expect(ledgerService.reconcile).toHaveBeenCalled();
+
+    // The lock sweep runs even without auto-resolution
+    await tasks[0].run();
+    expect(roundService.lockOverdueRounds).toHaveBeenCalled();
+  });
+
+  it('adds the auto-resolution job when enabled', () => {
+    process.env.AUTO_RESOLVE_ENABLED = 'true';
+
+    schedulerService.start();
+
+    expect(tasks.map((task) => task.expression)).toEqual([
+      '*/30 * * * * *',
+      '*/30 * * * * *',
+      '0 2 * * *',
+      '0 3 * * *',
+      '30 * * * *',
+      '0 * * * *',
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { getTieRule, planSettlement, SettlementStake } from '../services/settlement-policy';
+import { seededRandom } from './random';
+
+// 1 XLM in stroops
+const XLM = 10_000_000n;
+
+const stakes = [
+  { id: 'p1', amount: 20n * XLM, winning: true },
+  { id: 'p2', amount: 10n * XLM, winning: true },
+  { id: 'p3', amount: 10n * XLM, winning: false },
+];
+
+const plan = (overrides: Partial<Parameters<typeof planSettlement>[0]> = {}) =>
+  planSettlement({ stakes, forfeitedPool: 0n, feeBps: 0, tieRule: 'REFUND', ...overrides });
+
+const outcomesOf = (result: ReturnType<typeof planSettlement>) => Object.fromEntries(result.outcomes);
+
+const totalPaid = (result: ReturnType<typeof planSettlement>) =>
+  [...result.outcomes.values()].reduce((sum, { payout }) => sum + payout, 0n);
+
+describe('planSettlement', () => {
+  it('shares the losing pool and forfeits among winners after the house fee', () => {
+    const result = plan({ forfeitedPool: 2n * XLM, feeBps: 2500 });
+
+    // 12 losing, 3 to the house, 9 shared 2:1
+    expect(result).toMatchObject({ reason: 'WINNERS', refunded: false, houseFee: 3n * XLM, dust: 0n });
+    expect(outcomesOf(result)).toEqual({
+      p1: { outcome: 'WIN', payout: 26n * XLM },
+      p2: { outcome: 'WIN', payout: 13n * XLM },
+      p3: { outcome: 'LOSS', payout: 0n },
+    });
+  });
+
+  it('rounds payouts down to the stroop and reports the dust', () => {
+    const result = plan();
+
+    expect(outcomesOf(result)).toMatchObject({
+      p1: { payout: 266_666_666n },
+      p2: { payout: 133_333_333n },
+    });
+    expect(result.dust).toBe(1n);
+  });
+
+  it('refunds everyone when one side is empty', () => {
+    const noWinners = plan({ stakes: stakes.map((stake) => ({ ...stake, winning: false })), forfeitedPool: 5n * XLM });
+    const noCounterparty = plan({ stakes: stakes.map((stake) => ({ ...stake, winning: true })) });
+
+    for (const [result, reason] of [[noWinners, 'NO_WINNERS'], [noCounterparty, 'NO_COUNTERPARTY']] as const) {
+      expect(result).toMatchObject({ reason, refunded: true, houseFee: 0n });
+      expect(outcomesOf(result)).toEqual({
+        p1: { outcome: 'REFUND', payout: 20n * XLM },
+        p2: { outcome: 'REFUND', payout: 10n * XLM },
+        p3: { outcome: 'REFUND', payout: 10n * XLM },
+      });
+    }
+  });
+
+  it('settles ties by the tie rule and always refunds a price outside every range', () => {
+    expect(plan({ undecided: 'TIE' })).toMatchObject({ reason: 'TIE', refunded: true });
+    expect(outcomesOf(plan({ undecided: 'TIE', tieRule: 'HOUSE' }))).toEqual({
+      p1: { outcome: 'LOSS', payout: 0n },
+      p2: { outcome: 'LOSS', payout: 0n },
+      p3: { outcome: 'LOSS', payout: 0n },
+    });
+    expect(plan({ undecided: 'NO_WINNING_RANGE', tieRule: 'HOUSE' })).toMatchObject({
+      reason: 'NO_WINNING_RANGE',
+      refunded: true,
+    });
+  });
+
+  it('never pays out more than the pool', () => {
+    const thirds = [1, 2, 3].map((i) => ({ id: `w${i}`, amount: XLM, winning: true }));
+    const result = plan({ stakes: [...thirds, { id: 'l1', amount: XLM, winning: false }] });
+
+    expect(totalPaid(result)).toBeLessThanOrEqual(4n * XLM);
+    expect(totalPaid(result) + result.dust).toBe(4n * XLM);
+  });
+
+  it('conserves every stroop of random rounds', () => {
+    for (let seed = 1; seed <= 500; seed++) {
+      const next = seededRandom(seed);
+      const count = 1 + Math.floor(next() * 12);
+      const roundStakes: SettlementStake[] = Array.from({ length: count }, (_, i) => ({
+        id: `s${i}`,
+        // 1 stroop to 1000 XLM, mostly with odd fractions
+        amount: 1n + BigInt(Math.floor(next() * 1000 * Number(XLM))),
+        winning: next() < 0.5,
+      }));
+      const forfeitedPool = next() < 0.3 ? BigInt(Math.floor(next() * 50 * Number(XLM))) : 0n;
+      const result = planSettlement({
+        stakes: roundStakes,
+        undecided: next() < 0.1 ? 'TIE' : undefined,
+        forfeitedPool,
+        feeBps: Math.floor(next() * 1001),
+        tieRule: next() < 0.5 ? 'REFUND' : 'HOUSE',
+      });
+
+      const staked = roundStakes.reduce((sum, stake) => sum + stake.amount, 0n);
+
+      // Winners, the house and the dust account for every stroop; a refund
+      // returns exactly the stakes and a house tie pays nothing (the sweep
+      // collects the rest)
+      const paid = totalPaid(result);
+      if (result.reason === 'WINNERS') {
+        expect([seed, paid + result.houseFee + result.dust]).toEqual([seed, staked + forfeitedPool]);
+      } else {
+        expect([seed, paid]).toEqual([seed, result.refunded ? staked : 0n]);
+      }
+      expect(result.dust).toBeGreaterThanOrEqual(0n);
+      expect(result.dust).toBeLessThan(BigInt(count));
+      for (const { payout } of result.outcomes.values()) {
+        expect(payout).toBeGreaterThanOrEqual(0n);
+      }
+    }
+  });
+});
+
+describe('getTieRule', () => {
+  afterEach(() => {
+    delete process.env.SETTLEMENT_TIE_RULE;
+  });
+
+  it('defaults to REFUND and ignores unknown rules', () => {
+    expect(getTieRule()).toBe('REFUND');
+
+    process.env.SETTLEMENT_TIE_RULE = 'house';
+    expect(getTieRule()).toBe('HOUSE');
+
+    process.env.SETTLEMENT_TIE_RULE = 'split';
+    expect(getTieRule()).toBe('REFUND');
+  });
+});
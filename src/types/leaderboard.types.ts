@@ -1,3 +1,5 @@
+import { Asset, GameMode, LeaderboardPeriod } from "@prisma/client";
+
 export interface ModeStats {
   wins: number;
   losses: number;
@@ -24,3 +26,48 @@ export interface LeaderboardResponse {
   totalUsers: number;
   lastUpdated: string;
 }
+
+// What a board ranks users by
+export type LeaderboardMetric = "earnings" | "accuracy" | "roi" | "streak";
+
+export interface BoardQuery {
+  period: LeaderboardPeriod;
+  // null for every mode / asset
+  mode: GameMode | null;
+  asset: Asset | null;
+  metric: LeaderboardMetric;
+  // Users with fewer settled rounds in the period are left off the board
+  minBets: number;
+  // Any time within the period to show; defaults to now
+  at?: Date;
+}
+
+export interface BoardEntry {
+  rank: number;
+  userId: string;
+  walletAddress: string;
+  rounds: number;
+  wins: number;
+  accuracy: number;
+  totalStake: number;
+  earnings: number;
+  roi: number;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export interface BoardResponse {
+  board: {
+    period: LeaderboardPeriod;
+    periodStart: string;
+    periodEnd: string | null;
+    mode: GameMode | null;
+    asset: Asset | null;
+    metric: LeaderboardMetric;
+    minBets: number;
+  };
+  leaderboard: BoardEntry[];
+  userPosition?: BoardEntry;
+  totalUsers: number;
+  lastUpdated: string;
+}
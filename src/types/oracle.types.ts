@@ -0,0 +1,53 @@
+import { Asset } from "@prisma/client";
+
+/**
+ * A single upstream price source (exchange API, DEX orderbook, fixture file)
+ */
+export interface PriceProvider {
+  readonly name: string;
+  /** Whether this source quotes the given asset */
+  supports(asset: Asset): boolean;
+  /** Returns the current price of the asset in its quote currency or throws */
+  fetchPrice(asset: Asset): Promise<number>;
+}
+
+export type AggregationMethod = "median" | "trimmed-mean";
+
+export interface PriceSample {
+  source: string;
+  price: number;
+}
+
+export interface SourceHealth {
+  source: string;
+  healthy: boolean;
+  lastPrice: number | null;
+  lastSuccessAt: string | null;
+  lastErrorAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  rejectedAsOutlier: boolean;
+}
+
+export interface AggregatedPrice {
+  price: number;
+  sources: string[];
+  rejected: string[];
+}
+
+export type PriceListener = (
+  asset: Asset,
+  price: number,
+  sources: string[],
+  timestamp: Date,
+) => void | Promise<void>;
+
+export interface OracleStatus {
+  asset: Asset;
+  price: number | null;
+  available: boolean;
+  updatedAt: string | null;
+  stalenessThresholdMs: number;
+  aggregation: AggregationMethod;
+  sources: SourceHealth[];
+}
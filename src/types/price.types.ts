@@ -0,0 +1,24 @@
+export type CandleInterval = "1m" | "5m" | "1h";
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+};
+
+export interface Candle {
+  openTime: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number;
+}
+
+export interface PriceHistoryResponse {
+  asset: string;
+  interval: CandleInterval;
+  from: string;
+  to: string;
+  candles: Candle[];
+}
@@ -1,5 +1,4 @@
-import { Request } from "express";
-import { UserRole } from "@prisma/client";
+import { Asset } from "@prisma/client";
 
 export enum GameMode {
   UP_DOWN = 0,
@@ -17,62 +16,234 @@ export enum BetSide {
   DOWN = "down",
 }
 
-export interface StartRoundRequestBody {
-  startPrice: string;
-  durationLedgers: number;
-  mode: GameMode;
+/**
+ * A LEGENDS bucket as returned in a round's priceRanges, built from its
+ * RoundBucket rows. A null bound is an open-ended tail ("below X" /
+ * "above Y").
+ */
+export interface PriceRange {
+  min: number | null;
+  max: number | null;
+  pool: number;
+}
+
+/**
+ * The LEGENDS bucket a prediction was placed on, as stored in Prediction.priceRange
+ */
+export interface PredictionRange {
+  index: number;
+  min: number | null;
+  max: number | null;
 }
 
-export interface StartRoundResponse {
+/**
+ * A user's bets on one round combined. Users may top up or hedge, so a
+ * round can hold several predictions per user.
+ */
+export interface RoundPosition {
   roundId: string;
-  startPrice: bigint;
-  endLedger: number;
-  mode: GameMode;
-  createdAt: string;
+  userId: string;
+  bets: number;
+  totalStake: number;
+  // UP_DOWN: stake on each side
+  sides: { UP: number; DOWN: number };
+  // LEGENDS: stake on each bucket, by index
+  ranges: { index: number; stake: number }[];
+  // Total paid back once every bet is settled, otherwise null
+  payout: number | null;
+  // payout - totalStake once settled, otherwise null
+  profit: number | null;
 }
 
-export interface SubmitPredictionRequestBody {
+/**
+ * A bet withdrawn before lock, as returned by PredictionService.cashOut
+ */
+export interface CashOutResult {
+  id: string;
   roundId: string;
-  side: BetSide;
   amount: number;
-  mode: GameMode;
+  // Penalty kept in the round for its winners
+  fee: number;
+  // Paid back to the user's balance (amount - fee)
+  refund: number;
+  withdrawnAt: Date;
+}
+
+/**
+ * Live parimutuel odds of one outcome of a round: an UP_DOWN side or a
+ * LEGENDS bucket
+ */
+export interface OutcomeOdds {
+  // UP_DOWN only
+  side?: "UP" | "DOWN";
+  // LEGENDS only
+  index?: number;
+  min?: number | null;
+  max?: number | null;
+  pool: number;
+  // Share of the staked pools on this outcome; null while nothing is staked
+  impliedProbability: number | null;
+  // Payout per unit staked if the outcome wins with the pools as they are,
+  // after the house fee; null while the outcome has no stake
+  multiplier: number | null;
 }
 
-export interface SubmitPredictionResponse {
-  predictionId: string;
+/**
+ * GET /api/v1/rounds/:id/odds and the round:odds socket event
+ */
+export interface RoundOdds {
   roundId: string;
-  side: BetSide;
-  amount: number;
-  txHash: string;
+  mode: "UP_DOWN" | "LEGENDS";
+  status: string;
+  feeBps: number;
+  // Staked pools plus forfeitedPool
+  totalPool: number;
+  forfeitedPool: number;
+  outcomes: OutcomeOdds[];
 }
 
-export interface ResolveRoundRequestBody {
+/**
+ * What a hypothetical stake would pay if its outcome won and the pools did
+ * not change further, as returned by PredictionService.quote
+ */
+export interface PayoutQuote {
   roundId: string;
-  finalPrice: string;
+  amount: number;
+  side: "UP" | "DOWN" | null;
+  rangeIndex: number | null;
+  feeBps: number;
+  // Pool of the chosen outcome including the stake
+  outcomePool: number;
+  multiplier: number;
+  payout: number;
+  profit: number;
+}
+
+export type BucketStrategyName = "symmetric" | "volatility";
+
+/**
+ * How LEGENDS buckets are laid out around the start price
+ */
+export interface BucketConfig {
+  strategy: BucketStrategyName;
+  // Total buckets, including the two open-ended tails (at least 2)
+  count: number;
+  // Bucket width as a percentage of the start price for "symmetric", and the
+  // fallback when "volatility" has too little price history
+  widthPct: number;
+  // "volatility": bucket width in standard deviations of the expected move
+  // over the round's duration
+  volatilityMultiplier: number;
+  // "volatility": how much price history to estimate realized volatility from
+  volatilityLookbackMinutes: number;
+}
+
+/**
+ * POST /api/v1/rounds/start
+ */
+export interface StartRoundRequestBody {
   mode: GameMode;
+  startPrice: number;
+  // Seconds
+  duration: number;
+  asset?: string;
+  // LEGENDS only: overrides the LEGENDS_BUCKET_* defaults
+  buckets?: Partial<BucketConfig>;
 }
 
-export interface ResolveRoundResponse {
-  roundId: string;
-  outcome: BetSide | null;
-  winnersCount: number;
-  losersCount: number;
-  txHash: string;
+/**
+ * Per-round settings of rounds created from a RoundTemplate
+ */
+export interface RoundSettings {
+  templateId?: string;
+  // Betting closes this long before endTime (BETTING_LOCK_PERCENT when unset)
+  lockBeforeEndSeconds?: number | null;
+  minStake?: number | null;
+  maxStake?: number | null;
 }
 
-export interface ActiveRoundResponse {
+/**
+ * Fields of a RoundTemplate, as validated by RoundTemplateService
+ */
+export interface RoundTemplateInput {
+  name: string;
+  mode: "UP_DOWN" | "LEGENDS";
+  asset: Asset;
+  durationSeconds: number;
+  // null: the global BETTING_LOCK_PERCENT lock period
+  lockBeforeEndSeconds: number | null;
+  // node-cron expression, with an optional leading seconds field
+  cadence: string;
+  // LEGENDS only: overrides the LEGENDS_BUCKET_* defaults
+  bucketConfig?: Partial<BucketConfig> | null;
+  minStake?: number | null;
+  maxStake?: number | null;
+  enabled: boolean;
+}
+
+/**
+ * POST /api/v1/round-templates (PATCH takes any subset)
+ */
+export interface RoundTemplateRequestBody {
+  name: string;
+  mode: GameMode;
+  asset?: string;
+  durationSeconds: number;
+  lockBeforeEndSeconds?: number | null;
+  cadence: string;
+  buckets?: Partial<BucketConfig> | null;
+  minStake?: number | null;
+  maxStake?: number | null;
+  enabled?: boolean;
+}
+
+/**
+ * POST /api/v1/rounds/:id/predictions
+ */
+export interface SubmitPredictionRequestBody {
+  amount: number;
+  // UP_DOWN only
+  side?: "UP" | "DOWN";
+  // LEGENDS only: index into the round's priceRanges
+  rangeIndex?: number;
+}
+
+/**
+ * POST /api/v1/rounds/:id/resolve
+ */
+export interface ResolveRoundRequestBody {
+  finalPrice: number;
+}
+
+/**
+ * Body of the deprecated ledger-based POST /api/rounds/start
+ */
+export interface LegacyStartRoundRequestBody {
+  startPrice: string | number;
+  // ~5 seconds per ledger
+  durationLedgers: number;
+  mode: GameMode;
+  asset?: string;
+  buckets?: Partial<BucketConfig>;
+}
+
+/**
+ * Body of the deprecated POST /api/rounds/predict, translated by the
+ * compatibility shim
+ */
+export interface LegacyPredictRequestBody {
   roundId: string;
-  startPrice: bigint;
-  poolUp: bigint;
-  poolDown: bigint;
-  endLedger: number;
+  side?: BetSide;
+  rangeIndex?: number;
+  amount: number;
   mode: GameMode;
 }
 
-export interface RoundRequest extends Request {
-  user?: {
-    userId: string;
-    walletAddress: string;
-    role: UserRole;
-  };
+/**
+ * Body of the deprecated POST /api/rounds/resolve
+ */
+export interface LegacyResolveRequestBody {
+  roundId: string;
+  finalPrice: string | number;
+  mode: GameMode;
 }
@@ -0,0 +1,58 @@
+import { Asset } from '@prisma/client';
+import logger from './logger';
+
+export const DEFAULT_ASSET: Asset = Asset.XLM;
+
+export const SUPPORTED_ASSETS = Object.values(Asset) as Asset[];
+
+// The Soroban contract only tracks XLM, so other assets are settled off-chain
+export const ON_CHAIN_ASSET: Asset = Asset.XLM;
+
+/**
+ * Currency each asset's price is quoted in
+ */
+export const ASSET_QUOTES: Record<Asset, 'USD' | 'XLM'> = {
+  XLM: 'USD',
+  BTC: 'USD',
+  ETH: 'USD',
+  USDC_XLM: 'XLM',
+};
+
+/**
+ * Parse an asset code (case-insensitive; "USDC/XLM" is accepted for USDC_XLM)
+ * @returns The asset, or null when the value is not a supported asset
+ */
+export function parseAsset(value: unknown): Asset | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const code = value.trim().toUpperCase().replace('/', '_');
+  return SUPPORTED_ASSETS.includes(code as Asset) ? (code as Asset) : null;
+}
+
+/**
+ * Parse a comma-separated asset list (e.g. ORACLE_ASSETS="XLM,BTC").
+ * Unknown codes are skipped with a warning; an empty result falls back to XLM.
+ */
+export function parseAssetList(value: string | undefined): Asset[] {
+  const assets: Asset[] = [];
+
+  for (const code of (value || DEFAULT_ASSET).split(',')) {
+    if (!code.trim()) {
+      continue;
+    }
+
+    const asset = parseAsset(code);
+    if (!asset) {
+      logger.warn(`Skipping unknown asset: ${code.trim()}`);
+      continue;
+    }
+
+    if (!assets.includes(asset)) {
+      assets.push(asset);
+    }
+  }
+
+  return assets.length > 0 ? assets : [DEFAULT_ASSET];
+}
@@ -0,0 +1,93 @@
+import { LeaderboardPeriod } from "@prisma/client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_SEASON_START = "2026-01-01T00:00:00Z";
+const DEFAULT_SEASON_DAYS = 90;
+
+export const LEADERBOARD_PERIODS = Object.values(
+  LeaderboardPeriod,
+) as LeaderboardPeriod[];
+
+/**
+ * Start of the first season (LEADERBOARD_SEASON_START) and the length of
+ * every season in days (LEADERBOARD_SEASON_DAYS)
+ */
+export function getSeasonConfig(): { start: Date; days: number } {
+  const start = new Date(
+    process.env.LEADERBOARD_SEASON_START || DEFAULT_SEASON_START,
+  );
+  const days = parseInt(process.env.LEADERBOARD_SEASON_DAYS || "", 10);
+
+  return {
+    start: Number.isNaN(start.getTime())
+      ? new Date(DEFAULT_SEASON_START)
+      : start,
+    days: Number.isFinite(days) && days > 0 ? days : DEFAULT_SEASON_DAYS,
+  };
+}
+
+/**
+ * Start of the period containing `at`, in UTC. Days start at midnight, weeks
+ * on Monday, months on the 1st and seasons every LEADERBOARD_SEASON_DAYS from
+ * the first season. ALL_TIME starts at the epoch.
+ */
+export function getPeriodStart(period: LeaderboardPeriod, at: Date): Date {
+  const day = Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate());
+
+  switch (period) {
+    case LeaderboardPeriod.DAILY:
+      return new Date(day);
+    case LeaderboardPeriod.WEEKLY:
+      // getUTCDay() is 0 on Sunday
+      return new Date(day - ((at.getUTCDay() + 6) % 7) * DAY_MS);
+    case LeaderboardPeriod.MONTHLY:
+      return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+    case LeaderboardPeriod.SEASON: {
+      const { start, days } = getSeasonConfig();
+      const length = days * DAY_MS;
+      const seasons = Math.floor((at.getTime() - start.getTime()) / length);
+      return new Date(start.getTime() + seasons * length);
+    }
+    default:
+      return new Date(0);
+  }
+}
+
+/**
+ * End (exclusive) of the period starting at `start`, or null for ALL_TIME
+ */
+export function getPeriodEnd(
+  period: LeaderboardPeriod,
+  start: Date,
+): Date | null {
+  switch (period) {
+    case LeaderboardPeriod.DAILY:
+      return new Date(start.getTime() + DAY_MS);
+    case LeaderboardPeriod.WEEKLY:
+      return new Date(start.getTime() + 7 * DAY_MS);
+    case LeaderboardPeriod.MONTHLY:
+      return new Date(
+        Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1),
+      );
+    case LeaderboardPeriod.SEASON:
+      return new Date(start.getTime() + getSeasonConfig().days * DAY_MS);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a period name (case-insensitive; "all-time" is accepted for ALL_TIME)
+ * @returns The period, or null when the value is not a period
+ */
+export function parsePeriod(value: unknown): LeaderboardPeriod | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const name = value.trim().toUpperCase().replace("-", "_");
+  return LEADERBOARD_PERIODS.includes(name as LeaderboardPeriod)
+    ? (name as LeaderboardPeriod)
+    : null;
+}
@@ -0,0 +1,97 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Monetary amounts are stored as Decimal(20, 7): whole stroops, the smallest
+ * XLM unit (1 XLM = 10^7 stroops). Arithmetic that must add up exactly, like
+ * splitting a pool, runs on integer stroops.
+ */
+export const MONEY_DECIMALS = 7;
+export const STROOPS_PER_UNIT = 10_000_000n;
+
+/**
+ * Anything an amount may arrive as: a Decimal column, a number from a request
+ * body, a numeric string
+ */
+export type MoneyValue = Prisma.Decimal | number | string;
+
+/**
+ * Converts an amount to stroops, dropping anything below a stroop
+ */
+export function toStroops(value: MoneyValue): bigint {
+  return BigInt(
+    new Prisma.Decimal(value)
+      .mul(STROOPS_PER_UNIT.toString())
+      .toDecimalPlaces(0, Prisma.Decimal.ROUND_DOWN)
+      .toFixed(),
+  );
+}
+
+/**
+ * Converts stroops back to an amount, for database writes
+ */
+export function fromStroops(stroops: bigint): Prisma.Decimal {
+  return new Prisma.Decimal(stroops.toString()).div(STROOPS_PER_UNIT.toString());
+}
+
+/**
+ * An amount as a plain number, for API responses, logs and ratios such as
+ * odds. Never add these up; sum stroops instead.
+ */
+export function toAmount(value: MoneyValue): number {
+  return new Prisma.Decimal(value).toNumber();
+}
+
+/**
+ * Money columns of the rows served by the API, converted by withAmounts
+ */
+export const ROUND_AMOUNT_FIELDS = [
+  "poolUp",
+  "poolDown",
+  "forfeitedPool",
+  "minStake",
+  "maxStake",
+] as const;
+export const PREDICTION_AMOUNT_FIELDS = ["amount", "payout", "withdrawalFee"] as const;
+
+/**
+ * A row with the given money columns as plain numbers (see toAmount), for API
+ * responses and socket payloads. Decimals are never serialized as they are.
+ */
+export function withAmounts<T extends object, K extends keyof T>(
+  row: T,
+  fields: readonly K[],
+): Omit<T, K> & { [P in K]: null extends T[P] ? number | null : number } {
+  const result: any = { ...row };
+  for (const field of fields) {
+    const value = row[field] as MoneyValue | null | undefined;
+    if (value !== null && value !== undefined) {
+      result[field] = toAmount(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Stroops as a plain number (see toAmount)
+ */
+export function stroopsToAmount(stroops: bigint): number {
+  return fromStroops(stroops).toNumber();
+}
+
+/**
+ * Whether an amount is a whole number of stroops (at most 7 decimals)
+ */
+export function isStroopPrecise(value: MoneyValue): boolean {
+  return new Prisma.Decimal(value).decimalPlaces() <= MONEY_DECIMALS;
+}
+
+/**
+ * Total of several amounts, in stroops
+ */
+export function sumStroops(values: Iterable<MoneyValue>): bigint {
+  let total = 0n;
+  for (const value of values) {
+    total += toStroops(value);
+  }
+  return total;
+}
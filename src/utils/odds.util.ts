@@ -0,0 +1,50 @@
+const BPS = 10000;
+
+/**
+ * What a parimutuel outcome pays per unit staked on it: the stake back plus
+ * a share of every other outcome's pool (`counterPool`) and of the forfeited
+ * stakes, less the house fee on that share. While nobody backs another
+ * outcome settlement refunds every stake (NO_COUNTERPARTY), so the outcome
+ * pays 1.
+ * @returns null while nobody has backed the outcome
+ */
+export function payoutMultiplier(
+  outcomePool: number,
+  counterPool: number,
+  forfeitedPool: number,
+  feeBps: number,
+): number | null {
+  if (outcomePool <= 0) {
+    return null;
+  }
+
+  if (counterPool <= 0) {
+    return 1;
+  }
+
+  const losingPool = counterPool + forfeitedPool;
+  return 1 + (losingPool * (1 - feeBps / BPS)) / outcomePool;
+}
+
+/**
+ * Payout of a new stake on an outcome if it won and nobody else bet, with
+ * the stake itself added to the outcome's pool
+ */
+export function projectedPayout(
+  stake: number,
+  outcomePool: number,
+  counterPool: number,
+  forfeitedPool: number,
+  feeBps: number,
+): number {
+  return stake * payoutMultiplier(outcomePool + stake, counterPool, forfeitedPool, feeBps)!;
+}
+
+/**
+ * The outcome's share of the staked pools, as the crowd's implied chance of it
+ * happening
+ * @returns null while nothing is staked
+ */
+export function impliedProbability(outcomePool: number, stakedPool: number): number | null {
+  return stakedPool > 0 ? outcomePool / stakedPool : null;
+}
@@ -0,0 +1,90 @@
+import { Prediction } from '@prisma/client';
+import { RoundPosition } from '../types/round.types';
+import { MoneyValue, stroopsToAmount, toStroops } from './money.util';
+
+type PositionPrediction = Pick<Prediction, 'roundId' | 'userId' | 'side' | 'priceRange'> & {
+  amount: MoneyValue;
+  payout: MoneyValue | null;
+};
+
+/**
+ * A position while its bets are added up, in stroops
+ */
+interface PositionTotals {
+  roundId: string;
+  userId: string;
+  bets: number;
+  stake: bigint;
+  sides: { UP: bigint; DOWN: bigint };
+  ranges: Map<number, bigint>;
+  // null once any bet is unsettled
+  payout: bigint | null;
+}
+
+/**
+ * Combine predictions into one position per user and round
+ * @returns Positions keyed by `${roundId}:${userId}`, in order of first bet
+ */
+export function summarizePositions(
+  predictions: PositionPrediction[],
+): Map<string, RoundPosition> {
+  const totals = new Map<string, PositionTotals>();
+
+  for (const prediction of predictions) {
+    const key = `${prediction.roundId}:${prediction.userId}`;
+    let position = totals.get(key);
+
+    if (!position) {
+      position = {
+        roundId: prediction.roundId,
+        userId: prediction.userId,
+        bets: 0,
+        stake: 0n,
+        sides: { UP: 0n, DOWN: 0n },
+        ranges: new Map(),
+        payout: 0n,
+      };
+      totals.set(key, position);
+    }
+
+    const amount = toStroops(prediction.amount);
+    position.bets += 1;
+    position.stake += amount;
+
+    if (prediction.side) {
+      position.sides[prediction.side] += amount;
+    }
+
+    const index = (prediction.priceRange as { index?: unknown } | null)?.index;
+    if (typeof index === 'number') {
+      position.ranges.set(index, (position.ranges.get(index) ?? 0n) + amount);
+    }
+
+    if (prediction.payout === null) {
+      position.payout = null;
+    } else if (position.payout !== null) {
+      position.payout += toStroops(prediction.payout);
+    }
+  }
+
+  const positions = new Map<string, RoundPosition>();
+  for (const [key, position] of totals) {
+    positions.set(key, {
+      roundId: position.roundId,
+      userId: position.userId,
+      bets: position.bets,
+      totalStake: stroopsToAmount(position.stake),
+      sides: {
+        UP: stroopsToAmount(position.sides.UP),
+        DOWN: stroopsToAmount(position.sides.DOWN),
+      },
+      ranges: [...position.ranges]
+        .sort(([a], [b]) => a - b)
+        .map(([index, stake]) => ({ index, stake: stroopsToAmount(stake) })),
+      payout: position.payout === null ? null : stroopsToAmount(position.payout),
+      profit: position.payout === null ? null : stroopsToAmount(position.payout - position.stake),
+    });
+  }
+
+  return positions;
+}
@@ -0,0 +1,59 @@
+import { PriceRange } from '../types/round.types';
+import { MoneyValue, toAmount } from './money.util';
+
+type Bucket = { index: number; min: number | null; max: number | null; pool: MoneyValue };
+
+/**
+ * Find the range a price falls in; ranges are [min, max) and a null bound is open
+ * @returns Index into `ranges`, or -1 when the price is outside all of them
+ */
+export function findRangeIndex(ranges: PriceRange[], price: number): number {
+  return ranges.findIndex(
+    (range) =>
+      (range.min === null || price >= range.min) &&
+      (range.max === null || price < range.max),
+  );
+}
+
+/**
+ * Resolve the range index a stored prediction was placed on.
+ * Predictions placed before ranges were addressed by index only stored
+ * { min, max }, so those fall back to an exact bounds match.
+ * @returns Index into `ranges`, or -1 when no range matches
+ */
+export function predictionRangeIndex(priceRange: any, ranges: PriceRange[]): number {
+  if (!priceRange) {
+    return -1;
+  }
+
+  if (typeof priceRange.index === 'number') {
+    return priceRange.index;
+  }
+
+  return ranges.findIndex(
+    (range) => range.min === priceRange.min && range.max === priceRange.max,
+  );
+}
+
+/**
+ * Build the priceRanges served by the API from a round's RoundBucket rows
+ */
+export function bucketsToPriceRanges(buckets: Bucket[]): PriceRange[] {
+  return [...buckets]
+    .sort((a, b) => a.index - b.index)
+    .map(({ min, max, pool }) => ({ min, max, pool: toAmount(pool) }));
+}
+
+/**
+ * Replace a round's `buckets` with the `priceRanges` array served by the API
+ * (null for rounds without buckets, e.g. UP_DOWN)
+ */
+export function withPriceRanges<T extends { buckets?: Bucket[] }>(
+  round: T,
+): Omit<T, 'buckets'> & { priceRanges: PriceRange[] | null } {
+  const { buckets, ...rest } = round;
+  return {
+    ...rest,
+    priceRanges: buckets && buckets.length > 0 ? bucketsToPriceRanges(buckets) : null,
+  };
+}